@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { getApiKey, publicApiKey, revokeApiKey } from '@/lib/apiKeys'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const key = await getApiKey(params.id)
+  if (!key) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ key: publicApiKey(key) })
+}
+
+// DELETE revokes the key; it stays listed with its revocation time
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const key = await revokeApiKey(params.id)
+  if (!key) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ ok: true, key: publicApiKey(key) })
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { ApiKeyCreateSchema, createApiKey, listApiKeys, publicApiKey } from '@/lib/apiKeys'
+import { requestUser, verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const keys = await listApiKeys()
+  return Response.json({ keys: keys.map((k) => publicApiKey(k)) })
+}
+
+// POST: issue a key. Body: { name, scopes: [...], expiresAt? }
+// The key itself is only returned here.
+export async function POST(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const parsed = ApiKeyCreateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  try {
+    const { key, token } = await createApiKey(parsed.data, requestUser(req) || undefined)
+    return Response.json({ ok: true, key: publicApiKey(key), token }, { status: 201 })
+  } catch (e: any) {
+    return Response.json({ error: e?.message || 'Internal error' }, { status: e?.status || 500 })
+  }
+}
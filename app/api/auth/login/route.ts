@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { authSecret, createSession, sessionCookie } from '@/lib/auth'
+import { authenticateLocal } from '@/lib/users'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const LoginSchema = z.object({ email: z.string().min(1).max(200), password: z.string().min(1).max(200) })
+
+// POST: local account sign-in. Body: { email, password }; sets the session cookie.
+export async function POST(req: NextRequest) {
+  const secret = authSecret()
+  if (!secret) return Response.json({ error: 'Authentication is not configured (set AUTH_SECRET)' }, { status: 503 })
+  const parsed = LoginSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return Response.json({ error: 'email and password are required' }, { status: 400 })
+  const user = await authenticateLocal(parsed.data.email, parsed.data.password)
+  if (!user) return Response.json({ error: 'Invalid email or password' }, { status: 401 })
+  const { session, token } = await createSession(user, secret)
+  return Response.json(
+    { ok: true, user: { email: session.email, name: session.name, role: session.role } },
+    { headers: { 'Set-Cookie': sessionCookie(token) } }
+  )
+}
@@ -0,0 +1,8 @@
+import { clearSessionCookie } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST() {
+  return Response.json({ ok: true }, { headers: { 'Set-Cookie': clearSessionCookie() } })
+}
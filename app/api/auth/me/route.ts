@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server'
+import { SESSION_COOKIE, authProvider, authSecret, verifySession } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// The signed-in user, for the dashboard header. authEnabled is false in local
+// development without AUTH_SECRET.
+export async function GET(req: NextRequest) {
+  const secret = authSecret()
+  if (!secret) return Response.json({ authEnabled: false, user: null })
+  const session = await verifySession(req.cookies.get(SESSION_COOKIE)?.value, secret)
+  return Response.json({
+    authEnabled: true,
+    provider: authProvider(),
+    user: session ? { email: session.email, name: session.name, role: session.role, provider: session.provider, expiresAt: new Date(session.exp * 1000).toISOString() } : null,
+  })
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authSecret, createSession, sessionCookie, verifyToken } from '@/lib/auth'
+import { OIDC_STATE_COOKIE, discover, exchangeCode, oidcConfig, userFromClaims, validateIdToken, type OidcState } from '@/lib/oidc'
+import { resolveBaseUrl } from '@/lib/utils'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Provider redirect target: checks state, exchanges the code and starts a session
+export async function GET(req: NextRequest) {
+  const secret = authSecret()
+  const base = resolveBaseUrl(req.url)
+  const cfg = oidcConfig(base)
+  if (!secret || !cfg) return Response.json({ error: 'OIDC sign-in is not configured' }, { status: 503 })
+  const fail = (message: string) => {
+    const login = new URL('/login', base)
+    login.searchParams.set('error', message)
+    const res = NextResponse.redirect(login)
+    res.headers.append('Set-Cookie', `${OIDC_STATE_COOKIE}=; Path=/api/auth/oidc; HttpOnly; SameSite=Lax; Max-Age=0`)
+    return res
+  }
+
+  const q = req.nextUrl.searchParams
+  if (q.get('error')) return fail(q.get('error_description') || q.get('error') || 'Sign-in was cancelled')
+  const state = await verifyToken<OidcState>(req.cookies.get(OIDC_STATE_COOKIE)?.value, secret)
+  const code = q.get('code')
+  if (!state || !code || q.get('state') !== state.state) return fail('Sign-in expired, please try again')
+  try {
+    const doc = await discover(cfg.issuer)
+    const tokens = await exchangeCode(cfg, doc, code, state.verifier)
+    const claims = validateIdToken(tokens.id_token, { issuer: cfg.issuer, clientId: cfg.clientId, nonce: state.nonce })
+    const { token } = await createSession(userFromClaims(claims), secret)
+    const res = NextResponse.redirect(new URL(state.next, base))
+    res.headers.append('Set-Cookie', sessionCookie(token))
+    res.headers.append('Set-Cookie', `${OIDC_STATE_COOKIE}=; Path=/api/auth/oidc; HttpOnly; SameSite=Lax; Max-Age=0`)
+    return res
+  } catch (e: any) {
+    console.error('GET /api/auth/oidc/callback error', e?.message || e)
+    return fail(e?.message || 'Sign-in failed')
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authSecret, signToken } from '@/lib/auth'
+import { OIDC_STATE_COOKIE, OIDC_STATE_TTL_SECONDS, createAuthorizationRequest, discover, oidcConfig } from '@/lib/oidc'
+import { isProd } from '@/lib/config'
+import { resolveBaseUrl } from '@/lib/utils'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET ?next=/path: redirects to the OIDC provider's sign-in page
+export async function GET(req: NextRequest) {
+  const secret = authSecret()
+  const cfg = oidcConfig(resolveBaseUrl(req.url))
+  if (!secret || !cfg) return Response.json({ error: 'OIDC sign-in is not configured' }, { status: 503 })
+  try {
+    const doc = await discover(cfg.issuer)
+    const { url, state } = createAuthorizationRequest(cfg, doc, req.nextUrl.searchParams.get('next'))
+    const res = NextResponse.redirect(url)
+    res.headers.append('Set-Cookie', `${OIDC_STATE_COOKIE}=${await signToken(state, secret)}; Path=/api/auth/oidc; HttpOnly; SameSite=Lax; Max-Age=${OIDC_STATE_TTL_SECONDS}${isProd ? '; Secure' : ''}`)
+    return res
+  } catch (e: any) {
+    console.error('GET /api/auth/oidc/login error', e?.message || e)
+    return Response.json({ error: e?.message || 'OIDC error' }, { status: 502 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { deleteUser, publicUser, updateUser, UserUpdateSchema } from '@/lib/users'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH: change name, role or password. Existing sessions keep their role until they expire.
+export async function PATCH(req: NextRequest, { params }: { params: { email: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const parsed = UserUpdateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const user = await updateUser(decodeURIComponent(params.email), parsed.data)
+  if (!user) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ ok: true, user: publicUser(user) })
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { email: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!(await deleteUser(decodeURIComponent(params.email)))) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ ok: true })
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { createUser, listUsers, publicUser, UserCreateSchema } from '@/lib/users'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const users = await listUsers()
+  return Response.json({ users: users.map(publicUser) })
+}
+
+// POST: add a local account. Body: { email, name?, role: viewer|operator|admin, password }
+export async function POST(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const parsed = UserCreateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  try {
+    const user = await createUser(parsed.data)
+    return Response.json({ ok: true, user: publicUser(user) }, { status: 201 })
+  } catch (e: any) {
+    return Response.json({ error: e?.message || 'Internal error' }, { status: e?.status || 500 })
+  }
+}
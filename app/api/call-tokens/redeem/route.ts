@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server'
+import { verifyAdminSecret } from '@/lib/adminAuth'
+import { isCallToken, redeemCallToken } from '@/lib/callTokens'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST: exchange a call token for its client secret (and resolved instructions). Body: { token }
+// For external stream servers (TWILIO_WEBSOCKET_URL), which receive the token
+// in their Stream URL; they authenticate with the admin bearer secret.
+export async function POST(req: NextRequest) {
+  if (!verifyAdminSecret(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const body = await req.json().catch(() => null)
+  if (!isCallToken(body?.token)) return Response.json({ error: 'Invalid token' }, { status: 400 })
+  const session = await redeemCallToken(body.token)
+  if (!session) return Response.json({ error: 'Unknown, expired or already redeemed token' }, { status: 404 })
+  return Response.json(session)
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { getCallRecord } from '@/lib/callRecords'
+import { getRealtimeControlSettings } from '@/lib/realtimeControl'
+import { openAIModelClient, resolvePostCallConfig, runPostCallAnalysis } from '@/lib/postCall'
+import { verifyRole } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const CallSidSchema = z.string().regex(/^CA[a-f0-9]{32}$/i)
+
+// Post-call summary, disposition and extracted fields, run when the call's stream ends (lib/postCall)
+export async function GET(_req: NextRequest, { params }: { params: { sid: string } }) {
+  if (!CallSidSchema.safeParse(params.sid).success) {
+    return Response.json({ error: 'Invalid call SID format' }, { status: 400 })
+  }
+  const record = await getCallRecord(params.sid)
+  if (!record?.analysis) return Response.json({ error: 'No analysis for this call' }, { status: 404 })
+  return Response.json({ callSid: params.sid, analysis: record.analysis })
+}
+
+// POST: (re)run the analysis with the call's profile config, e.g. after a failure or a config change
+export async function POST(req: NextRequest, { params }: { params: { sid: string } }) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!CallSidSchema.safeParse(params.sid).success) {
+    return Response.json({ error: 'Invalid call SID format' }, { status: 400 })
+  }
+  const record = await getCallRecord(params.sid)
+  if (!record) return Response.json({ error: 'Call not found' }, { status: 404 })
+  const settings = await getRealtimeControlSettings(record.profile)
+  // An explicit re-run works even where automatic analysis is off
+  const config = resolvePostCallConfig({ ...settings?.post_call, enabled: true })!
+  const analysis = await runPostCallAnalysis(params.sid, config, { model: openAIModelClient() })
+  return Response.json({ callSid: params.sid, analysis }, { status: analysis.status === 'failed' ? 502 : 200 })
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { loadTranscript } from '@/lib/transcript'
+import { getCallRecord } from '@/lib/callRecords'
+import { TRANSCRIPT_FORMATS, isTranscriptFormat, renderTranscript } from '@/lib/transcriptExport'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const CallSidSchema = z.string().regex(/^CA[a-f0-9]{32}$/i)
+
+// Finalized speaker-attributed turns for a call.
+// ?format=txt|json|srt|vtt downloads the transcript aligned to the call recording.
+export async function GET(req: NextRequest, { params }: { params: { sid: string } }) {
+  if (!CallSidSchema.safeParse(params.sid).success) {
+    return Response.json({ error: 'Invalid call SID format' }, { status: 400 })
+  }
+  const format = req.nextUrl.searchParams.get('format')
+  if (format !== null && !isTranscriptFormat(format)) {
+    return Response.json({ error: `format must be one of ${TRANSCRIPT_FORMATS.join(', ')}` }, { status: 400 })
+  }
+  const transcript = await loadTranscript(params.sid)
+  if (!format) return Response.json({ callSid: params.sid, turns: transcript.turns })
+
+  if (!transcript.turns.length) return Response.json({ error: 'No transcript stored for this call' }, { status: 404 })
+  const record = await getCallRecord(params.sid).catch(() => null)
+  const out = renderTranscript(format, params.sid, transcript, record)
+  return new Response(out.body, {
+    headers: {
+      'Content-Type': out.contentType,
+      'Content-Disposition': `attachment; filename="${out.filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
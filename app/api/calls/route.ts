@@ -1,11 +1,13 @@
 import { NextRequest } from 'next/server'
 import { z } from 'zod'
 import { OutgoingCallSchema } from '@/lib/validation'
-import { createEphemeralClientSecret } from '@/lib/openai'
-import { getTwilioClient, getTwilioFromNumber } from '@/lib/twilio'
+import { getTwilioClient } from '@/lib/twilio'
 import { resolveBaseUrl } from '@/lib/utils'
 import { allowClientCredsServer } from '@/lib/config'
-import { getRealtimeControlSettings } from '@/lib/realtimeControl'
+import { placeOutboundCall } from '@/lib/dialer'
+import { getCallRecord, listCallRecords } from '@/lib/callRecords'
+import { checkRateLimits, clientIp, rateLimitResponse } from '@/lib/rateLimit'
+import { requestUser } from '@/lib/adminAuth'
 
 export const runtime = 'nodejs'
 
@@ -17,104 +19,40 @@ export async function POST(req: NextRequest) {
       return Response.json({ error: parsed.error.flatten() }, { status: 400 })
     }
     const data = parsed.data
-
-    const openaiKey = allowClientCredsServer() ? (data.openaiApiKey || process.env.OPENAI_API_KEY) : process.env.OPENAI_API_KEY
-    if (!openaiKey) return Response.json({ error: 'OpenAI API key missing' }, { status: 400 })
-
-    // Get saved control settings
-    const customSettings = getRealtimeControlSettings()
-    
-    // Merge custom settings with the ephemeral request
-    // Priority: Custom settings from UI > Request body > Environment defaults
-    let ephemeralPayload = data.ephemeral
-    if (ephemeralPayload?.session) {
-      // Ensure audio formats are set for telephony
-      ephemeralPayload.session.input_audio_format = 'g711_ulaw'
-      ephemeralPayload.session.output_audio_format = 'g711_ulaw'
-      ephemeralPayload.session.modalities = ['audio', 'text']
-      
-      // Apply custom settings if available
-      if (customSettings) {
-        // Create merged session with proper typing
-        const mergedSession: any = {
-          ...ephemeralPayload.session,
-          // Apply saved settings (these override the form values)
-          ...(customSettings.voice && { voice: customSettings.voice }),
-          ...(customSettings.instructions && { instructions: customSettings.instructions }),
-          // Note: temperature and max_response_output_tokens are not supported in ephemeral token creation
-          // These parameters can only be set via server-side session.update after connection
-          ...(customSettings.turn_detection && { turn_detection: customSettings.turn_detection }),
-          ...(customSettings.tools && { tools: customSettings.tools }),
-          ...(customSettings.tool_choice && { tool_choice: customSettings.tool_choice as any }),
-          ...(customSettings.input_audio_transcription && { input_audio_transcription: customSettings.input_audio_transcription }),
-        }
-        ephemeralPayload.session = mergedSession
-      }
-    }
-
-    // Create ephemeral client secret with merged settings
-    const eph = await createEphemeralClientSecret(openaiKey, ephemeralPayload)
-    const secretVal = eph.client_secret.value
-
-    // Create outbound call via Twilio
-    const client = allowClientCredsServer()
-      ? getTwilioClient({ sid: data.twilioAccountSid, token: data.twilioAuthToken })
-      : getTwilioClient()
-    const from = allowClientCredsServer() ? getTwilioFromNumber(data.twilioFromNumber) : getTwilioFromNumber()
-    if (!from) return Response.json({ error: 'Twilio from number missing' }, { status: 400 })
-
-    const base = resolveBaseUrl(req.url)
-    // Use stream mode if TWILIO_WEBSOCKET_URL is configured, otherwise simple mode
-    const mode = process.env.TWILIO_WEBSOCKET_URL ? 'stream' : 'simple'
-    const twimlUrl = `${base}/api/twiml?secret=${encodeURIComponent(secretVal)}&mode=${mode}`
-
-    const callCreatePayload: any = {
-      to: data.toNumber,
-      from,
-      url: twimlUrl,
-      method: 'GET',
-    }
-    // Optional best-practice: status callbacks for call lifecycle
-    const statusCb = process.env.TWILIO_STATUS_CALLBACK_URL
-    if (statusCb) {
-      callCreatePayload.statusCallback = statusCb
-      callCreatePayload.statusCallbackMethod = process.env.TWILIO_STATUS_CALLBACK_METHOD || 'POST'
-      callCreatePayload.statusCallbackEvent = (
-        process.env.TWILIO_STATUS_CALLBACK_EVENTS || 'initiated,ringing,answered,completed'
-      ).split(',').map((s) => s.trim()).filter(Boolean)
-    }
-    if (data.record) {
-      callCreatePayload.record = true
-      callCreatePayload.recordingChannels = 'dual'
-      // Optionally: callCreatePayload.recordingTrack = 'both'
-    } else {
-      callCreatePayload.record = false
-    }
-
-    const call = await client.calls.create(callCreatePayload)
-
-    return Response.json({ callSid: call.sid, client_secret: eph.client_secret, url: twimlUrl })
+    await checkRateLimits({ key: requestUser(req), ip: clientIp(req) })
+    const clientCreds = allowClientCredsServer()
+
+    const result = await placeOutboundCall({
+      toNumber: data.toNumber,
+      ephemeral: data.ephemeral,
+      record: data.record,
+      baseUrl: resolveBaseUrl(req.url),
+      openaiKey: clientCreds ? data.openaiApiKey : undefined,
+      twilio: clientCreds ? { sid: data.twilioAccountSid, token: data.twilioAuthToken, from: data.twilioFromNumber } : undefined,
+    })
+    return Response.json(result)
   } catch (err: any) {
-    const status = err?.response?.status || 500
+    if (err?.status === 429) return rateLimitResponse(err)
+    const status = err?.status || err?.response?.status || 500
     const detail = err?.response?.data || { error: err?.message || 'Internal error' }
     console.error('POST /api/calls error', detail)
     return Response.json(detail, { status })
   }
 }
 
+// GET: call history from our call records; ?sid= returns one record (Twilio as fallback)
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url)
     const sid = searchParams.get('sid') || undefined
-    const twilioSid = process.env.TWILIO_ACCOUNT_SID
-    const twilioToken = process.env.TWILIO_AUTH_TOKEN
-    const client = getTwilioClient({ sid: twilioSid, token: twilioToken })
     if (sid) {
-      const call = await client.calls(sid).fetch()
+      const record = await getCallRecord(sid)
+      if (record) return Response.json(record)
+      const call = await getTwilioClient().calls(sid).fetch()
       return Response.json(call)
     }
-    const list = await client.calls.list({ limit: 50 })
-    return Response.json(list)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 500)
+    return Response.json(await listCallRecords(limit))
   } catch (err: any) {
     console.error('GET /api/calls error', err)
     return Response.json({ error: err?.message || 'Internal error' }, { status: 500 })
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server'
+import { getCampaign, setCampaignStatus, summarizeCampaign } from '@/lib/campaigns'
+import { verifyRole } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Pause stops new dials; calls already in flight finish and are reconciled by later ticks
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!(await getCampaign(params.id))) return Response.json({ error: 'Not found' }, { status: 404 })
+  const campaign = await setCampaignStatus(params.id, 'pause')
+  if (!campaign) return Response.json({ error: 'Cannot pause campaign in its current state' }, { status: 409 })
+  return Response.json({ ok: true, campaign: summarizeCampaign(campaign) })
+}
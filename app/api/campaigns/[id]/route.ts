@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server'
+import { campaignProgress, deleteCampaign, getCampaign } from '@/lib/campaigns'
+import { verifyRole } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyRole(req, 'viewer')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const campaign = await getCampaign(params.id)
+  if (!campaign) return Response.json({ error: 'Not found' }, { status: 404 })
+  const { ephemeral: _ephemeral, ...rest } = campaign
+  return Response.json({ campaign: rest, progress: campaignProgress(campaign) })
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const campaign = await getCampaign(params.id)
+  if (!campaign) return Response.json({ error: 'Not found' }, { status: 404 })
+  if (campaign.status === 'running') return Response.json({ error: 'Pause the campaign before deleting it' }, { status: 409 })
+  await deleteCampaign(params.id)
+  return Response.json({ ok: true })
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server'
+import { defaultCampaignDeps, getCampaign, runCampaignTick, setCampaignStatus, summarizeCampaign } from '@/lib/campaigns'
+import { verifyRole } from '@/lib/adminAuth'
+import { resolveBaseUrl } from '@/lib/utils'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!(await getCampaign(params.id))) return Response.json({ error: 'Not found' }, { status: 404 })
+  const updated = await setCampaignStatus(params.id, 'start')
+  if (!updated) return Response.json({ error: 'Cannot start campaign in its current state' }, { status: 409 })
+  // Dial the first contacts now instead of waiting for the next cron tick
+  const campaign = await runCampaignTick(params.id, defaultCampaignDeps(resolveBaseUrl(req.url)))
+  return Response.json({ ok: true, campaign: summarizeCampaign(campaign || updated) })
+}
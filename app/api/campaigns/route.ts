@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { CampaignCreateSchema, contactsFromCsv, createCampaign, listCampaigns, saveCampaign, summarizeCampaign } from '@/lib/campaigns'
+import { verifyRole } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  if (!verifyRole(req, 'viewer')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  return Response.json({ campaigns: await listCampaigns() })
+}
+
+// POST: create a draft campaign from CSV. Body: { name, csv, profile?, instructions?, concurrency?, pacingSeconds?, retry?, record? }
+export async function POST(req: NextRequest) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const parsed = CampaignCreateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const { contacts, errors } = contactsFromCsv(parsed.data.csv)
+  if (contacts.length === 0) return Response.json({ error: 'No valid contacts', errors }, { status: 400 })
+  const campaign = await saveCampaign(createCampaign(parsed.data, contacts))
+  return Response.json({ ok: true, campaign: summarizeCampaign(campaign), errors })
+}
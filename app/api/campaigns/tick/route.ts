@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server'
+import { defaultCampaignDeps, tickAllCampaigns } from '@/lib/campaigns'
+import { verifyCron, verifyRole } from '@/lib/adminAuth'
+import { resolveBaseUrl } from '@/lib/utils'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Campaign dispatcher: hit every minute by cron (Bearer CRON_SECRET) or by the open dashboard (admin secret)
+async function handle(req: NextRequest) {
+  if (!verifyCron(req) && !verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const campaigns = await tickAllCampaigns(defaultCampaignDeps(resolveBaseUrl(req.url)))
+  return Response.json({ ok: true, campaigns })
+}
+
+export const GET = handle
+export const POST = handle
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { BusinessHoursSchema, evaluateBusinessHours, getBusinessHours, saveBusinessHours } from '@/lib/businessHours'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET: schedule plus its status at `?at=` (ISO timestamp, default now)
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const at = new URL(req.url).searchParams.get('at')
+  const now = at ? new Date(at) : new Date()
+  if (isNaN(now.getTime())) return Response.json({ error: 'Invalid at' }, { status: 400 })
+  const hours = await getBusinessHours()
+  return Response.json({ hours, status: hours ? evaluateBusinessHours(hours, now) : null })
+}
+
+// PUT: replace the schedule. Body: { enabled?, timezone?, weekly, holidays, closed }
+export async function PUT(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const body = await req.json().catch(() => null)
+  const parsed = BusinessHoursSchema.safeParse(body)
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const hours = await saveBusinessHours(parsed.data)
+  return Response.json({ ok: true, hours, status: evaluateBusinessHours(hours, new Date()) })
+}
@@ -1,12 +1,19 @@
 import { NextRequest } from 'next/server'
-import { createClient } from 'redis'
 import { z } from 'zod'
+import {
+  LIVE_PUSH_SIGNATURE_HEADER,
+  LIVE_PUSH_TIMESTAMP_HEADER,
+  LiveSidSchema,
+  livePushSecret,
+  openLiveStore,
+} from '@/lib/liveStore'
+import { verifyHmacSignature } from '@/lib/webhooks'
+import { getCallRecord, upsertCallRecord } from '@/lib/callRecords'
+import { getRealtimeControlSettings } from '@/lib/realtimeControl'
+import { countTotal, redactDeep, resolveRedactionPolicy } from '@/lib/redaction'
 
 export const runtime = 'nodejs'
 
-// Validate SID format to prevent injection
-const SidSchema = z.string().regex(/^[A-Za-z0-9_-]{10,100}$/)
-
 // Validate transcript data
 const TranscriptSchema = z.object({
   t: z.number().optional(),
@@ -14,50 +21,58 @@ const TranscriptSchema = z.object({
   text: z.string().max(10000),
 }).passthrough()
 
-function getRedis() {
-  const url = process.env.REDIS_URL || ''
-  if (!url) throw new Error('REDIS_URL not set')
-  const client = createClient({ url })
-  return client
-}
-
 export async function POST(req: NextRequest, { params }: { params: { sid: string } }) {
   try {
+    // Only the stream bridge may push: it signs the body with the shared secret
+    const raw = await req.text()
+    const secret = livePushSecret()
+    const timestamp = req.headers.get(LIVE_PUSH_TIMESTAMP_HEADER)
+    const signed = !!secret && !!timestamp && verifyHmacSignature({
+      rawBody: raw,
+      signature: req.headers.get(LIVE_PUSH_SIGNATURE_HEADER),
+      timestamp,
+      secret,
+    })
+    if (!signed) return Response.json({ error: 'Unauthorized' }, { status: 401 })
     // Validate and sanitize SID
-    const sidResult = SidSchema.safeParse(params.sid)
+    const sidResult = LiveSidSchema.safeParse(params.sid)
     if (!sidResult.success) {
       return Response.json({ error: 'Invalid session ID' }, { status: 400 })
     }
     const sid = sidResult.data
     // Parse and validate body
-    const rawBody = await req.json().catch(() => null)
+    let rawBody: unknown = null
+    try { rawBody = JSON.parse(raw) } catch {}
     if (!rawBody) return Response.json({ error: 'Invalid request body' }, { status: 400 })
-    
+
     const bodyResult = TranscriptSchema.safeParse(rawBody)
     if (!bodyResult.success) {
       return Response.json({ error: 'Invalid transcript data' }, { status: 400 })
     }
-    const body = bodyResult.data
-    
-    // Use safe key construction
-    const key = `transcript:${sid}`
-    const r = getRedis()
-    await r.connect()
-    // Limit data size and set appropriate TTL
+    // Redact before storage with the call's profile policy; text from the bridge is already redacted
+    const record = await getCallRecord(sid).catch(() => null)
+    const settings = await getRealtimeControlSettings(record?.profile).catch(() => null)
+    const { value: body, counts } = await redactDeep(bodyResult.data, resolveRedactionPolicy(settings?.redaction))
+    if (countTotal(counts) > 0 && record) {
+      await upsertCallRecord(sid, { redactions: counts }).catch(() => {})
+    }
+
+    // Limit data size
     const data = JSON.stringify(body)
     if (data.length > 50000) {
-      await r.quit()
       return Response.json({ error: 'Data too large' }, { status: 413 })
     }
-    
-    await r.rPush(key, data)
-    await r.expire(key, 60 * 30) // 30 minutes TTL
-    await r.quit()
-    return Response.json({ ok: true })
+
+    const store = await openLiveStore()
+    try {
+      const id = await store.append(sid, data)
+      return Response.json({ ok: true, id })
+    } finally {
+      await store.close()
+    }
   } catch (e: any) {
     // Don't expose internal errors
     console.error('[Push] Error:', e)
     return Response.json({ ok: false, error: 'Internal server error' }, { status: 500 })
   }
 }
-
@@ -1,52 +1,61 @@
 import { NextRequest } from 'next/server'
-import { createClient } from 'redis'
+import { LiveSidSchema, formatSseEvent, openLiveStore, parseLastEventId, type LiveStore } from '@/lib/liveStore'
 
 export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
 
-function getRedis() {
-  const url = process.env.REDIS_URL || ''
-  if (!url) throw new Error('REDIS_URL not set')
-  const client = createClient({ url })
-  return client
-}
+// Each blocking read doubles as the keep-alive interval
+const BLOCK_MS = 15000
 
 export async function GET(req: NextRequest, { params }: { params: { sid: string } }) {
-  const sid = params.sid
-  if (!sid) return new Response('Missing sid', { status: 400 })
+  const parsed = LiveSidSchema.safeParse(params.sid)
+  if (!parsed.success) return Response.json({ error: 'Invalid session ID' }, { status: 400 })
+  const sid = parsed.data
 
-  const stream = new ReadableStream<Uint8Array>({
-    async start(controller) {
-      const enc = new TextEncoder()
-      const key = `transcript:${sid}`
-      const r = getRedis()
-      await r.connect()
-      let cursor = 0
-      const ping = setInterval(() => controller.enqueue(enc.encode(`: ping\n\n`)), 15000)
+  // EventSource sends Last-Event-ID on reconnect; the query param lets other clients resume too
+  let cursor = parseLastEventId(req.headers.get('last-event-id') || req.nextUrl.searchParams.get('lastEventId'))
+  const enc = new TextEncoder()
+  // Own store per stream: a blocking redis read holds its connection
+  let store: LiveStore | null = null
+  let closed = false
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null
+  const close = async () => {
+    if (closed) return
+    closed = true
+    req.signal.removeEventListener('abort', close)
+    try { await store?.close() } catch {}
+    try { controller?.close() } catch {}
+  }
+  req.signal.addEventListener('abort', close)
 
-      const loop = async () => {
-        try {
-          while (true) {
-            const len = await r.lLen(key)
-            if (len > cursor) {
-              const items = await r.lRange(key, cursor, len - 1)
-              for (const raw of items) {
-                controller.enqueue(enc.encode(`event: line\n`))
-                controller.enqueue(enc.encode(`data: ${raw}\n\n`))
-              }
-              cursor = len
-            }
-            await new Promise((res) => setTimeout(res, 700))
+  const stream = new ReadableStream<Uint8Array>({
+    async start(c) {
+      controller = c
+      if (req.signal.aborted) return close()
+      try {
+        store = await openLiveStore()
+        // Aborted while connecting
+        if (closed) return store.close()
+        c.enqueue(enc.encode(`retry: 2000\n\n`))
+        while (!closed) {
+          const entries = await store.read(sid, { afterId: cursor, blockMs: BLOCK_MS, signal: req.signal })
+          if (closed) break
+          if (!entries.length) {
+            c.enqueue(enc.encode(`: ping\n\n`))
+            continue
+          }
+          for (const e of entries) {
+            c.enqueue(enc.encode(formatSseEvent(e.id, 'line', e.data)))
+            cursor = e.id
           }
-        } catch (e) {
-          // fallthrough to finally
-        } finally {
-          clearInterval(ping)
-          try { await r.quit() } catch {}
-          try { controller.close() } catch {}
         }
+      } catch (e: any) {
+        if (!closed) console.error('[SSE] Stream error:', e?.message || e)
+      } finally {
+        await close()
       }
-      loop()
     },
+    cancel: close,
   })
 
   return new Response(stream, {
@@ -57,4 +66,3 @@ export async function GET(req: NextRequest, { params }: { params: { sid: string
     }
   })
 }
-
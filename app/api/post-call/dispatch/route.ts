@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server'
+import { openAIModelClient, processPostCallQueue } from '@/lib/postCall'
+import { verifyCron, verifyRole } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Post-call analysis dispatcher: hit every minute by cron (Bearer CRON_SECRET) and kicked by the bridge when a call ends
+async function handle(req: NextRequest) {
+  if (!verifyCron(req) && !verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const results = await processPostCallQueue({ model: openAIModelClient() })
+  return Response.json({ ok: true, analyzed: results.length, completed: results.filter((r) => r.analysis.status === 'completed').length })
+}
+
+export const GET = handle
+export const POST = handle
@@ -1,5 +1,5 @@
 import { NextRequest } from 'next/server'
-import { buildServerUpdateFromEnv, buildServerUpdate, getRealtimeControlSettings, setRealtimeControlSettings } from '@/lib/realtimeControl'
+import { buildServerUpdateFromEnv, buildServerUpdate, getRealtimeControlSettings } from '@/lib/realtimeControl'
 import { verifyHmacSignature } from '@/lib/webhooks'
 import crypto from 'crypto'
 
@@ -53,7 +53,7 @@ export async function POST(req: NextRequest) {
     console.log('Realtime control webhook event:', body?.type || body?.event?.type || 'unknown')
 
     // Build a session.update from env defaults and return as events[]
-    const update = buildServerUpdate()
+    const update = buildServerUpdate(await getRealtimeControlSettings())
     return Response.json({ events: [update] })
   } catch (e: any) {
     console.error('POST /api/realtime/control error', e)
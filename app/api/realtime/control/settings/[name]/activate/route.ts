@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server'
+import { activateProfile, ProfileNameSchema } from '@/lib/profiles'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+
+export async function POST(req: NextRequest, { params }: { params: { name: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const name = ProfileNameSchema.safeParse(params.name)
+  if (!name.success) return Response.json({ error: 'Invalid profile name' }, { status: 400 })
+  const ok = await activateProfile(name.data)
+  if (!ok) return Response.json({ error: 'Profile not found' }, { status: 404 })
+  return Response.json({ ok: true, active: name.data })
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { diffProfileVersions, getProfile, ProfileNameSchema } from '@/lib/profiles'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET ?from=&to= — defaults to the previous version vs the current one
+export async function GET(req: NextRequest, { params }: { params: { name: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const name = ProfileNameSchema.safeParse(params.name)
+  if (!name.success) return Response.json({ error: 'Invalid profile name' }, { status: 400 })
+  const profile = await getProfile(name.data)
+  if (!profile) return Response.json({ error: 'Profile not found' }, { status: 404 })
+  const { searchParams } = new URL(req.url)
+  const to = parseInt(searchParams.get('to') || '', 10) || profile.currentVersion
+  const from = parseInt(searchParams.get('from') || '', 10) || Math.max(1, to - 1)
+  const changes = diffProfileVersions(profile, from, to)
+  if (!changes) return Response.json({ error: 'Version not found' }, { status: 404 })
+  return Response.json({ from, to, changes })
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server'
+import { ProfileNameSchema, rollbackProfile } from '@/lib/profiles'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+
+// Body: { version } — appends a new version with that version's settings
+export async function POST(req: NextRequest, { params }: { params: { name: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const name = ProfileNameSchema.safeParse(params.name)
+  if (!name.success) return Response.json({ error: 'Invalid profile name' }, { status: 400 })
+  const body = (await req.json().catch(() => null)) as { version?: number } | null
+  const version = Number(body?.version)
+  if (!Number.isInteger(version) || version < 1) return Response.json({ error: 'version is required' }, { status: 400 })
+  const profile = await rollbackProfile(name.data, version)
+  if (!profile) return Response.json({ error: 'Profile or version not found' }, { status: 404 })
+  return Response.json({ ok: true, profile })
+}
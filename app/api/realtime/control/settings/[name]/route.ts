@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { normalizeControlSettings, RealtimeControlSettings } from '@/lib/realtimeControl'
+import { deleteProfile, getActiveProfileName, getProfile, ProfileNameSchema, saveProfile } from '@/lib/profiles'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest, { params }: { params: { name: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const name = ProfileNameSchema.safeParse(params.name)
+  if (!name.success) return Response.json({ error: 'Invalid profile name' }, { status: 400 })
+  const profile = await getProfile(name.data)
+  if (!profile) return Response.json({ error: 'Profile not found' }, { status: 404 })
+  const active = await getActiveProfileName()
+  return Response.json({ profile, active: active === profile.name })
+}
+
+// PUT: save a new version. Body: { settings, note?, description? }
+export async function PUT(req: NextRequest, { params }: { params: { name: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const name = ProfileNameSchema.safeParse(params.name)
+  if (!name.success) return Response.json({ error: 'Invalid profile name' }, { status: 400 })
+  try {
+    const body = (await req.json()) as { settings: RealtimeControlSettings; note?: string; description?: string }
+    const normalized = normalizeControlSettings(body?.settings)
+    if (!normalized.ok) return Response.json({ error: normalized.error, details: normalized.details }, { status: 400 })
+    const profile = await saveProfile(name.data, normalized.settings, { note: body.note, description: body.description })
+    return Response.json({ ok: true, profile })
+  } catch (e: any) {
+    return Response.json({ error: e?.message || 'Invalid body' }, { status: 400 })
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { name: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const name = ProfileNameSchema.safeParse(params.name)
+  if (!name.success) return Response.json({ error: 'Invalid profile name' }, { status: 400 })
+  const deleted = await deleteProfile(name.data)
+  if (!deleted) return Response.json({ error: 'Profile not found' }, { status: 404 })
+  return Response.json({ ok: true })
+}
@@ -1,42 +1,38 @@
 import { NextRequest } from 'next/server'
-import { getRealtimeControlSettings, setRealtimeControlSettings, RealtimeControlSettings } from '@/lib/realtimeControl'
-import crypto from 'crypto'
+import { normalizeControlSettings, RealtimeControlSettings } from '@/lib/realtimeControl'
+import { DEFAULT_PROFILE, getActiveProfileName, getProfileSettings, listProfiles, ProfileNameSchema, saveProfile } from '@/lib/profiles'
+import { verifyAdmin } from '@/lib/adminAuth'
 
 export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
 
-// Constant-time string comparison to prevent timing attacks
-function timingSafeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) return false
-  const bufA = Buffer.from(a)
-  const bufB = Buffer.from(b)
-  return crypto.timingSafeEqual(bufA, bufB)
-}
-
-function verifyAdmin(req: NextRequest): boolean {
-  const admin = process.env.REALTIME_CONTROL_ADMIN_SECRET
-  if (!admin || admin.length < 32) return false // Require strong secret
-  
-  const auth = req.headers.get('authorization') || ''
-  if (!auth.startsWith('Bearer ')) return false
-  
-  const token = auth.slice(7)
-  return timingSafeEqual(token, admin)
-}
-
+// GET: active profile settings plus the profile list
 export async function GET(req: NextRequest) {
   if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
-  const s = getRealtimeControlSettings()
-  return Response.json({ settings: s || null })
+  try {
+    const [active, profiles] = await Promise.all([getActiveProfileName(), listProfiles()])
+    const settings = active ? await getProfileSettings(active) : null
+    return Response.json({ active, settings: settings || null, profiles })
+  } catch (e: any) {
+    console.error('GET /api/realtime/control/settings error', e)
+    return Response.json({ error: 'Failed to load profiles' }, { status: 500 })
+  }
 }
 
+// POST: create a profile, or save a new version of one.
+// Body: { name?, settings, note?, description? }; without name the active profile is updated.
 export async function POST(req: NextRequest) {
   if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
   try {
-    const body = (await req.json()) as { settings: RealtimeControlSettings | null }
-    setRealtimeControlSettings(body?.settings || null)
-    return Response.json({ ok: true })
+    const body = (await req.json()) as { name?: string; settings: RealtimeControlSettings; note?: string; description?: string }
+    const name = body?.name || (await getActiveProfileName()) || DEFAULT_PROFILE
+    const nameResult = ProfileNameSchema.safeParse(name)
+    if (!nameResult.success) return Response.json({ error: 'Invalid profile name' }, { status: 400 })
+    const normalized = normalizeControlSettings(body?.settings)
+    if (!normalized.ok) return Response.json({ error: normalized.error, details: normalized.details }, { status: 400 })
+    const profile = await saveProfile(nameResult.data, normalized.settings, { note: body.note, description: body.description })
+    return Response.json({ ok: true, profile })
   } catch (e: any) {
     return Response.json({ error: e?.message || 'Invalid body' }, { status: 400 })
   }
 }
-
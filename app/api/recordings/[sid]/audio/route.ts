@@ -18,17 +18,7 @@ export async function GET(req: NextRequest, { params }: { params: { sid: string
     }
     const sid = sidResult.data
     
-    // TODO: Add authentication check here
-    // For now, we'll add a simple token check as a placeholder
-    // In production, implement proper session-based auth
-    const authHeader = req.headers.get('authorization')
-    const token = authHeader?.replace('Bearer ', '')
-    
-    // Basic auth check - replace with proper authentication
-    if (process.env.NODE_ENV === 'production' && !token) {
-      return new Response('Unauthorized', { status: 401 })
-    }
-    
+    // Viewer access is enforced by middleware.ts (the <audio> element sends the session cookie)
     const client = getTwilioClient()
     const rec = await client.recordings(sid).fetch()
     // Twilio media URL (MP3)
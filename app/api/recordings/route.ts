@@ -11,13 +11,7 @@ const CallSidSchema = z.string().regex(/^CA[a-f0-9]{32}$/i).optional()
 
 export async function GET(req: NextRequest) {
   try {
-    // TODO: Add proper authentication here
-    // For production, implement session-based auth or API key validation
-    const authHeader = req.headers.get('authorization')
-    if (process.env.NODE_ENV === 'production' && !authHeader) {
-      return Response.json({ error: 'Authentication required' }, { status: 401 })
-    }
-    
+    // Viewer access is enforced by middleware.ts
     const { searchParams } = new URL(req.url)
     const callSidParam = searchParams.get('callSid') || undefined
     
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { getRoutingTable, matchRoute } from '@/lib/routing'
+import { verifyRole } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+
+const DryRunSchema = z.object({
+  to: z.string().optional(),
+  from: z.string().optional(),
+  at: z.string().datetime({ offset: true }).optional(),
+})
+
+// Dry run: which rule would handle a call { to, from, at }?
+export async function POST(req: NextRequest) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const parsed = DryRunSchema.safeParse(await req.json().catch(() => ({})))
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const { to, from, at } = parsed.data
+  const rule = matchRoute(await getRoutingTable(), { to, from, now: at ? new Date(at) : new Date() })
+  return Response.json({ rule })
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { getRoutingTable, RoutingTableSchema, saveRoutingTable } from '@/lib/routing'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const table = await getRoutingTable()
+  return Response.json({ table: table || { rules: [] } })
+}
+
+// PUT: replace the whole table. Body: { timezone?, rules: [...] }
+export async function PUT(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const body = await req.json().catch(() => null)
+  const parsed = RoutingTableSchema.safeParse(body)
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const table = await saveRoutingTable(parsed.data)
+  return Response.json({ ok: true, table })
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+import { cancelScheduledCall, getScheduledCall, rescheduleCall, ScheduleTimeSchema } from '@/lib/scheduledCalls'
+import { verifyRole } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyRole(req, 'viewer')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const call = await getScheduledCall(params.id)
+  if (!call) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ call })
+}
+
+// PATCH: reschedule. Body: { at, timezone? } (timezone defaults to the job's)
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const parsed = ScheduleTimeSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const result = await rescheduleCall(params.id, parsed.data)
+  if (result.error) return Response.json({ error: result.error }, { status: result.status })
+  return Response.json({ ok: true, call: result.job })
+}
+
+// DELETE: cancel (the job is kept with status "canceled")
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const result = await cancelScheduledCall(params.id)
+  if (result.error) return Response.json({ error: result.error }, { status: result.status })
+  return Response.json({ ok: true, call: result.job })
+}
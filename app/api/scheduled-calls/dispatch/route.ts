@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server'
+import { defaultScheduledCallDeps, dispatchDueCalls } from '@/lib/scheduledCalls'
+import { verifyCron, verifyRole } from '@/lib/adminAuth'
+import { resolveBaseUrl } from '@/lib/utils'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Scheduled-call dispatcher: hit every minute by cron (Bearer CRON_SECRET) or manually (admin secret)
+async function handle(req: NextRequest) {
+  if (!verifyCron(req) && !verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const calls = await dispatchDueCalls(defaultScheduledCallDeps(resolveBaseUrl(req.url)))
+  return Response.json({ ok: true, dispatched: calls.length, calls })
+}
+
+export const GET = handle
+export const POST = handle
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { createScheduledCall, listScheduledCalls, ScheduledCallCreateSchema, type ScheduledCallStatus } from '@/lib/scheduledCalls'
+import { verifyRole } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const STATUSES = ['scheduled', 'dialing', 'dialed', 'failed', 'canceled', 'missed']
+
+// GET: jobs ordered by run time, optionally ?status=
+export async function GET(req: NextRequest) {
+  if (!verifyRole(req, 'viewer')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const status = new URL(req.url).searchParams.get('status') || undefined
+  if (status && !STATUSES.includes(status)) return Response.json({ error: 'Invalid status' }, { status: 400 })
+  return Response.json({ calls: await listScheduledCalls(status as ScheduledCallStatus | undefined) })
+}
+
+// POST: { at, timezone?, profile?, call: <POST /api/calls body> }
+export async function POST(req: NextRequest) {
+  if (!verifyRole(req, 'operator')) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const parsed = ScheduledCallCreateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const result = await createScheduledCall(parsed.data)
+  if (result.error) return Response.json({ error: result.error }, { status: 400 })
+  return Response.json({ ok: true, call: result.job })
+}
@@ -0,0 +1,88 @@
+export const runtime = 'edge'
+import { readLogs, logRetentionMs, type LogEntry, type LogSource } from '@/lib/logs'
+
+const POLL_INTERVAL_MS = 1000
+const PAGE_SIZE = 500
+const DEFAULT_REPLAY_MINUTES = 5
+
+// WebSocket tail of bridge logs.
+// Query: callSid (or streamSid), source (twilio|openai|bridge), event (prefix, e.g. "response."),
+// replay (minutes of history to send on connect, capped by retention),
+// since (epoch ms, inclusive; resume after a reconnect from the last entry's t, overrides replay).
+// History is sent oldest first, a page at a time, until the tail is reached.
+export async function GET(request: Request) {
+  const upgrade = request.headers.get('upgrade')?.toLowerCase()
+  if (upgrade !== 'websocket') {
+    return new Response('Expected WebSocket upgrade', {
+      status: 426,
+      headers: { 'Connection': 'Upgrade', 'Upgrade': 'websocket', 'Content-Type': 'text/plain' }
+    })
+  }
+
+  const url = new URL(request.url)
+  const callSid = url.searchParams.get('callSid') || undefined
+  const event = url.searchParams.get('event') || undefined
+  const sourceParam = url.searchParams.get('source')
+  const source = sourceParam === 'twilio' || sourceParam === 'openai' || sourceParam === 'bridge' ? (sourceParam as LogSource) : undefined
+  const replayParam = parseFloat(url.searchParams.get('replay') || '')
+  const replayMinutes = Number.isFinite(replayParam) && replayParam >= 0 ? replayParam : DEFAULT_REPLAY_MINUTES
+  const replayMs = Math.min(replayMinutes * 60 * 1000, logRetentionMs())
+  const sinceParam = parseInt(url.searchParams.get('since') || '', 10)
+
+  // @ts-ignore - WebSocketPair exists in Edge runtime
+  const pair = new WebSocketPair()
+  const [client, server] = pair
+  const ws = server as unknown as WebSocket
+  // @ts-ignore - accept() exists in Edge runtime
+  ws.accept?.()
+
+  let cursor = Number.isFinite(sinceParam) ? Math.max(sinceParam, Date.now() - logRetentionMs()) : Date.now() - replayMs
+  // Ids already sent at the cursor timestamp (reads are inclusive)
+  let sentAtCursor = new Set<string>()
+  let closed = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const send = (e: LogEntry) => {
+    try { ws.send(JSON.stringify(e)) } catch { stop() }
+  }
+
+  const poll = async () => {
+    if (closed) return
+    // A full page means more history is waiting; fetch it without the poll delay
+    let full = false
+    try {
+      const entries = await readLogs({ since: cursor, source, callSid, event, limit: PAGE_SIZE })
+      full = entries.length === PAGE_SIZE && entries[entries.length - 1].t > cursor
+      for (const e of entries) {
+        if (e.t === cursor && sentAtCursor.has(e.id)) continue
+        if (e.t > cursor) {
+          cursor = e.t
+          sentAtCursor = new Set()
+        }
+        sentAtCursor.add(e.id)
+        send(e)
+      }
+    } catch (err) {
+      console.error('[Logs] Poll failed:', err)
+    }
+    if (!closed) timer = setTimeout(poll, full ? 0 : POLL_INTERVAL_MS)
+  }
+
+  const stop = () => {
+    if (closed) return
+    closed = true
+    if (timer) clearTimeout(timer)
+    try { ws.close(1000, 'Normal closure') } catch {}
+  }
+
+  ws.addEventListener('close', stop)
+  ws.addEventListener('error', stop)
+  poll()
+
+  // @ts-ignore - Edge runtime WebSocket response
+  return new Response(null, {
+    status: 101,
+    // @ts-ignore - webSocket is valid in Edge runtime
+    webSocket: client,
+  } as any)
+}
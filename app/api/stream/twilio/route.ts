@@ -1,6 +1,21 @@
 export const runtime = 'edge'
-import { buildServerUpdate } from '@/lib/realtimeControl'
+import { buildBridgeSessionUpdate, buildServerUpdate, getRealtimeControlSettings, type RealtimeControlSettings } from '@/lib/realtimeControl'
 import { publishTranscript } from '@/lib/live'
+import { liveStreamKey } from '@/lib/liveStore'
+import { getCallRecord, upsertCallRecord } from '@/lib/callRecords'
+import { applyTranscriptEvent, createTranscriptState, finalizeTranscript, orderedTurns, saveTranscript, transcriptStoreKey, type TranscriptTurn } from '@/lib/transcript'
+import { executeToolCall, type ToolCall } from '@/lib/tools'
+import { clearCallMedia, loadCallMedia, toInputImageItem } from '@/lib/media'
+import { publishLog, type LogSource } from '@/lib/logs'
+import { emitWebhookEvent } from '@/lib/outboundWebhooks'
+import { enqueuePostCall, openAIModelClient, resolvePostCallConfig, runPostCallAnalysis } from '@/lib/postCall'
+import { verifyTwilioRequest } from '@/lib/twilioSignature'
+import { redeemCallToken } from '@/lib/callTokens'
+import { applyBargeInEvent, createBargeInState, ulawDurationMs, type BargeInAction } from '@/lib/bargeIn'
+import { callDirection, greetingResponse, resolveGreeting, shouldGreet, waitForAnsweredBy, type Greeting } from '@/lib/greeting'
+import { storeDriver } from '@/lib/store'
+import { resolveBaseUrl } from '@/lib/utils'
+import { defaultRedactionPolicy, mergeRedactionCounts, redactDeep, redactDelta, redactText, resolveRedactionPolicy, type RedactionCounts } from '@/lib/redaction'
 
 // Constants for best practices
 const TWILIO_FRAME_SIZE = 160 // 20ms of 8kHz audio
@@ -326,9 +341,20 @@ export async function GET(request: Request) {
     })
   }
   
-  // Extract secret from URL parameters if provided
+  // Twilio signs the wss:// URL from <Stream> (query string included)
+  const verified = await verifyTwilioRequest(request, {}, { websocket: true })
+  if (!verified.ok) {
+    console.warn('[Bridge] Stream upgrade rejected:', verified.reason)
+    return new Response('Forbidden', { status: 403 })
+  }
+
+  // Redeem the call token from /api/twiml for its pre-minted secret. Unknown, expired
+  // or replayed tokens fall back to minting here, as if no token had been sent.
   const url = new URL(request.url)
-  const providedSecret = url.searchParams.get('secret') || undefined
+  const callToken = url.searchParams.get('token')
+  const callSession = callToken ? await redeemCallToken(callToken).catch(() => null) : null
+  const providedSecret = callSession?.secret
+  if (callToken && !providedSecret) console.warn('[Bridge] Call token not redeemable; minting a new session')
   
   // Create WebSocket pair for Twilio connection
   // @ts-ignore - WebSocketPair exists in Edge runtime
@@ -358,21 +384,199 @@ export async function GET(request: Request) {
     streamSid: '',
     callSid: '',
     vadEnabled: true,
-    lastAssistantItem: null as string | null,
-    responseStartTimestamp: null as number | null,
-    latestMediaTimestamp: null as number | null,
-    closing: false
+    // Playback and barge-in state machine (lib/bargeIn)
+    bargeIn: createBargeInState(),
+    closing: false,
+    // Agent profile settings, loaded when Twilio sends 'start'
+    settings: null as RealtimeControlSettings | null,
+    // Speaker-attributed turns, reset when Twilio sends 'start'
+    transcript: createTranscriptState(),
+    // PII policy from the profile (env defaults until 'start'), and redactions not yet on the call record
+    redaction: defaultRedactionPolicy(),
+    redactions: {} as RedactionCounts,
+    // Settles once cleanup has stored the final transcript
+    finalSave: null as Promise<unknown> | null,
+    // Opening line from the profile, held until session.updated and any pending AMD result
+    greeting: null as Greeting | null,
+    sessionUpdated: false,
+    awaitingAmd: false
   }
   
-  // Logging utility
-  const log = (data: any) => {
+  // Logging utility: console plus the /api/stream/logs fan-out
+  const log = (data: any, source: LogSource = 'bridge') => {
     console.log('[Stream]', JSON.stringify(data))
+    const { event, ...rest } = data
+    redactDeep(rest, state.redaction).then(({ value }) => publishLog({
+      source,
+      event: event || 'log',
+      callSid: state.callSid || undefined,
+      streamSid: state.streamSid || undefined,
+      data: value
+    })).catch(() => {})
+  }
+
+  // Mirror OpenAI server events to the log channel, without audio payloads
+  const logOpenAIEvent = (msg: any) => {
+    if (typeof msg?.type !== 'string') return
+    if (msg.type === 'response.audio.delta' || msg.type === 'response.output_audio.delta') return
+    const { type, ...rest } = msg
+    redactDeep(rest, state.redaction).then(({ value }) => publishLog({
+      source: 'openai',
+      event: type,
+      callSid: state.callSid || undefined,
+      streamSid: state.streamSid || undefined,
+      data: value
+    })).catch(() => {})
   }
   
+  // Redacts text bound for the live stream or transcript store, counting what was found
+  const redact = async (text: string) => {
+    const r = await redactText(text, state.redaction)
+    state.redactions = mergeRedactionCounts(state.redactions, r.counts)
+    return r.text
+  }
+
+  // Moves pending redaction counts onto the call record
+  const flushRedactions = async () => {
+    const counts = state.redactions
+    if (!state.callSid || !Object.keys(counts).length) return
+    state.redactions = {}
+    await upsertCallRecord(state.callSid, { redactions: counts }).catch(() => {})
+  }
+
+  // Function tool calls keyed by call_id so that a call seen in both
+  // response.function_call_arguments.done and response.done runs only once
+  const toolRuns = new Map<string, Promise<void>>()
+  const toolNames = new Map<string, string>()
+
+  const runToolCall = (call: ToolCall): Promise<void> => {
+    const existing = toolRuns.get(call.call_id)
+    if (existing) return existing
+    const run = (async () => {
+      const key = state.callSid || state.streamSid
+      await publishTranscript(key, {
+        t: Date.now(),
+        type: 'tool.call',
+        text: await redact(`${call.name}(${call.arguments || ''})`),
+        name: call.name,
+        call_id: call.call_id
+      }).catch(() => {})
+
+      const result = await executeToolCall(
+        call,
+        { callSid: state.callSid, streamSid: state.streamSid },
+        { tools: state.settings?.tools }
+      )
+      log({ event: 'tool.result', name: call.name, call_id: call.call_id, ok: result.ok, durationMs: result.durationMs })
+      emitWebhookEvent('tool.invoked', {
+        callSid: state.callSid || undefined,
+        streamSid: state.streamSid,
+        name: call.name,
+        call_id: call.call_id,
+        arguments: await redact(call.arguments || ''),
+        ok: result.ok,
+        durationMs: result.durationMs
+      }).catch(() => {})
+
+      await publishTranscript(key, {
+        t: Date.now(),
+        type: 'tool.result',
+        text: await redact(result.output),
+        name: call.name,
+        call_id: call.call_id,
+        ok: result.ok
+      }).catch(() => {})
+
+      const oaiWS = connectionManager.socket
+      if (oaiWS && !state.closing) {
+        oaiWS.send(JSON.stringify({
+          type: 'conversation.item.create',
+          item: {
+            type: 'function_call_output',
+            call_id: call.call_id,
+            output: result.output
+          }
+        }))
+      }
+    })()
+    toolRuns.set(call.call_id, run)
+    return run
+  }
+
+  // Redacted text per finalized turn, re-done only if the turn's text changes
+  const redactedTurns = new Map<string, { source: string; text: string }>()
+  const redactTurn = async (turn: TranscriptTurn): Promise<TranscriptTurn> => {
+    const cached = redactedTurns.get(turn.item_id)
+    if (cached?.source === turn.text) return { ...turn, text: cached.text }
+    const text = await redact(turn.text)
+    redactedTurns.set(turn.item_id, { source: turn.text, text })
+    return { ...turn, text }
+  }
+
+  // Finalized turns go to the live view and the per-call transcript store, redacted
+  const publishTurn = async (turn: TranscriptTurn) => {
+    const key = state.callSid || state.streamSid
+    const safe = await redactTurn(turn)
+    await publishTranscript(key, { t: Date.now(), type: 'turn', text: safe.text, item_id: safe.item_id, role: safe.role, turn: safe }).catch(() => {})
+    if (state.callSid) {
+      // Only finalized turns are stored; open turns have not been redacted as a whole yet
+      const turns = await Promise.all(state.transcript.turns.filter((t) => t.final).map(redactTurn))
+      await saveTranscript(state.callSid, { startedAt: state.transcript.startedAt, turns }).catch(() => {})
+    }
+    await flushRedactions()
+  }
+
+  // Assistant talk time from acknowledged playback
+  const saveTalkTime = async () => {
+    if (!state.callSid) return
+    await upsertCallRecord(state.callSid, { talkTime: { ...state.bargeIn.talk } }).catch(() => {})
+  }
+
+  // transcript.final webhook with the stored (redacted) turns
+  const emitFinalTranscript = async () => {
+    if (!state.callSid) return
+    const turns = await Promise.all(state.transcript.turns.filter((t) => t.final).map(redactTurn))
+    await emitWebhookEvent('transcript.final', { callSid: state.callSid, startedAt: new Date(state.transcript.startedAt).toISOString(), turns: orderedTurns(turns) })
+  }
+
+  // Asks /api/post-call/dispatch to drain the queue now instead of on its next cron run
+  const kickPostCallDispatch = async () => {
+    const secret = process.env.CRON_SECRET || process.env.REALTIME_CONTROL_ADMIN_SECRET
+    if (!secret) return
+    await fetch(`${resolveBaseUrl(request.url)}/api/post-call/dispatch`, { method: 'POST', headers: { Authorization: `Bearer ${secret}` } })
+  }
+
+  // Post-call analysis once the call has ended and its transcript is stored. With kv the call is
+  // queued for the Node dispatcher, since this isolate may not outlive the closed socket; other
+  // drivers are local to the isolate, so the analysis runs here.
+  const runPostCall = () => {
+    const config = resolvePostCallConfig(state.settings?.post_call)
+    if (!config || !state.callSid) return
+    const callSid = state.callSid
+    ;(async () => {
+      await state.finalSave
+      if (storeDriver() === 'kv') {
+        await enqueuePostCall({ callSid, config })
+        log({ event: 'post_call.queued' })
+        await kickPostCallDispatch().catch((e) => console.error('[PostCall] Dispatch kick failed:', e?.message || e))
+        return
+      }
+      const analysis = await runPostCallAnalysis(callSid, config, { model: openAIModelClient() })
+      log({ event: 'post_call.analysis', status: analysis.status, disposition: analysis.disposition, error: analysis.error })
+    })().catch((e) => console.error('[PostCall] Analysis failed:', e?.message || e))
+  }
+
   // Clean shutdown handler
   const cleanup = () => {
     if (state.closing) return
     state.closing = true
+    state.finalSave = Promise.all(finalizeTranscript(state.transcript).map((turn) => publishTurn(turn).catch(() => {})))
+      .then(() => flushRedactions())
+      .then(() => saveTalkTime())
+      .then(() => emitFinalTranscript())
+      .catch(() => {})
+    // Every way a call ends passes through here once (stop, socket close, errors)
+    runPostCall()
     
     audioBuffer.clear()
     connectionManager.disconnect()
@@ -381,39 +585,92 @@ export async function GET(request: Request) {
     try { clientWS.close(1000, 'Normal closure') } catch {}
   }
   
+  // Speaks the profile's greeting once the session and AMD are both settled
+  const maybeGreet = () => {
+    const oaiWS = connectionManager.socket
+    if (!state.greeting || !state.sessionUpdated || state.awaitingAmd || !oaiWS || state.closing) return
+    const greeting = state.greeting
+    state.greeting = null
+    oaiWS.send(JSON.stringify(greetingResponse(greeting)))
+    log({ event: 'greeting', type: greeting.type })
+  }
+
+  // Async AMD reports to /api/twilio/status; wait for answeredBy on the call record
+  const waitForAmd = async () => {
+    const answeredBy = await waitForAnsweredBy({
+      lookup: async () => (await getCallRecord(state.callSid))?.answeredBy,
+      stopped: () => state.closing,
+    })
+    log({ event: 'amd.result', answeredBy: answeredBy || 'timeout' })
+    if (!shouldGreet(answeredBy)) state.greeting = null
+    state.awaitingAmd = false
+    maybeGreet()
+  }
+
+  // Carries out what the playback state machine decided (audio chunks are sent where they arrive)
+  const runBargeInActions = (actions: BargeInAction[]) => {
+    const oaiWS = connectionManager.socket
+    for (const action of actions) {
+      if (action.type === 'finished') {
+        log({ event: 'assistant.finished_speaking', itemId: action.itemId, playedMs: action.playedMs })
+      } else if (action.type === 'cancel') {
+        oaiWS?.send(JSON.stringify({ type: 'response.cancel' }))
+      } else if (action.type === 'clear') {
+        audioBuffer.clear()
+        twilioWS.send(JSON.stringify({ event: 'clear', streamSid: state.streamSid }))
+      } else if (action.type === 'truncate') {
+        oaiWS?.send(JSON.stringify({
+          type: 'conversation.item.truncate',
+          item_id: action.itemId,
+          content_index: 0,
+          audio_end_ms: action.audioEndMs
+        }))
+      }
+    }
+    const interruption = actions.filter((a) => a.type === 'cancel' || a.type === 'clear' || a.type === 'truncate')
+    if (interruption.length > 0) log({ event: 'barge_in', actions: interruption.map((a) => a.type), audioEndMs: state.bargeIn.playedMs })
+  }
+
   // Handle OpenAI Realtime messages
   const handleOpenAIMessage = async (msg: any) => {
+    const update = applyTranscriptEvent(state.transcript, msg)
+    if (update?.finalized) await publishTurn(update.turn)
+
     switch (msg.type) {
       case 'session.created':
         console.log('Session created:', msg.session?.id)
         
-        // Now send the session.update with our configuration
-        const sessionUpdate = buildServerUpdate()
-        if (sessionUpdate && typeof sessionUpdate === 'object' && (sessionUpdate as any).session) {
-          // Override for G.711 μ-law passthrough mode
-          (sessionUpdate as any).session = {
-            ...(sessionUpdate as any).session,
-            input_audio_format: 'g711_ulaw',
-            output_audio_format: 'g711_ulaw',
-          }
-        }
+        // Now send the session.update with our configuration, keeping the minted instructions
+        const sessionUpdate = buildBridgeSessionUpdate(state.settings, { instructions: callSession?.instructions })
         
         console.log('Sending session.update:', JSON.stringify(sessionUpdate, null, 2))
         const oaiWS = connectionManager.socket
         if (oaiWS) {
           oaiWS.send(JSON.stringify(sessionUpdate))
         }
+
+        // Images uploaded with the call become user context items
+        if (state.callSid) {
+          const media = await loadCallMedia(state.callSid).catch(() => [])
+          if (media.length > 0 && connectionManager.socket && !state.closing) {
+            for (const m of media) {
+              connectionManager.socket.send(JSON.stringify({ type: 'conversation.item.create', item: toInputImageItem(m) }))
+            }
+            log({ event: 'media.injected', callSid: state.callSid, count: media.length })
+            clearCallMedia(state.callSid).catch(() => {})
+          }
+        }
         break
         
+      case 'response.created':
+        runBargeInActions(applyBargeInEvent(state.bargeIn, { type: 'response.created' }))
+        break
+
       case 'response.audio.delta':
-        // G.711 μ-law audio passthrough
+        // G.711 μ-law audio passthrough; dropped once the caller has interrupted the item
         if (msg.delta) {
-          if (state.responseStartTimestamp === null && state.latestMediaTimestamp !== null) {
-            state.responseStartTimestamp = state.latestMediaTimestamp
-          }
-          if (msg.item_id) {
-            state.lastAssistantItem = msg.item_id
-          }
+          const play = applyBargeInEvent(state.bargeIn, { type: 'audio', itemId: msg.item_id || '', ms: ulawDurationMs(msg.delta) })[0]
+          if (play?.type !== 'play') break
           
           // Send audio directly to Twilio
           const mediaMsg = {
@@ -423,53 +680,75 @@ export async function GET(request: Request) {
           }
           twilioWS.send(JSON.stringify(mediaMsg))
           
-          // Send mark for synchronization
+          // Twilio echoes the mark once this chunk has played
           twilioWS.send(JSON.stringify({
             event: 'mark',
-            streamSid: state.streamSid
+            streamSid: state.streamSid,
+            mark: { name: play.mark }
           }))
         }
         break
         
       case 'response.audio_transcript.delta':
       case 'response.text.delta':
-        // Publish transcripts for live view
+      case 'conversation.item.input_audio_transcription.delta':
+        // Publish partial text for the live view; the finalized turn replaces it
         if (msg.delta) {
           const key = state.callSid || state.streamSid
           await publishTranscript(key, {
             t: Date.now(),
-            type: msg.type.includes('audio') ? 'audio_transcript.delta' : 'text.delta',
-            text: msg.delta
+            type: msg.type === 'response.text.delta' ? 'text.delta' : 'audio_transcript.delta',
+            text: await redactDelta(msg.delta, state.redaction),
+            item_id: msg.item_id,
+            role: msg.type.startsWith('conversation.') ? 'user' : 'assistant'
           }).catch(() => {})
         }
         break
         
-      case 'input_audio_buffer.speech_started':
-        // Handle barge-in: clear playback and truncate assistant response
-        audioBuffer.clear()
-        twilioWS.send(JSON.stringify({
-          event: 'clear',
-          streamSid: state.streamSid
-        }))
-        
-        // Truncate assistant audio if speaking
-        if (state.lastAssistantItem && state.responseStartTimestamp !== null && state.latestMediaTimestamp !== null) {
-          const audioEndMs = Math.max(0, state.latestMediaTimestamp - state.responseStartTimestamp)
-          const oaiWS = connectionManager.socket
-          if (oaiWS) {
-            oaiWS.send(JSON.stringify({
-              type: 'conversation.item.truncate',
-              item_id: state.lastAssistantItem,
-              content_index: 0,
-              audio_end_ms: audioEndMs
-            }))
-          }
+      case 'response.output_item.added':
+        // Remember function names; older snapshots omit name on the arguments event
+        if (msg.item?.type === 'function_call' && msg.item.call_id && msg.item.name) {
+          toolNames.set(msg.item.call_id, msg.item.name)
         }
-        
-        state.lastAssistantItem = null
-        state.responseStartTimestamp = null
+        break
+
+      case 'response.function_call_arguments.done': {
+        const name = msg.name || toolNames.get(msg.call_id)
+        if (msg.call_id && name) {
+          runToolCall({ name, call_id: msg.call_id, arguments: msg.arguments })
+        }
+        break
+      }
+
+      case 'response.done': {
+        runBargeInActions(applyBargeInEvent(state.bargeIn, { type: 'response.done' }))
+        // Results are only fed back once the response that requested them is
+        // complete, then a single response.create lets the model continue
+        const calls = (msg.response?.output || []).filter((item: any) => item?.type === 'function_call' && item.call_id && item.name)
+        // Not awaited: tools can take seconds, and later events must not queue behind them
+        if (calls.length > 0) {
+          Promise.all(calls.map((item: any) => runToolCall({ name: item.name, call_id: item.call_id, arguments: item.arguments })))
+            .then(() => {
+              const oaiWS = connectionManager.socket
+              if (oaiWS && !state.closing) {
+                oaiWS.send(JSON.stringify({ type: 'response.create' }))
+              }
+            })
+            .catch(console.error)
+        }
+        break
+      }
+
+      case 'input_audio_buffer.speech_started':
+        // Barge-in: only acts while the assistant is responding or still being heard
+        runBargeInActions(applyBargeInEvent(state.bargeIn, { type: 'speech_started' }))
         break
         
+      case 'session.updated':
+        state.sessionUpdated = true
+        maybeGreet()
+        break
+
       case 'error':
         console.error('[OpenAI] Error:', msg.error)
         break
@@ -489,8 +768,29 @@ export async function GET(request: Request) {
         case 'start':
           state.streamSid = data.start.streamSid
           state.callSid = data.start.callSid || ''
-          log({ event: 'start', streamSid: state.streamSid, callSid: state.callSid })
+          log({ event: 'start', streamSid: state.streamSid, callSid: state.callSid }, 'twilio')
+          state.transcript = createTranscriptState()
+          if (state.callSid) {
+            upsertCallRecord(state.callSid, { transcriptKey: liveStreamKey(state.callSid) })
+              .then(() => upsertCallRecord(state.callSid, { transcriptKey: transcriptStoreKey(state.callSid) }))
+              .catch(() => {})
+          }
           
+          // Profile chosen by /api/twiml (falls back to the active profile)
+          state.settings = await getRealtimeControlSettings(data.start.customParameters?.profile).catch(() => null)
+          state.redaction = resolveRedactionPolicy(state.settings?.redaction)
+          state.greeting = resolveGreeting(state.settings?.greeting, callDirection(data.start.customParameters?.direction))
+          if (state.greeting && state.callSid && data.start.customParameters?.amd === 'pending') {
+            // The result only reaches this Edge isolate through a shared (kv) store. lib/dialer only
+            // asks for async AMD with kv, so this covers calls placed by other tools.
+            if (storeDriver() === 'kv') {
+              state.awaitingAmd = true
+              waitForAmd().catch(() => {})
+            } else {
+              log({ event: 'amd.skipped', reason: `store driver ${storeDriver()} is not shared` })
+            }
+          }
+
           // Initialize OpenAI connection
           const model = process.env.REALTIME_DEFAULT_MODEL || 'gpt-4o-realtime-preview'
           const instructions = process.env.REALTIME_DEFAULT_INSTRUCTIONS
@@ -505,11 +805,15 @@ export async function GET(request: Request) {
               providedSecret
             )
             
-            // Set up OpenAI message handler
+            // Set up OpenAI message handler. Events are handled one at a time in arrival order, so a
+            // handler that awaits (publishing a turn, loading media) cannot interleave with the next
+            // event's updates to the transcript and playback state.
+            let openAIQueue: Promise<void> = Promise.resolve()
             oaiWS.addEventListener('message', (ev) => {
               try {
                 const msg = JSON.parse(ev.data as string)
-                handleOpenAIMessage(msg).catch(console.error)
+                logOpenAIEvent(msg)
+                openAIQueue = openAIQueue.then(() => handleOpenAIMessage(msg)).catch(console.error)
               } catch {}
             })
             
@@ -519,7 +823,7 @@ export async function GET(request: Request) {
             })
             
             // Check VAD configuration
-            const sessionConfig = buildServerUpdate()
+            const sessionConfig = buildServerUpdate(state.settings)
             state.vadEnabled = (sessionConfig as any)?.session?.turn_detection?.type !== 'none'
             
             // Clear buffer for manual turn if VAD disabled
@@ -535,13 +839,8 @@ export async function GET(request: Request) {
         case 'media':
           // Forward μ-law audio to OpenAI
           if (data.media?.payload) {
-            state.latestMediaTimestamp = data.media.timestamp ?? state.latestMediaTimestamp
-            
             const oaiWS = connectionManager.socket
             if (oaiWS && connectionManager.isReady) {
-              // Cancel any in-progress response for barge-in
-              oaiWS.send(JSON.stringify({ type: 'response.cancel' }))
-              
               // Send audio in G.711 μ-law format
               oaiWS.send(JSON.stringify({
                 type: 'input_audio_buffer.append',
@@ -552,19 +851,21 @@ export async function GET(request: Request) {
           break
           
         case 'mark':
-          // Handle custom marks for turn management
+          // Custom marks for turn management; any other name acknowledges assistant playback
           if (data.mark?.name === 'commit') {
             const oaiWS = connectionManager.socket
             if (oaiWS && connectionManager.isReady) {
               oaiWS.send(JSON.stringify({ type: 'input_audio_buffer.commit' }))
               oaiWS.send(JSON.stringify({ type: 'response.create' }))
             }
-            log({ event: 'mark.commit', streamSid: state.streamSid })
+            log({ event: 'mark.commit', streamSid: state.streamSid }, 'twilio')
+          } else if (data.mark?.name) {
+            runBargeInActions(applyBargeInEvent(state.bargeIn, { type: 'mark', name: data.mark.name }))
           }
           break
           
         case 'stop':
-          log({ event: 'stop', streamSid: state.streamSid })
+          log({ event: 'stop', streamSid: state.streamSid }, 'twilio')
           cleanup()
           break
       }
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { getCallRecord, patchFromStatusCallback, upsertCallRecord } from '@/lib/callRecords'
+import { callEventData, callLifecycleEvents, emitWebhookEvent } from '@/lib/outboundWebhooks'
+import { recordCallMinutes } from '@/lib/rateLimit'
+import { readTwilioParams, verifyTwilioRequest } from '@/lib/twilioSignature'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Call and recording status callbacks (form-encoded POST)
+export async function POST(req: NextRequest) {
+  const params = await readTwilioParams(req)
+  const verified = await verifyTwilioRequest(req, params)
+  if (!verified.ok) return new Response(verified.reason, { status: 403 })
+
+  const parsed = patchFromStatusCallback(params)
+  if (!parsed) return new Response('Missing CallSid', { status: 400 })
+  let before, after
+  try {
+    before = await getCallRecord(parsed.sid)
+    after = await upsertCallRecord(parsed.sid, parsed.patch)
+  } catch (e: any) {
+    console.error('Status callback store error', e?.message || e)
+    // 5xx makes Twilio retry the callback
+    return new Response('Store error', { status: 503 })
+  }
+  // Subscriber failures are retried by the webhook dispatcher, never by Twilio
+  for (const type of callLifecycleEvents(before, after)) {
+    if (type === 'call.ended' && after.durationSeconds) {
+      await recordCallMinutes(after.durationSeconds).catch((e) => console.error('Call minutes not recorded', e?.message || e))
+    }
+    await emitWebhookEvent(type, callEventData(after)).catch((e) => console.error('Webhook emit failed', e?.message || e))
+  }
+  return new Response(null, { status: 204 })
+}
@@ -6,25 +6,25 @@ export const runtime = 'nodejs'
 
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json().catch(() => ({})) as { secret?: string; phoneNumber?: string; scheme?: string; transport?: string; port?: string; mode?: string }
-    const secret = body.secret
+    const body = await req.json().catch(() => ({})) as { phoneNumber?: string; mode?: string }
     const client = getTwilioClient()
     const base = resolveBaseUrl(req.url)
     const phone = body.phoneNumber || getTwilioFromNumber()
     if (!phone) return Response.json({ error: 'Server TWILIO_FROM_NUMBER not configured and no phoneNumber provided' }, { status: 400 })
-    const extra: string[] = []
-    if (body.mode) extra.push(`mode=${encodeURIComponent(body.mode)}`)
-    if (body.scheme) extra.push(`scheme=${encodeURIComponent(body.scheme)}`)
-    if (body.transport) extra.push(`transport=${encodeURIComponent(body.transport)}`)
-    if (body.port) extra.push(`port=${encodeURIComponent(body.port)}`)
-    const query = secret ? `secret=${encodeURIComponent(secret)}` : ''
-    const qs = [query, ...extra].filter(Boolean).join('&')
+    // The voice URL is permanent, so it carries no secret or call token: /api/twiml mints a session per call
+    const qs = body.mode ? `mode=${encodeURIComponent(body.mode)}` : ''
     const twimlUrl = `${base}/api/twiml${qs ? `?${qs}` : ''}`
 
     const nums = await client.incomingPhoneNumbers.list({ phoneNumber: phone, limit: 20 })
     if (!nums || nums.length === 0) return Response.json({ error: `Twilio number not found: ${phone}` }, { status: 404 })
     const target = nums[0]
-    const updated = await client.incomingPhoneNumbers(target.sid).update({ voiceUrl: twimlUrl, voiceMethod: 'GET' })
+    const updated = await client.incomingPhoneNumbers(target.sid).update({
+      voiceUrl: twimlUrl,
+      voiceMethod: 'GET',
+      // Inbound call lifecycle feeds our call records
+      statusCallback: process.env.TWILIO_STATUS_CALLBACK_URL || `${base}/api/twilio/status`,
+      statusCallbackMethod: 'POST',
+    })
 
     return Response.json({ ok: true, sid: updated.sid, phoneNumber: updated.phoneNumber, voiceUrl: updated.voiceUrl })
   } catch (e: any) {
@@ -1,59 +1,114 @@
 import { NextRequest } from 'next/server'
-import twilio from 'twilio'
 import { createEphemeralClientSecret } from '@/lib/openai'
 import { getRealtimeControlSettings } from '@/lib/realtimeControl'
+import { getActiveProfileName, ProfileNameSchema } from '@/lib/profiles'
+import { toRealtimeTools } from '@/lib/httpTools'
+import { getRoutingTable, matchRoute, type RouteFallback } from '@/lib/routing'
+import { upsertCallRecord } from '@/lib/callRecords'
+import { resolveBaseUrl } from '@/lib/utils'
+import { evaluateBusinessHours, getBusinessHours, type ClosedAction } from '@/lib/businessHours'
+import { escapeXml, forwardTwiml, sayTwiml, voicemailTwiml, xmlResponse } from '@/lib/twimlResponses'
+import { checkRateLimits, reserveSession } from '@/lib/rateLimit'
+import { readTwilioParams, verifyTwilioRequest } from '@/lib/twilioSignature'
+import { isCallToken, issueCallToken } from '@/lib/callTokens'
+import { callDirection } from '@/lib/greeting'
+import { parseTwimlMode, type TwimlMode } from '@/lib/config'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
-// Helper to escape XML special characters
-const escapeXml = (str: string): string => {
-  return str.replace(/[<>&"']/g, (c) => {
-    const chars: Record<string, string> = { 
-      '<': '&lt;', 
-      '>': '&gt;', 
-      '&': '&amp;', 
-      '"': '&quot;', 
-      "'": '&apos;' 
-    }
-    return chars[c] || c
-  })
+function renderFallback(fallback: RouteFallback | Exclude<ClosedAction, { type: 'profile' }>, baseUrl: string) {
+  if (fallback.type === 'forward') return xmlResponse(forwardTwiml(fallback))
+  if (fallback.type === 'say') return xmlResponse(sayTwiml(fallback.message))
+  // Voicemail recordings land on the call record
+  return xmlResponse(voicemailTwiml({ ...fallback, recordingStatusCallback: `${baseUrl}/api/twilio/status` }))
 }
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url)
-  let secret = searchParams.get('secret') || ''
-  const sipDomain = 'sip.openai.com'
-  
-  // Validate and sanitize scheme parameter
-  const schemeParam = searchParams.get('scheme')?.toLowerCase()
-  const scheme = (schemeParam === 'sips' || schemeParam === 'sip') ? schemeParam : 'sips'
-  
-  // Validate and sanitize transport parameter  
-  const transportParam = searchParams.get('transport')?.toLowerCase()
-  const transport = (transportParam === 'tls' || transportParam === 'tcp' || transportParam === 'udp') ? transportParam : 'tls'
-  
-  // Validate port parameter (must be valid port number)
-  const portParam = searchParams.get('port')
-  const portNum = portParam ? parseInt(portParam, 10) : 0
-  const port = (portNum >= 1 && portNum <= 65535) ? portNum.toString() : ''
-  
-  // Validate mode parameter
-  const modeParam = searchParams.get('mode')?.toLowerCase()
-  const defaultMode = process.env.TWIML_DEFAULT_MODE?.toLowerCase()
-  const mode = (modeParam === 'stream' || modeParam === 'sip' || modeParam === 'simple') ? modeParam : 
-               (defaultMode === 'stream' || defaultMode === 'sip' || defaultMode === 'simple') ? defaultMode : 'sip'
-  // If no secret is provided, mint one on the fly (automatic flow)
-  if (!secret) {
+  const twilioParams = await readTwilioParams(req)
+  // Before anything is stored or minted
+  const verified = await verifyTwilioRequest(req, twilioParams)
+  if (!verified.ok) {
+    console.warn('TwiML request rejected:', verified.reason)
+    return xmlResponse('<Response><Say>Forbidden</Say></Response>', 403)
+  }
+  // Outbound calls carry an opaque call token; a raw client secret is never read from the URL
+  const tokenParam = searchParams.get('token')
+  let callToken = isCallToken(tokenParam) ? tokenParam : ''
+  let secret = ''
+  const preMinted = !!callToken
+  // Validate mode parameter; TWIML_DEFAULT_MODE is checked at startup (lib/config configErrors)
+  const modeParam = searchParams.get('mode')
+  if (modeParam && !parseTwimlMode(modeParam)) console.warn(`TwiML mode ${modeParam} is not supported; using the default mode`)
+  let mode: TwimlMode = parseTwimlMode(modeParam) || parseTwimlMode(process.env.TWIML_DEFAULT_MODE) || 'stream'
+
+  // Inbound business hours and routing table: only for calls without a pre-minted session (outbound calls carry a token)
+  // Outbound calls placed by lib/dialer name their agent profile in the query
+  const profileParam = searchParams.get('profile')
+  let routedProfile: string | null = preMinted && profileParam && ProfileNameSchema.safeParse(profileParam).success ? profileParam : null
+  let closed = false
+  const callSid = twilioParams.CallSid || searchParams.get('CallSid')
+  if (!preMinted && callSid) {
+    await upsertCallRecord(callSid, {
+      direction: twilioParams.Direction || searchParams.get('Direction') || 'inbound',
+      from: twilioParams.From || searchParams.get('From') || undefined,
+      to: twilioParams.To || searchParams.get('To') || undefined,
+    }).catch((e) => console.error('Failed to create call record', e?.message || e))
+  }
+  if (!preMinted) {
+    const hours = await getBusinessHours().catch(() => null)
+    const status = hours ? evaluateBusinessHours(hours, new Date()) : null
+    if (hours && status && !status.open) {
+      console.log('TwiML outside business hours:', status.localDate, status.localTime, status.holiday || '')
+      if (hours.closed.type !== 'profile') return renderFallback(hours.closed, resolveBaseUrl(req.url))
+      routedProfile = hours.closed.profile
+      closed = true
+    }
+  }
+  if (!preMinted && !closed) {
+    const rule = matchRoute(await getRoutingTable().catch(() => null), {
+      to: twilioParams.To || searchParams.get('To'),
+      from: twilioParams.From || searchParams.get('From'),
+      now: new Date(),
+    })
+    if (rule) {
+      console.log('TwiML routing rule matched:', rule.id)
+      if (rule.action.fallback) return renderFallback(rule.action.fallback, resolveBaseUrl(req.url))
+      // Rules saved before SIP mode was removed may still say sip; those keep the default mode
+      mode = parseTwimlMode(rule.action.mode) || mode
+      if (rule.action.profile) routedProfile = rule.action.profile
+    }
+  }
+
+  // Agent profile (routed or active); the stream bridge receives its name so both use the same settings
+  let profileName = routedProfile || await getActiveProfileName().catch(() => null)
+  let customSettings = await getRealtimeControlSettings(profileName).catch(() => null)
+  if (routedProfile && !customSettings) {
+    console.warn(`Routed profile ${routedProfile} not found; using the active profile`)
+    profileName = await getActiveProfileName().catch(() => null)
+    customSettings = await getRealtimeControlSettings(profileName).catch(() => null)
+  }
+  if (callSid && profileName) {
+    await upsertCallRecord(callSid, { profile: profileName }).catch(() => {})
+  }
+  // If no session was pre-minted, mint one on the fly (automatic flow)
+  if (!preMinted) {
     try {
       const openaiKey = process.env.OPENAI_API_KEY
       if (!openaiKey) {
         return new Response('<Response><Say>Server not configured.</Say></Response>', { status: 500, headers: { 'Content-Type': 'text/xml' } })
       }
-      // Get custom settings from UI if available
-      const customSettings = getRealtimeControlSettings()
-      
+      // Inbound floods are throttled per caller number; daily caps apply too
+      try {
+        await checkRateLimits({ number: twilioParams.From || searchParams.get('From') })
+        await reserveSession()
+      } catch (e: any) {
+        if (e?.status !== 429) throw e
+        console.warn('TwiML auto-mint refused:', e.message)
+        return xmlResponse(sayTwiml('We are unable to take your call right now. Please try again later.'))
+      }
       // Use custom settings if available, otherwise fall back to env/query params
       const model = (searchParams.get('model') || process.env.REALTIME_DEFAULT_MODEL || 'gpt-realtime')
       const promptId = searchParams.get('prompt_id') || undefined
@@ -74,7 +129,7 @@ export async function GET(req: NextRequest) {
           model,
           // Apply custom settings if available
           ...(customSettings?.voice && { voice: customSettings.voice }),
-          ...(customSettings?.tools && { tools: customSettings.tools }),
+          ...(customSettings?.tools && { tools: toRealtimeTools(customSettings.tools) }),
           ...(customSettings?.tool_choice && { tool_choice: customSettings.tool_choice }),
           ...(customSettings?.input_audio_transcription && { input_audio_transcription: customSettings.input_audio_transcription }),
         }
@@ -91,35 +146,6 @@ export async function GET(req: NextRequest) {
       return new Response('<Response><Say>Error creating session.</Say></Response>', { status: 502, headers: { 'Content-Type': 'text/xml' } })
     }
   }
-  // Optional: verify Twilio signature in production
-  const authToken = process.env.TWILIO_AUTH_TOKEN
-  const signature = req.headers.get('x-twilio-signature') || undefined
-  if (authToken && signature) {
-    let params: Record<string, string> = {}
-    // For GET validation, pass an empty params object and include the full URL with query
-    // For POST validation, pass the form-encoded params
-    if (req.method === 'POST') {
-      const contentType = req.headers.get('content-type') || ''
-      if (contentType.includes('application/x-www-form-urlencoded')) {
-        const raw = await req.text()
-        const usp = new URLSearchParams(raw)
-        usp.forEach((v, k) => { params[k] = v })
-      } else if (contentType.includes('multipart/form-data')) {
-        // Best-effort: NextRequest.formData() may be used, but Twilio signatures exclude file contents
-        const fd = await req.formData()
-        for (const [k, v] of fd.entries()) {
-          if (typeof v === 'string') params[k] = v
-        }
-      } else {
-        params = {}
-      }
-    }
-    const valid = twilio.validateRequest(authToken, signature, req.url, params)
-    if (!valid) {
-      return new Response('<Response><Say>Forbidden</Say></Response>', { status: 403, headers: { 'Content-Type': 'text/xml' } })
-    }
-  }
-  
   // Simple mode - just play a message for now
   if (mode === 'simple') {
     const xml = `<?xml version="1.0" encoding="UTF-8"?>
@@ -129,61 +155,60 @@ export async function GET(req: NextRequest) {
     return new Response(xml, { headers: { 'Content-Type': 'text/xml' } })
   }
   
-  if (mode === 'stream') {
-    // Use external WebSocket URL if configured (e.g., Railway deployment)
-    let streamUrl: string
-    // Include user-provided session overrides to pass into the WebSocket server
-    const settings = getRealtimeControlSettings()
-    const sessionOverrides: Record<string, any> = {}
-    if (settings?.instructions) sessionOverrides.instructions = settings.instructions
-    if (typeof settings?.temperature === 'number') sessionOverrides.temperature = settings.temperature
-    if (typeof settings?.max_response_output_tokens === 'number') sessionOverrides.max_response_output_tokens = settings.max_response_output_tokens
-    if (settings?.tools) sessionOverrides.tools = settings.tools
-    if (settings?.tool_choice) sessionOverrides.tool_choice = settings.tool_choice
-    if (settings?.input_audio_transcription) sessionOverrides.input_audio_transcription = settings.input_audio_transcription
-    if (settings?.input_audio_format) sessionOverrides.input_audio_format = settings.input_audio_format
-    if (settings?.output_audio_format) sessionOverrides.output_audio_format = settings.output_audio_format
-    // Voice is included so the WS server can apply it to response.create (not session.update)
-    if (settings?.voice) (sessionOverrides as any).voice = settings.voice
-    const sessionB64 = Buffer.from(JSON.stringify(sessionOverrides)).toString('base64')
-    if (process.env.TWILIO_WEBSOCKET_URL) {
-      // External WebSocket server (Railway, Render, etc.)
-      // Compatibility:
-      // - If TWILIO_WEBSOCKET_URL contains a {SECRET} placeholder, replace it
-      // - If it points to the Fastify route (/media-stream), do not append the secret
-      // - Otherwise, append the secret for legacy servers that expect it in the path
-      const wsBase = process.env.TWILIO_WEBSOCKET_URL.replace(/\/$/, '')
-      if (wsBase.includes('{SECRET}')) {
-        streamUrl = wsBase.replace('{SECRET}', encodeURIComponent(secret))
-      } else if (/\/media-stream$/i.test(wsBase)) {
-        streamUrl = wsBase
-      } else {
-        streamUrl = `${wsBase}/${encodeURIComponent(secret)}`
-      }
+  // Use external WebSocket URL if configured (e.g., Railway deployment)
+  let streamUrl: string
+  // Include user-provided session overrides to pass into the WebSocket server
+  const settings = customSettings
+  const sessionOverrides: Record<string, any> = {}
+  if (settings?.instructions) sessionOverrides.instructions = settings.instructions
+  if (typeof settings?.temperature === 'number') sessionOverrides.temperature = settings.temperature
+  if (typeof settings?.max_response_output_tokens === 'number') sessionOverrides.max_response_output_tokens = settings.max_response_output_tokens
+  if (settings?.tools) sessionOverrides.tools = toRealtimeTools(settings.tools)
+  if (settings?.tool_choice) sessionOverrides.tool_choice = settings.tool_choice
+  if (settings?.input_audio_transcription) sessionOverrides.input_audio_transcription = settings.input_audio_transcription
+  if (settings?.input_audio_format) sessionOverrides.input_audio_format = settings.input_audio_format
+  if (settings?.output_audio_format) sessionOverrides.output_audio_format = settings.output_audio_format
+  // Voice is included so the WS server can apply it to response.create (not session.update)
+  if (settings?.voice) (sessionOverrides as any).voice = settings.voice
+  const sessionB64 = Buffer.from(JSON.stringify(sessionOverrides)).toString('base64')
+  // The bridge picks the profile's inbound or outbound greeting, held for async AMD when pending
+  const direction = callDirection(twilioParams.Direction || searchParams.get('Direction') || (preMinted ? 'outbound-api' : 'inbound'))
+  const amdPending = direction === 'outbound' && searchParams.get('amd') === 'async' && !(twilioParams.AnsweredBy || searchParams.get('AnsweredBy'))
+  const streamParams = [
+    ['session', sessionB64],
+    ...(profileName ? [['profile', profileName]] : []),
+    ['direction', direction],
+    ...(amdPending ? [['amd', 'pending']] : []),
+  ].map(([name, value]) => `      <Parameter name=\"${name}\" value=\"${escapeXml(value)}\"/>\n`).join('')
+  if (process.env.TWILIO_WEBSOCKET_URL) {
+    // External WebSocket server (Railway, Render, etc.)
+    // - {TOKEN} placeholder: replaced with a call token, which the server redeems via /api/call-tokens/redeem
+    // - Fastify route (/media-stream): uses its own API key, nothing is appended
+    // - Otherwise the call token is appended to the path (twilio-websocket-server/server.js)
+    // The secret itself is never put in the URL, so the legacy {SECRET} placeholder is refused
+    const wsBase = process.env.TWILIO_WEBSOCKET_URL.replace(/\/$/, '')
+    if (wsBase.includes('{SECRET}')) {
+      console.error('TWILIO_WEBSOCKET_URL uses {SECRET}; use {TOKEN} and redeem it on the stream server')
+      return xmlResponse(sayTwiml('This number is not configured correctly.'), 500)
+    }
+    if (/\/media-stream$/i.test(wsBase)) {
+      streamUrl = wsBase
     } else {
-      // Fallback to local WebSocket (won't work on Vercel)
-      const u = new URL(req.url)
-      const base = (process.env.PUBLIC_BASE_URL || `${u.protocol}//${u.host}`).replace(/\/$/, '')
-      const wsBase = base.replace(/^http:/, 'ws:').replace(/^https:/, 'wss:')
-      streamUrl = `${wsBase}/api/stream/twilio?secret=${encodeURIComponent(secret)}`
+      if (!callToken) callToken = await issueCallToken(secret)
+      streamUrl = wsBase.includes('{TOKEN}') ? wsBase.replace('{TOKEN}', callToken) : `${wsBase}/${callToken}`
     }
-    const statusCb = process.env.TWILIO_STREAM_STATUS_CALLBACK_URL
-    const statusAttr = statusCb ? ` statusCallback=\"${escapeXml(statusCb)}\" statusCallbackMethod=\"${process.env.TWILIO_STREAM_STATUS_CALLBACK_METHOD || 'POST'}\" statusCallbackEvent=\"start media mark stop\"` : ''
-    const xml = `<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n<Response>\n  <Start>\n    <Stream url=\"${escapeXml(streamUrl)}\"${statusAttr}>\n      <Parameter name=\"session\" value=\"${escapeXml(sessionB64)}\"/>\n    </Stream>\n  </Start>\n  <Pause length=\"60\"/>\n</Response>`
-    return new Response(xml, { headers: { 'Content-Type': 'text/xml' } })
-  }
-
-  // Compose target URI with proper escaping
-  // OpenAI requires sip: with transport=tls, not sips:
-  let sipUri: string
-  if (transport === 'tls') {
-    // Use sip: with transport=tls for OpenAI (port 5061 is default for TLS)
-    sipUri = `sip:${secret}@${sipDomain}${port ? `:${port}` : ':5061'};transport=tls`
   } else {
-    // Non-TLS transport
-    sipUri = `sip:${secret}@${sipDomain}${port ? `:${port}` : ''};transport=${transport}`
+    // Fallback to local WebSocket (won't work on Vercel)
+    const u = new URL(req.url)
+    const base = (process.env.PUBLIC_BASE_URL || `${u.protocol}//${u.host}`).replace(/\/$/, '')
+    const wsBase = base.replace(/^http:/, 'ws:').replace(/^https:/, 'wss:')
+    // The bridge redeems the token; the secret never appears in the Stream URL
+    if (!callToken) callToken = await issueCallToken(secret)
+    streamUrl = `${wsBase}/api/stream/twilio?token=${callToken}`
   }
-  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n  <Dial>\n    <Sip>${escapeXml(sipUri)}</Sip>\n  </Dial>\n</Response>`
+  const statusCb = process.env.TWILIO_STREAM_STATUS_CALLBACK_URL
+  const statusAttr = statusCb ? ` statusCallback=\"${escapeXml(statusCb)}\" statusCallbackMethod=\"${process.env.TWILIO_STREAM_STATUS_CALLBACK_METHOD || 'POST'}\" statusCallbackEvent=\"start media mark stop\"` : ''
+  const xml = `<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n<Response>\n  <Start>\n    <Stream url=\"${escapeXml(streamUrl)}\"${statusAttr}>\n${streamParams}    </Stream>\n  </Start>\n  <Pause length=\"60\"/>\n</Response>`
   return new Response(xml, { headers: { 'Content-Type': 'text/xml' } })
 }
 
@@ -0,0 +1,15 @@
+import { getUsage } from '@/lib/rateLimit'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Today's minted sessions and call minutes against the daily caps (dashboard gauge),
+// with the counter driver and a warning when counters are per-process
+export async function GET() {
+  try {
+    return Response.json(await getUsage())
+  } catch (e: any) {
+    console.error('GET /api/usage error', e?.message || e)
+    return Response.json({ error: e?.message || 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server'
+import { deleteSubscription, getSubscription, publicSubscription, updateSubscription, WebhookSubscriptionUpdateSchema } from '@/lib/outboundWebhooks'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const sub = await getSubscription(params.id)
+  if (!sub) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ subscription: publicSubscription(sub) })
+}
+
+// PATCH: change url, events, secret, description or enabled
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const body = await req.json().catch(() => null)
+  const parsed = WebhookSubscriptionUpdateSchema.safeParse(body)
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const sub = await updateSubscription(params.id, parsed.data)
+  if (!sub) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ ok: true, subscription: publicSubscription(sub) })
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!(await deleteSubscription(params.id))) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ ok: true })
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server'
+import { redeliver } from '@/lib/outboundWebhooks'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Sends the stored event again now, with a fresh signature and retry budget
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const result = await redeliver(params.id)
+  if ('error' in result) return Response.json({ error: result.error }, { status: result.status })
+  return Response.json({ ok: result.delivery.status === 'delivered', delivery: result.delivery })
+}
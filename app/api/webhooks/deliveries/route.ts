@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { listDeliveries } from '@/lib/outboundWebhooks'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const STATUSES = ['pending', 'delivered', 'dead'] as const
+
+// Delivery log, newest first. ?status=dead lists the dead-letter queue; ?subscription=<id> filters.
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const sp = req.nextUrl.searchParams
+  const status = sp.get('status')
+  if (status && !(STATUSES as readonly string[]).includes(status)) {
+    return Response.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+  }
+  const limit = Math.min(Math.max(parseInt(sp.get('limit') || '100', 10) || 100, 1), 500)
+  const deliveries = await listDeliveries({
+    status: (status as (typeof STATUSES)[number]) || undefined,
+    subscriptionId: sp.get('subscription') || undefined,
+    limit,
+  })
+  return Response.json({ deliveries })
+}
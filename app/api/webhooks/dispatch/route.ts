@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server'
+import { processDueDeliveries } from '@/lib/outboundWebhooks'
+import { verifyAdmin, verifyCron } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Webhook retry dispatcher: hit every minute by cron (Bearer CRON_SECRET) or manually (admin secret)
+async function handle(req: NextRequest) {
+  if (!verifyCron(req) && !verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const deliveries = await processDueDeliveries()
+  return Response.json({ ok: true, attempted: deliveries.length, delivered: deliveries.filter((d) => d.status === 'delivered').length })
+}
+
+export const GET = handle
+export const POST = handle
@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server'
+import { createSubscription, listSubscriptions, publicSubscription, WebhookSubscriptionCreateSchema } from '@/lib/outboundWebhooks'
+import { verifyAdmin } from '@/lib/adminAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const subs = await listSubscriptions()
+  return Response.json({ subscriptions: subs.map(publicSubscription) })
+}
+
+// POST: add a subscriber. Body: { url, events?, secret?, description?, enabled? }
+// The signing secret is only returned here.
+export async function POST(req: NextRequest) {
+  if (!verifyAdmin(req)) return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  const body = await req.json().catch(() => null)
+  const parsed = WebhookSubscriptionCreateSchema.safeParse(body)
+  if (!parsed.success) return Response.json({ error: parsed.error.flatten() }, { status: 400 })
+  const subscription = await createSubscription(parsed.data)
+  return Response.json({ ok: true, subscription }, { status: 201 })
+}
@@ -0,0 +1,14 @@
+import Nav from '@/components/Nav'
+import CampaignsDashboard from '@/components/CampaignsDashboard'
+
+export default function CampaignsPage() {
+  return (
+    <div>
+      <Nav />
+      <main className="mx-auto max-w-7xl px-4 py-8">
+        <h1 className="mb-6 text-2xl font-semibold tracking-tight">Campaigns</h1>
+        <CampaignsDashboard />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import LoginForm from '@/components/LoginForm'
+import { authProvider } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export default function LoginPage({ searchParams }: { searchParams: { next?: string; error?: string } }) {
+  return (
+    <main className="mx-auto flex min-h-screen max-w-sm flex-col justify-center px-4">
+      <h1 className="mb-6 text-2xl font-semibold tracking-tight">Sign in to AIVoiceCaller</h1>
+      <LoginForm provider={authProvider()} next={searchParams.next} error={searchParams.error} />
+    </main>
+  )
+}
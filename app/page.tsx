@@ -1,5 +1,6 @@
 import Nav from '@/components/Nav'
 import DashboardForm from '@/components/DashboardForm'
+import UsageGauge from '@/components/UsageGauge'
 
 export default function Page() {
   return (
@@ -7,6 +8,7 @@ export default function Page() {
       <Nav />
       <main className="mx-auto max-w-7xl px-4 py-8">
         <h1 className="mb-6 text-2xl font-semibold tracking-tight">Playground</h1>
+        <UsageGauge />
         <DashboardForm />
       </main>
     </div>
@@ -0,0 +1,254 @@
+"use client"
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+import { Textarea } from './ui/Textarea'
+import toast from 'react-hot-toast'
+
+type ContactStatus = 'pending' | 'dialing' | 'completed' | 'busy' | 'no-answer' | 'failed' | 'canceled'
+
+type CampaignSummary = {
+  id: string
+  name: string
+  profile?: string
+  status: 'draft' | 'running' | 'paused' | 'completed'
+  concurrency: number
+  pacingSeconds: number
+  updatedAt: string
+  progress: { total: number; done: number; counts: Record<ContactStatus, number> }
+}
+
+type Contact = {
+  id: string
+  phone: string
+  vars: Record<string, string>
+  status: ContactStatus
+  attempts: { callSid?: string; at: string; status: string; durationSeconds?: number; error?: string }[]
+  nextAttemptAt?: number
+  disposition?: string
+}
+
+const statusColors: Record<string, string> = {
+  draft: 'bg-neutral-700/40 text-neutral-300',
+  running: 'bg-emerald-600/20 text-emerald-300',
+  paused: 'bg-amber-600/20 text-amber-300',
+  completed: 'bg-brand-600/20 text-brand-300',
+}
+
+export default function CampaignsDashboard() {
+  const [adminSecret, setAdminSecret] = useState('')
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([])
+  const [selected, setSelected] = useState<string | null>(null)
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [form, setForm] = useState({ name: '', profile: '', instructions: '', csv: '', concurrency: 2, pacingSeconds: 10, maxAttempts: 3, delayMinutes: 30 })
+  const [creating, setCreating] = useState(false)
+
+  const api = useCallback(async (path: string, init?: RequestInit) => {
+    const res = await fetch(path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(adminSecret && { Authorization: `Bearer ${adminSecret}` }), ...(init?.headers || {}) },
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(typeof data?.error === 'string' ? data.error : `Request failed (${res.status})`)
+    return data
+  }, [adminSecret])
+
+  const load = useCallback(async () => {
+    const data = await api('/api/campaigns')
+    setCampaigns(data.campaigns || [])
+    if (selected) {
+      const detail = await api(`/api/campaigns/${selected}`)
+      setContacts(detail.campaign?.contacts || [])
+    }
+  }, [api, selected])
+
+  // While a campaign runs, drive the dispatcher from the dashboard too (cron may not be configured locally)
+  useEffect(() => {
+    const active = campaigns.some((c) => c.status === 'running' || c.progress.counts.dialing > 0)
+    if (!active) return
+    const id = setInterval(async () => {
+      try {
+        await api('/api/campaigns/tick', { method: 'POST' })
+        await load()
+      } catch {}
+    }, 5000)
+    return () => clearInterval(id)
+  }, [campaigns, api, load])
+
+  useEffect(() => {
+    if (selected) load().catch(() => {})
+  }, [selected]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const refresh = async () => {
+    try {
+      await load()
+    } catch (e: any) {
+      toast.error(e?.message || 'Failed to load campaigns')
+    }
+  }
+
+  const onFile = async (file?: File) => {
+    if (!file) return
+    const csv = await file.text()
+    setForm((f) => ({ ...f, csv }))
+  }
+
+  const create = async () => {
+    try {
+      setCreating(true)
+      const data = await api('/api/campaigns', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: form.name.trim(),
+          csv: form.csv,
+          ...(form.profile.trim() && { profile: form.profile.trim() }),
+          ...(form.instructions.trim() && { instructions: form.instructions.trim() }),
+          concurrency: form.concurrency,
+          pacingSeconds: form.pacingSeconds,
+          retry: { maxAttempts: form.maxAttempts, delayMinutes: form.delayMinutes },
+        }),
+      })
+      const skipped = data.errors?.length || 0
+      toast.success(`Campaign created with ${data.campaign.progress.total} contacts${skipped ? `, ${skipped} rows skipped` : ''}`)
+      setSelected(data.campaign.id)
+      await load()
+    } catch (e: any) {
+      toast.error(e?.message || 'Failed to create campaign')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const act = async (id: string, action: 'start' | 'pause' | 'resume' | 'delete') => {
+    try {
+      if (action === 'delete') {
+        if (!confirm('Delete this campaign?')) return
+        await api(`/api/campaigns/${id}`, { method: 'DELETE' })
+        if (selected === id) setSelected(null)
+      } else {
+        await api(`/api/campaigns/${id}/${action}`, { method: 'POST' })
+      }
+      await load()
+    } catch (e: any) {
+      toast.error(e?.message || `Failed to ${action} campaign`)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
+        <div className="grid grid-cols-1 items-end gap-3 md:grid-cols-[1fr_auto]">
+          <Input label="Admin Secret (optional when signed in)" placeholder="REALTIME_CONTROL_ADMIN_SECRET" value={adminSecret} onChange={(e) => setAdminSecret(e.target.value)} />
+          <Button type="button" onClick={refresh}>Load campaigns</Button>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
+        <h2 className="mb-3 text-lg font-semibold">New Campaign</h2>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <Input label="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          <Input label="Agent profile (optional)" placeholder="active profile" value={form.profile} onChange={(e) => setForm({ ...form, profile: e.target.value })} />
+          <Input label="Concurrency" type="number" min={1} max={50} value={form.concurrency} onChange={(e) => setForm({ ...form, concurrency: Number(e.target.value) })} />
+          <Input label="Pacing (seconds between dials)" type="number" min={0} max={3600} value={form.pacingSeconds} onChange={(e) => setForm({ ...form, pacingSeconds: Number(e.target.value) })} />
+          <Input label="Max attempts (busy / no-answer)" type="number" min={1} max={10} value={form.maxAttempts} onChange={(e) => setForm({ ...form, maxAttempts: Number(e.target.value) })} />
+          <Input label="Retry delay (minutes)" type="number" min={0} max={1440} value={form.delayMinutes} onChange={(e) => setForm({ ...form, delayMinutes: Number(e.target.value) })} />
+        </div>
+        <div className="mt-3 space-y-3">
+          <Textarea
+            label="Instructions (optional)"
+            hint="Used when the profile has no instructions. {{column}} placeholders are filled from each CSV row."
+            value={form.instructions}
+            onChange={(e) => setForm({ ...form, instructions: e.target.value })}
+          />
+          <div>
+            <label className="mb-1 block text-sm text-neutral-300">Contacts CSV</label>
+            <input type="file" accept=".csv,text/csv" onChange={(e) => onFile(e.target.files?.[0])} className="text-sm text-neutral-300" />
+          </div>
+          <Textarea
+            label="CSV contents"
+            hint="Header row with a phone column (phone, phone_number, number or to); other columns become variables."
+            placeholder={'phone,name\n+14155550100,Jane'}
+            value={form.csv}
+            onChange={(e) => setForm({ ...form, csv: e.target.value })}
+            className="font-mono text-xs"
+          />
+          <Button type="button" onClick={create} disabled={creating || !form.name.trim() || !form.csv.trim()} className="bg-brand-600 hover:bg-brand-500">
+            {creating ? 'Creating...' : 'Create campaign'}
+          </Button>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
+        <h2 className="mb-3 text-lg font-semibold">Campaigns</h2>
+        {campaigns.length === 0 && <p className="text-sm text-neutral-500">No campaigns yet.</p>}
+        <div className="space-y-3">
+          {campaigns.map((c) => {
+            const pct = c.progress.total ? Math.round((c.progress.done / c.progress.total) * 100) : 0
+            return (
+              <div key={c.id} className={`rounded-lg border p-3 ${selected === c.id ? 'border-brand-500' : 'border-neutral-800'}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <button type="button" onClick={() => setSelected(c.id)} className="text-left">
+                    <span className="font-medium">{c.name}</span>{' '}
+                    <span className={`ml-2 rounded px-2 py-0.5 text-xs ${statusColors[c.status]}`}>{c.status}</span>
+                    {c.profile && <span className="ml-2 text-xs text-neutral-500">profile: {c.profile}</span>}
+                  </button>
+                  <div className="flex gap-2">
+                    {c.status === 'draft' && <Button type="button" onClick={() => act(c.id, 'start')} className="px-3 py-1 text-xs">Start</Button>}
+                    {c.status === 'running' && <Button type="button" onClick={() => act(c.id, 'pause')} className="px-3 py-1 text-xs">Pause</Button>}
+                    {c.status === 'paused' && <Button type="button" onClick={() => act(c.id, 'resume')} className="px-3 py-1 text-xs">Resume</Button>}
+                    {c.status !== 'running' && <Button type="button" onClick={() => act(c.id, 'delete')} className="px-3 py-1 text-xs text-red-300">Delete</Button>}
+                  </div>
+                </div>
+                <div className="mt-2 h-2 overflow-hidden rounded bg-neutral-800">
+                  <div className="h-full bg-brand-500" style={{ width: `${pct}%` }} />
+                </div>
+                <p className="mt-1 text-xs text-neutral-400">
+                  {c.progress.done}/{c.progress.total} done · {c.progress.counts.dialing} dialing · {c.progress.counts.pending} pending · {c.progress.counts.completed} completed · {c.progress.counts.busy + c.progress.counts['no-answer']} busy/no-answer · {c.progress.counts.failed} failed
+                </p>
+              </div>
+            )
+          })}
+        </div>
+      </section>
+
+      {selected && (
+        <section className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
+          <h2 className="mb-3 text-lg font-semibold">Contacts</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-neutral-800 text-neutral-400">
+                  <th className="py-2">Phone</th>
+                  <th className="py-2">Variables</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Attempts</th>
+                  <th className="py-2">Disposition</th>
+                </tr>
+              </thead>
+              <tbody>
+                {contacts.map((c) => (
+                  <tr key={c.id} className="border-b border-neutral-900/60 align-top">
+                    <td className="py-2 font-mono text-xs">{c.phone}</td>
+                    <td className="py-2 text-xs text-neutral-400">{Object.entries(c.vars).map(([k, v]) => `${k}=${v}`).join(', ')}</td>
+                    <td className="py-2 capitalize">
+                      {c.status}
+                      {c.status === 'pending' && c.nextAttemptAt && (
+                        <span className="block text-xs text-neutral-500">retry at {new Date(c.nextAttemptAt).toLocaleTimeString()}</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-xs text-neutral-400">
+                      {c.attempts.map((a, i) => (
+                        <span key={i} className="block">{new Date(a.at).toLocaleTimeString()} {a.status}{a.durationSeconds != null ? ` (${a.durationSeconds}s)` : ''}{a.error ? `: ${a.error}` : ''}</span>
+                      ))}
+                    </td>
+                    <td className="py-2 capitalize">{c.disposition || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  )
+}
@@ -31,6 +31,74 @@ type Settings = {
   max_response_output_tokens?: number | null  // Max tokens for response
 }
 
+type HttpToolDraft = {
+  name: string
+  description: string
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  url: string
+  headers: string
+  authType: 'none' | 'bearer' | 'header' | 'basic'
+  authHeader: string
+  secretRef: string
+  timeoutMs: number
+  responsePath: string
+  params: string
+}
+
+const emptyHttpTool: HttpToolDraft = {
+  name: '',
+  description: '',
+  method: 'POST',
+  url: '',
+  headers: '',
+  authType: 'none',
+  authHeader: '',
+  secretRef: '',
+  timeoutMs: 8000,
+  responsePath: '',
+  params: '',
+}
+
+// "Key: value" per line -> record
+function parseLines(text: string) {
+  const out: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const i = line.indexOf(':')
+    if (i <= 0) continue
+    const k = line.slice(0, i).trim()
+    const v = line.slice(i + 1).trim()
+    if (k) out[k] = v
+  }
+  return out
+}
+
+function draftToHttpTool(d: HttpToolDraft) {
+  if (!d.name.trim() || !d.description.trim() || !d.url.trim()) throw new Error('Name, description and URL are required')
+  const params = parseLines(d.params)
+  const properties: Record<string, any> = {}
+  for (const [k, v] of Object.entries(params)) properties[k] = { type: 'string', description: v }
+  return {
+    type: 'http',
+    name: d.name.trim(),
+    description: d.description.trim(),
+    parameters: { type: 'object', properties, required: Object.keys(properties) },
+    http: {
+      method: d.method,
+      url: d.url.trim(),
+      headers: parseLines(d.headers),
+      ...(d.authType !== 'none' && {
+        auth: { type: d.authType, secret_ref: d.secretRef.trim(), ...(d.authType === 'header' && d.authHeader.trim() && { header: d.authHeader.trim() }) },
+      }),
+      timeout_ms: d.timeoutMs,
+      ...(d.responsePath.trim() && { response: { path: d.responsePath.trim() } }),
+    },
+  }
+}
+
+type ProfileSummary = { name: string; description?: string; currentVersion: number; updatedAt: string; active: boolean }
+type ProfileVersion = { version: number; settings: Settings; createdAt: string; note?: string }
+type SettingsChange = { path: string; before: unknown; after: unknown }
+
 export default function ControlSettings() {
   const [adminSecret, setAdminSecret] = useState('')
   const [loading, setLoading] = useState(false)
@@ -54,13 +122,45 @@ export default function ControlSettings() {
     input_audio_transcription: null,
   })
 
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([])
+  const [selected, setSelected] = useState('')
+  const [versions, setVersions] = useState<ProfileVersion[]>([])
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null)
+  const [newProfileName, setNewProfileName] = useState('')
+  const [note, setNote] = useState('')
+  const [diff, setDiff] = useState<null | { from: number; to: number; changes: SettingsChange[] }>(null)
+
+  const api = async (path: string, init?: RequestInit) => {
+    const r = await fetch(`/api/realtime/control/settings${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(adminSecret && { Authorization: `Bearer ${adminSecret}` }), ...(init?.headers || {}) },
+    })
+    if (r.status === 401) throw new Error('Unauthorized — sign in as an admin or enter the admin secret')
+    const j = await r.json().catch(() => ({}))
+    if (!r.ok) throw new Error(j?.error || `Request failed (${r.status})`)
+    return j
+  }
+
+  async function loadProfile(name: string) {
+    const j = await api(`/${encodeURIComponent(name)}`)
+    const p = j.profile as { currentVersion: number; versions: ProfileVersion[] }
+    const current = p.versions.find((v) => v.version === p.currentVersion)
+    const next = { ...s, ...(current?.settings || {}) }
+    setS(next)
+    try { setRawTools(JSON.stringify(next.tools || [], null, 2)) } catch {}
+    setSelected(name)
+    setVersions([...p.versions].reverse())
+    setCurrentVersion(p.currentVersion)
+    setDiff(null)
+  }
+
   async function load() {
     try {
       setLoading(true)
-      const r = await fetch('/api/realtime/control/settings', { headers: { Authorization: `Bearer ${adminSecret}` } })
-      if (r.status === 401) throw new Error('Unauthorized — check admin secret')
-      const j = await r.json()
-      if (j?.settings) setS({ ...s, ...j.settings })
+      const j = await api('')
+      setProfiles(j.profiles || [])
+      const target = selected || j.active || j.profiles?.[0]?.name
+      if (target) await loadProfile(target)
     } catch (e: any) {
       toast.error(e?.message || 'Load failed')
     } finally {
@@ -68,17 +168,20 @@ export default function ControlSettings() {
     }
   }
 
+  async function refreshProfiles() {
+    const j = await api('')
+    setProfiles(j.profiles || [])
+  }
+
   async function save() {
     try {
       setSaving(true)
-      const r = await fetch('/api/realtime/control/settings', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminSecret}` },
-        body: JSON.stringify({ settings: s }),
-      })
-      if (r.status === 401) throw new Error('Unauthorized — check admin secret')
-      if (!r.ok) throw new Error('Save failed')
-      toast.success('Server control settings saved')
+      const name = selected || 'default'
+      await api(`/${encodeURIComponent(name)}`, { method: 'PUT', body: JSON.stringify({ settings: s, note: note || undefined }) })
+      setNote('')
+      await loadProfile(name)
+      await refreshProfiles()
+      toast.success(`Saved ${name} as a new version`)
     } catch (e: any) {
       toast.error(e?.message || 'Save failed')
     } finally {
@@ -86,9 +189,84 @@ export default function ControlSettings() {
     }
   }
 
+  async function createProfile() {
+    try {
+      const name = newProfileName.trim()
+      if (!name) throw new Error('Enter a profile name')
+      if (profiles.some((p) => p.name === name)) throw new Error('Profile already exists')
+      await api('', { method: 'POST', body: JSON.stringify({ name, settings: s, note: 'Created' }) })
+      setNewProfileName('')
+      await refreshProfiles()
+      await loadProfile(name)
+      toast.success(`Profile ${name} created from the current settings`)
+    } catch (e: any) {
+      toast.error(e?.message || 'Create failed')
+    }
+  }
+
+  async function activate() {
+    try {
+      await api(`/${encodeURIComponent(selected)}/activate`, { method: 'POST' })
+      await refreshProfiles()
+      toast.success(`${selected} is now the active profile`)
+    } catch (e: any) {
+      toast.error(e?.message || 'Activate failed')
+    }
+  }
+
+  async function remove() {
+    if (!window.confirm(`Delete profile ${selected} and its history?`)) return
+    try {
+      await api(`/${encodeURIComponent(selected)}`, { method: 'DELETE' })
+      setSelected('')
+      setVersions([])
+      setCurrentVersion(null)
+      await refreshProfiles()
+      toast.success('Profile deleted')
+    } catch (e: any) {
+      toast.error(e?.message || 'Delete failed')
+    }
+  }
+
+  async function showDiff(from: number) {
+    try {
+      const j = await api(`/${encodeURIComponent(selected)}/diff?from=${from}&to=${currentVersion}`)
+      setDiff(j)
+    } catch (e: any) {
+      toast.error(e?.message || 'Diff failed')
+    }
+  }
+
+  async function rollback(version: number) {
+    try {
+      await api(`/${encodeURIComponent(selected)}/rollback`, { method: 'POST', body: JSON.stringify({ version }) })
+      await loadProfile(selected)
+      await refreshProfiles()
+      toast.success(`Rolled back to v${version}`)
+    } catch (e: any) {
+      toast.error(e?.message || 'Rollback failed')
+    }
+  }
+
   const isVad = s.turn_detection?.type === 'server_vad'
   const vad = (s.turn_detection as any) || {}
   const [rawTools, setRawTools] = useState('')
+  const [httpDraft, setHttpDraft] = useState<HttpToolDraft>(emptyHttpTool)
+  const httpTools = (s.tools || []).filter((t: any) => t?.type === 'http')
+  const setTools = (tools: any[]) => {
+    setS({ ...s, tools })
+    try { setRawTools(JSON.stringify(tools, null, 2)) } catch {}
+  }
+  const addHttpTool = () => {
+    try {
+      const tool = draftToHttpTool(httpDraft)
+      setTools([...(s.tools || []).filter((t: any) => t?.name !== tool.name), tool])
+      setHttpDraft(emptyHttpTool)
+      toast.success(`HTTP tool ${tool.name} added — save to apply`)
+    } catch (e: any) {
+      toast.error(e?.message || 'Invalid HTTP tool')
+    }
+  }
   useEffect(() => {
     if (Array.isArray(s.tools)) {
       try { setRawTools(JSON.stringify(s.tools, null, 2)) } catch {}
@@ -102,15 +280,96 @@ export default function ControlSettings() {
         <h2 className="text-lg font-semibold">OpenAI Realtime API Settings</h2>
       </div>
       <div className="mb-4 grid grid-cols-1 gap-4 md:grid-cols-3">
-        <Input label="Admin Secret (not stored)" placeholder="REALTIME_CONTROL_ADMIN_SECRET" value={adminSecret} onChange={(e) => setAdminSecret(e.target.value)} />
-        <Button type="button" onClick={load} disabled={loading || !adminSecret}>
+        <Input label="Admin Secret (optional when signed in)" placeholder="REALTIME_CONTROL_ADMIN_SECRET" value={adminSecret} onChange={(e) => setAdminSecret(e.target.value)} />
+        <Button type="button" onClick={load} disabled={loading}>
           {loading ? 'Loading…' : 'Load'}
         </Button>
-        <Button type="button" onClick={save} disabled={saving || !adminSecret} className="bg-brand-600 hover:bg-brand-500">
-          {saving ? 'Saving…' : 'Save'}
+        <Button type="button" onClick={save} disabled={saving} className="bg-brand-600 hover:bg-brand-500">
+          {saving ? 'Saving…' : `Save${selected ? ` ${selected}` : ''}`}
         </Button>
       </div>
 
+      <div className="mb-6 rounded-lg border border-neutral-800 bg-neutral-950/60 p-4">
+        <h3 className="mb-3 text-sm font-medium text-neutral-300">Agent Profiles</h3>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <Select
+            label="Profile"
+            options={[
+              { label: profiles.length ? 'Select a profile…' : 'No profiles yet — save to create "default"', value: '' },
+              ...profiles.map((p) => ({ label: `${p.name} (v${p.currentVersion})${p.active ? ' — active' : ''}`, value: p.name })),
+            ]}
+            value={selected}
+            onChange={(v) => { if (v) loadProfile(v).catch((e) => toast.error(e?.message || 'Load failed')) }}
+          />
+          <Input label="Version note (optional)" placeholder="What changed?" value={note} onChange={(e) => setNote(e.target.value)} />
+          <div className="flex items-end gap-2">
+            <Button type="button" onClick={activate} disabled={!selected || profiles.find((p) => p.name === selected)?.active}>Activate</Button>
+            <Button type="button" onClick={remove} disabled={!selected} className="bg-red-500/20 hover:bg-red-500/30">Delete</Button>
+          </div>
+        </div>
+        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+          <Input label="New profile name" placeholder="after-hours" value={newProfileName} onChange={(e) => setNewProfileName(e.target.value)} />
+          <div className="flex items-end">
+            <Button type="button" onClick={createProfile} disabled={!newProfileName.trim()}>Create from current settings</Button>
+          </div>
+        </div>
+
+        {versions.length > 0 && (
+          <div className="mt-4">
+            <h4 className="mb-2 text-xs font-medium uppercase tracking-wide text-neutral-500">Version history</h4>
+            <ul className="max-h-56 space-y-1 overflow-auto text-xs">
+              {versions.map((v) => (
+                <li key={v.version} className="flex items-center justify-between rounded border border-neutral-900 px-3 py-1.5">
+                  <span>
+                    <span className="font-mono text-neutral-200">v{v.version}</span>
+                    {v.version === currentVersion && <span className="ml-2 rounded bg-emerald-600/20 px-1.5 text-emerald-300">current</span>}
+                    <span className="ml-2 text-neutral-500">{new Date(v.createdAt).toLocaleString()}</span>
+                    {v.note && <span className="ml-2 text-neutral-400">{v.note}</span>}
+                  </span>
+                  {v.version !== currentVersion && (
+                    <span className="flex gap-2">
+                      <Button type="button" className="px-2 py-0.5 text-xs" onClick={() => showDiff(v.version)}>Diff</Button>
+                      <Button type="button" className="px-2 py-0.5 text-xs" onClick={() => rollback(v.version)}>Rollback</Button>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {diff && (
+          <div className="mt-4">
+            <div className="mb-2 flex items-center justify-between">
+              <h4 className="text-xs font-medium uppercase tracking-wide text-neutral-500">v{diff.from} → v{diff.to}</h4>
+              <Button type="button" className="px-2 py-0.5 text-xs" onClick={() => setDiff(null)}>Close</Button>
+            </div>
+            {diff.changes.length === 0 ? (
+              <p className="text-xs text-neutral-500">No differences.</p>
+            ) : (
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr className="border-b border-neutral-800 text-neutral-400">
+                    <th className="py-1">Setting</th>
+                    <th className="py-1">Before</th>
+                    <th className="py-1">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changes.map((c) => (
+                    <tr key={c.path} className="border-b border-neutral-900/60 align-top">
+                      <td className="py-1 font-mono">{c.path}</td>
+                      <td className="max-w-xs whitespace-pre-wrap break-words py-1 text-red-300">{c.before === undefined ? '—' : JSON.stringify(c.before)}</td>
+                      <td className="max-w-xs whitespace-pre-wrap break-words py-1 text-emerald-300">{c.after === undefined ? '—' : JSON.stringify(c.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
         <Select 
           label="Voice" 
@@ -287,6 +546,84 @@ export default function ControlSettings() {
         <p className="mt-1 text-xs text-neutral-500">Define function tools for the assistant to use. Must be valid JSON array.</p>
       </div>
 
+      <div className="mt-6">
+        <h3 className="mb-2 text-sm font-medium text-neutral-300">HTTP Tools</h3>
+        <p className="mb-3 text-xs text-neutral-500">
+          Let the assistant call one of your APIs during a call. Use <code>{'{{param}}'}</code> in the URL or headers to insert an argument; other arguments are sent as JSON (or query string for GET).
+        </p>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <Input label="Name" placeholder="lookup_order" value={httpDraft.name} onChange={(e) => setHttpDraft({ ...httpDraft, name: e.target.value })} />
+          <Input label="Description" placeholder="Look up an order by number" value={httpDraft.description} onChange={(e) => setHttpDraft({ ...httpDraft, description: e.target.value })} />
+          <Select
+            label="Method"
+            options={['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map((m) => ({ label: m, value: m }))}
+            value={httpDraft.method}
+            onChange={(v) => setHttpDraft({ ...httpDraft, method: v as HttpToolDraft['method'] })}
+          />
+        </div>
+        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="md:col-span-2">
+            <Input label="URL" placeholder="https://api.example.com/orders/{{order_id}}" value={httpDraft.url} onChange={(e) => setHttpDraft({ ...httpDraft, url: e.target.value })} />
+          </div>
+          <Input label="Timeout (ms)" type="number" value={httpDraft.timeoutMs} onChange={(e) => setHttpDraft({ ...httpDraft, timeoutMs: parseInt(e.target.value, 10) || 8000 })} />
+        </div>
+        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+          <Select
+            label="Auth"
+            options={[
+              { label: 'None', value: 'none' },
+              { label: 'Bearer token', value: 'bearer' },
+              { label: 'Custom header', value: 'header' },
+              { label: 'Basic (user:pass)', value: 'basic' },
+            ]}
+            value={httpDraft.authType}
+            onChange={(v) => setHttpDraft({ ...httpDraft, authType: v as HttpToolDraft['authType'] })}
+          />
+          {httpDraft.authType !== 'none' && (
+            <Input label="Secret env var" placeholder="TOOL_SECRET_ORDERS_API" value={httpDraft.secretRef} onChange={(e) => setHttpDraft({ ...httpDraft, secretRef: e.target.value })} />
+          )}
+          {httpDraft.authType === 'header' && (
+            <Input label="Header name" placeholder="X-API-Key" value={httpDraft.authHeader} onChange={(e) => setHttpDraft({ ...httpDraft, authHeader: e.target.value })} />
+          )}
+        </div>
+        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label className="mb-1 block text-sm text-neutral-300">Parameters (name: description)</label>
+            <textarea
+              className="h-24 w-full rounded-md border border-neutral-800 bg-neutral-950 p-2 font-mono text-xs text-white outline-none focus:border-brand-500"
+              placeholder="order_id: The customer's order number"
+              value={httpDraft.params}
+              onChange={(e) => setHttpDraft({ ...httpDraft, params: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm text-neutral-300">Headers (Name: value)</label>
+            <textarea
+              className="h-24 w-full rounded-md border border-neutral-800 bg-neutral-950 p-2 font-mono text-xs text-white outline-none focus:border-brand-500"
+              placeholder="X-Source: voice-agent"
+              value={httpDraft.headers}
+              onChange={(e) => setHttpDraft({ ...httpDraft, headers: e.target.value })}
+            />
+          </div>
+          <Input label="Response field (optional)" placeholder="data.order.status" value={httpDraft.responsePath} onChange={(e) => setHttpDraft({ ...httpDraft, responsePath: e.target.value })} />
+        </div>
+        <div className="mt-2 flex gap-2">
+          <Button type="button" onClick={addHttpTool}>Add HTTP Tool</Button>
+        </div>
+        {httpTools.length > 0 && (
+          <ul className="mt-3 space-y-2">
+            {httpTools.map((t: any) => (
+              <li key={t.name} className="flex items-center justify-between rounded-md border border-neutral-800 bg-neutral-950/60 px-3 py-2 text-xs">
+                <span className="font-mono text-neutral-200">{t.name}</span>
+                <span className="truncate px-3 text-neutral-500">{t.http?.method} {t.http?.url}</span>
+                <Button type="button" className="px-2 py-1 text-xs bg-red-500/20 hover:bg-red-500/30" onClick={() => setTools((s.tools || []).filter((x: any) => x !== t))}>Remove</Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-1 text-xs text-neutral-500">Secrets are referenced by env var name (must start with TOOL_SECRET_) and never stored in settings.</p>
+      </div>
+
       <div className="mt-4">
         <h3 className="mb-2 text-sm font-medium text-neutral-300">Input Audio Transcription (Optional)</h3>
         <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
@@ -11,6 +11,7 @@ import { Button } from './ui/Button'
 import toast from 'react-hot-toast'
 import { fileToBase64 } from '@/lib/utils'
 import { CopyButton } from './ui/CopyButton'
+import TranscriptView, { type LiveTranscriptEvent } from './TranscriptView'
 import type { RealtimeSession } from '@/lib/validation'
 
 const ToolFormSchema = z.object({
@@ -199,14 +200,14 @@ export default function DashboardForm() {
   const [mcpJson, setMcpJson] = useState('')
   const [mcpServers, setMcpServers] = useState<any[]>([])
   const [genLoading, setGenLoading] = useState(false)
-  const [generated, setGenerated] = useState<null | { secret: string; sipUri: string; twimlProd: string; twimlLocal: string; expiresAt?: number }>(null)
+  const [generated, setGenerated] = useState<null | { secret: string; twimlProd: string; twimlLocal: string; expiresAt?: number }>(null)
   const [includeServerWebhook, setIncludeServerWebhook] = useState(false)
   const [serverSecret, setServerSecret] = useState('')
   const [hostOrigin, setHostOrigin] = useState('')
   const [autoUpdateTwilio, setAutoUpdateTwilio] = useState(false)
   const [twilioUpdating, setTwilioUpdating] = useState(false)
   const [currentCallSid, setCurrentCallSid] = useState<string | null>(null)
-  const [transcript, setTranscript] = useState<Array<{ t: number; type: string; text: string }>>([])
+  const [transcript, setTranscript] = useState<LiveTranscriptEvent[]>([])
   const sseRef = useRef<EventSource | null>(null)
   const [settingsOpen, setSettingsOpen] = useState(false)
 
@@ -348,7 +349,7 @@ export default function DashboardForm() {
         })
         es.onerror = (error) => {
           console.error('SSE error:', error)
-          // keep UI soft-failing; user can restart
+          // EventSource reconnects on its own and resumes after the last event id
         }
         sseRef.current = es
       }
@@ -520,15 +521,15 @@ export default function DashboardForm() {
       const secret: string | undefined = json?.client_secret?.value
       const expiresAt: number | undefined = json?.client_secret?.expires_at
       if (!secret) throw new Error('No secret in response')
-      const sipUri = `sips:${secret}@sip.openai.com`
-      const twimlProd = `https://verbio.app/api/twiml?secret=${encodeURIComponent(secret)}`
-      const twimlLocal = `${window.location.origin}/api/twiml?secret=${encodeURIComponent(secret)}`
-      setGenerated({ secret, sipUri, twimlProd, twimlLocal, expiresAt })
+      // The webhook URL carries no secret: /api/twiml mints a session per call
+      const twimlProd = `https://verbio.app/api/twiml`
+      const twimlLocal = `${window.location.origin}/api/twiml`
+      setGenerated({ secret, twimlProd, twimlLocal, expiresAt })
       toast.success('Client secret generated')
       if (autoUpdateTwilio) {
         setTwilioUpdating(true)
         try {
-          const r = await fetch('/api/twilio/webhook', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ secret }) })
+          const r = await fetch('/api/twilio/webhook', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({}) })
           const txt = await r.text()
           const json = txt ? JSON.parse(txt) : {}
           if (!r.ok || !json?.ok) {
@@ -800,7 +801,6 @@ export default function DashboardForm() {
                 {generated && (
                   <div className="mt-2 space-y-2 rounded-md border border-neutral-800 bg-neutral-950/60 p-2">
                     <p className="truncate font-mono text-[11px]"><span className="text-neutral-400">Client Secret: </span>{generated.secret}</p>
-                    <p className="truncate font-mono text-[11px]"><span className="text-neutral-400">SIP: </span>{generated.sipUri}</p>
                     <p className="truncate font-mono text-[11px]"><span className="text-neutral-400">Twilio (prod): </span>{generated.twimlProd}</p>
                     <p className="truncate font-mono text-[11px]"><span className="text-neutral-400">Twilio (this): </span>{generated.twimlLocal}</p>
                     <div className="flex items-center justify-end gap-2">
@@ -808,7 +808,7 @@ export default function DashboardForm() {
                       <Button type="button" className="px-3 py-1 text-xs" disabled={twilioUpdating} onClick={async () => {
                         try {
                           setTwilioUpdating(true)
-                          const r = await fetch('/api/twilio/webhook', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ secret: generated.secret }) })
+                          const r = await fetch('/api/twilio/webhook', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({}) })
                           const txt = await r.text()
                           const json = txt ? JSON.parse(txt) : {}
                           if (!r.ok || !json?.ok) {
@@ -1072,7 +1072,6 @@ export default function DashboardForm() {
             {generated && (
               <div className="mt-2 space-y-2 rounded-md border border-neutral-800 bg-neutral-950/60 p-2">
                 <p className="truncate font-mono text-[11px]"><span className="text-neutral-400">Client Secret: </span>{generated.secret}</p>
-                <p className="truncate font-mono text-[11px]"><span className="text-neutral-400">SIP: </span>{generated.sipUri}</p>
                 <p className="truncate font-mono text-[11px]"><span className="text-neutral-400">Twilio (prod): </span>{generated.twimlProd}</p>
                 <p className="truncate font-mono text-[11px]"><span className="text-neutral-400">Twilio (this): </span>{generated.twimlLocal}</p>
                 <div className="flex items-center justify-end gap-2">
@@ -1080,7 +1079,7 @@ export default function DashboardForm() {
                   <Button type="button" className="px-3 py-1 text-xs" disabled={twilioUpdating} onClick={async () => {
                     try {
                       setTwilioUpdating(true)
-                      const r = await fetch('/api/twilio/webhook', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ secret: generated.secret }) })
+                      const r = await fetch('/api/twilio/webhook', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({}) })
                       const txt = await r.text()
                       const json = txt ? JSON.parse(txt) : {}
                       if (!r.ok || !json?.ok) {
@@ -1128,11 +1127,7 @@ export default function DashboardForm() {
           {transcript.length === 0 ? (
             <p className="text-sm text-neutral-500">Live transcription will appear here during an active call.</p>
           ) : (
-            <div className="space-y-2 text-sm leading-relaxed">
-              {transcript.map((l, i) => (
-                <p key={i} className="whitespace-pre-wrap"><span className="text-neutral-500">[{new Date(l.t).toLocaleTimeString()}]</span> {l.text}</p>
-              ))}
-            </div>
+            <TranscriptView events={transcript} />
           )}
         </div>
 
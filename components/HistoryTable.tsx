@@ -1,42 +1,70 @@
 "use client"
-import { useEffect, useMemo, useState } from 'react'
+import { Fragment, useEffect, useMemo, useState } from 'react'
 import { Button } from './ui/Button'
 import toast from 'react-hot-toast'
+import TranscriptView, { type Turn } from './TranscriptView'
 
 type Call = {
   sid: string
+  direction?: string
   to?: string
   from?: string
-  startTime?: string
-  endTime?: string
   status?: string
+  timestamps?: Record<string, string>
+  durationSeconds?: number
+  answeredBy?: string
+  profile?: string
+  recordingSids?: string[]
+  transcriptKeys?: string[]
+  redactions?: Record<string, number>
+  analysis?: { status: string; summary?: string; disposition?: string; data?: Record<string, unknown>; error?: string }
+  createdAt?: string
 }
 
-type Recording = {
-  sid: string
-  callSid: string
-  dateCreated: string
-  duration?: string
-  mediaUrl: string
+const TRANSCRIPT_DOWNLOADS = [
+  { format: 'txt', label: 'TXT' },
+  { format: 'json', label: 'JSON' },
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'VTT' },
+]
+
+function formatDuration(s?: number) {
+  if (s == null) return '—'
+  const m = Math.floor(s / 60)
+  return m > 0 ? `${m}m ${s % 60}s` : `${s}s`
 }
 
 export default function HistoryTable() {
   const [calls, setCalls] = useState<Call[]>([])
-  const [recsByCall, setRecsByCall] = useState<Record<string, Recording[]>>({})
   const [loading, setLoading] = useState(false)
+  const [openSid, setOpenSid] = useState<string | null>(null)
+  const [turns, setTurns] = useState<Turn[] | null>(null)
+
+  const toggleTranscript = async (sid: string) => {
+    if (openSid === sid) {
+      setOpenSid(null)
+      return
+    }
+    setOpenSid(sid)
+    setTurns(null)
+    try {
+      const res = await fetch(`/api/calls/${sid}/transcript`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || 'Failed to load transcript')
+      setTurns(data.turns || [])
+    } catch (e: any) {
+      toast.error(e?.message || 'Failed to load transcript')
+      setTurns([])
+    }
+  }
 
   const load = async () => {
     try {
       setLoading(true)
-      const c = await fetch('/api/calls').then((r) => r.json())
+      const res = await fetch('/api/calls')
+      const c = await res.json()
+      if (!res.ok) throw new Error(c?.error || 'Failed to load history')
       setCalls(c)
-      const rs: Recording[] = await fetch('/api/recordings').then((r) => r.json())
-      const grouped: Record<string, Recording[]> = {}
-      for (const r of rs) {
-        if (!grouped[r.callSid]) grouped[r.callSid] = []
-        grouped[r.callSid].push(r)
-      }
-      setRecsByCall(grouped)
     } catch (e: any) {
       toast.error(e?.message || 'Failed to load history')
     } finally {
@@ -59,27 +87,88 @@ export default function HistoryTable() {
           <thead>
             <tr className="border-b border-neutral-800 text-neutral-400">
               <th className="py-2">Call SID</th>
+              <th className="py-2">Started</th>
               <th className="py-2">To</th>
               <th className="py-2">From</th>
               <th className="py-2">Status</th>
+              <th className="py-2">Duration</th>
+              <th className="py-2">Profile</th>
               <th className="py-2">Recordings</th>
+              <th className="py-2">Transcript</th>
             </tr>
           </thead>
           <tbody>
+            {calls.length === 0 && !loading && (
+              <tr><td colSpan={9} className="py-4 text-neutral-500">No calls recorded yet.</td></tr>
+            )}
             {calls.map((c) => (
-              <tr key={c.sid} className="border-b border-neutral-900/60">
+              <Fragment key={c.sid}>
+              <tr className="border-b border-neutral-900/60">
                 <td className="py-2 font-mono text-xs">{c.sid}</td>
+                <td className="py-2 text-xs">{new Date(c.timestamps?.['in-progress'] || c.createdAt || '').toLocaleString()}</td>
                 <td className="py-2">{c.to}</td>
                 <td className="py-2">{c.from}</td>
-                <td className="py-2 capitalize">{c.status}</td>
+                <td className="py-2 capitalize">
+                  {c.status}
+                  {c.answeredBy && <span className="block text-xs text-neutral-500">{c.answeredBy}</span>}
+                </td>
+                <td className="py-2">{formatDuration(c.durationSeconds)}</td>
+                <td className="py-2 text-xs text-neutral-400">{c.profile || '—'}</td>
                 <td className="py-2">
                   <div className="flex flex-wrap gap-2">
-                    {(recsByCall[c.sid] || []).map((r) => (
-                      <audio key={r.sid} controls src={r.mediaUrl} className="max-w-[280px]"/>
+                    {(c.recordingSids || []).map((r) => (
+                      <audio key={r} controls src={`/api/recordings/${r}/audio`} className="max-w-[280px]"/>
                     ))}
                   </div>
+                  {(c.transcriptKeys || []).length > 0 && (
+                    <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                      {TRANSCRIPT_DOWNLOADS.map((d) => (
+                        <a key={d.format} href={`/api/calls/${c.sid}/transcript?format=${d.format}`} download className="text-brand-300 hover:underline">
+                          {d.label}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </td>
+                <td className="py-2">
+                  <Button type="button" onClick={() => toggleTranscript(c.sid)} className="px-3 py-1 text-xs">
+                    {openSid === c.sid ? 'Hide' : 'View'}
+                  </Button>
+                  {c.redactions && Object.keys(c.redactions).length > 0 && (
+                    <span className="mt-1 block text-xs text-neutral-500" title="PII redacted from the transcript">
+                      {Object.entries(c.redactions).map(([type, n]) => `${n} ${type}`).join(', ')} redacted
+                    </span>
+                  )}
                 </td>
               </tr>
+              {openSid === c.sid && (
+                <tr className="border-b border-neutral-900/60">
+                  <td colSpan={9} className="bg-neutral-950/60 px-3 py-3">
+                    {c.analysis?.status === 'completed' && (
+                      <div className="mb-3 rounded-lg border border-neutral-800 p-3 text-sm">
+                        <p className="mb-1">
+                          <span className="rounded bg-brand-600/20 px-1.5 py-0.5 text-xs text-brand-300">{c.analysis.disposition}</span>
+                        </p>
+                        <p className="text-neutral-300">{c.analysis.summary}</p>
+                        {Object.entries(c.analysis.data || {}).filter(([, v]) => v != null).map(([k, v]) => (
+                          <p key={k} className="text-xs text-neutral-400"><span className="text-neutral-500">{k}:</span> {String(v)}</p>
+                        ))}
+                      </div>
+                    )}
+                    {c.analysis?.status === 'failed' && (
+                      <p className="mb-3 text-xs text-amber-300">Post-call analysis failed: {c.analysis.error}</p>
+                    )}
+                    {turns === null ? (
+                      <p className="text-sm text-neutral-500">Loading transcript…</p>
+                    ) : turns.length === 0 ? (
+                      <p className="text-sm text-neutral-500">No transcript stored for this call.</p>
+                    ) : (
+                      <TranscriptView turns={turns} />
+                    )}
+                  </td>
+                </tr>
+              )}
+              </Fragment>
             ))}
           </tbody>
         </table>
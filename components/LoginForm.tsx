@@ -0,0 +1,52 @@
+"use client"
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import { safeNextPath } from '@/lib/auth'
+
+export default function LoginForm({ provider, next, error }: { provider: 'oidc' | 'local'; next?: string; error?: string }) {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json?.error || `Sign-in failed (${res.status})`)
+      window.location.assign(safeNextPath(next))
+    } catch (err: any) {
+      toast.error(err?.message || 'Sign-in failed')
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 rounded-xl border border-neutral-800 bg-neutral-950/60 p-6">
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {provider === 'oidc' && (
+        <a
+          href={`/api/auth/oidc/login?next=${encodeURIComponent(safeNextPath(next))}`}
+          className="block w-full rounded-md bg-brand-600 px-4 py-2 text-center text-sm font-medium text-white hover:bg-brand-500"
+        >
+          Sign in with SSO
+        </a>
+      )}
+      <form onSubmit={submit} className="space-y-3">
+        {provider === 'oidc' && <p className="text-xs text-neutral-500">Or use a local account:</p>}
+        <Input label="Email" type="email" autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} required />
+        <Input label="Password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+        <Button type="submit" disabled={busy || !email || !password} className="w-full">
+          {busy ? 'Signing in…' : 'Sign in'}
+        </Button>
+      </form>
+    </div>
+  )
+}
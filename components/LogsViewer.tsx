@@ -1,43 +1,108 @@
 "use client"
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+import { Select } from './ui/Select'
 
-type LogLine = { t: number; raw: string }
+type LogEntry = {
+  id: string
+  t: number
+  source: 'twilio' | 'openai' | 'bridge'
+  event: string
+  callSid?: string
+  streamSid?: string
+  data?: any
+}
+
+type LogLine = { t: number; raw: string; entry?: LogEntry }
 
 export default function LogsViewer() {
   const [lines, setLines] = useState<LogLine[]>([])
   const [connected, setConnected] = useState(false)
   const [paused, setPaused] = useState(false)
+  const [callSid, setCallSid] = useState('')
+  const [source, setSource] = useState('')
+  const [eventType, setEventType] = useState('')
+  const [replay, setReplay] = useState('5')
   const wsRef = useRef<WebSocket | null>(null)
+  const pausedRef = useRef(paused)
   const endRef = useRef<HTMLDivElement>(null)
 
+  pausedRef.current = paused
+
+  // Server-side filters apply on (re)connect; call and event filters are also applied locally below
+  const query = useMemo(() => {
+    const q = new URLSearchParams()
+    if (callSid.trim()) q.set('callSid', callSid.trim())
+    if (source) q.set('source', source)
+    if (eventType.trim()) q.set('event', eventType.trim())
+    q.set('replay', replay)
+    return q.toString()
+  }, [callSid, source, eventType, replay])
+
   useEffect(() => {
     const proto = window.location.protocol === 'https:' ? 'wss' : 'ws'
-    const url = `${proto}://${window.location.host}/api/stream/logs`
-    const ws = new WebSocket(url)
-    wsRef.current = ws
-    ws.onopen = () => setConnected(true)
-    ws.onclose = () => setConnected(false)
-    ws.onerror = () => setConnected(false)
-    ws.onmessage = (ev) => {
-      if (paused) return
-      const t = Date.now()
-      setLines((prev) => {
-        const next = [...prev, { t, raw: ev.data as string }]
-        // cap length to avoid runaway memory
-        if (next.length > 2000) next.splice(0, next.length - 2000)
-        return next
-      })
+    // Newest entry seen, so a reconnect resumes from it (?since=, inclusive) instead of replaying again
+    let last: { t: number; ids: Set<string> } | null = null
+    let disposed = false
+    let retry: ReturnType<typeof setTimeout> | null = null
+    setLines([])
+
+    const connect = () => {
+      const url = `${proto}://${window.location.host}/api/stream/logs?${query}${last ? `&since=${last.t}` : ''}`
+      const ws = new WebSocket(url)
+      wsRef.current = ws
+      ws.onopen = () => setConnected(true)
+      ws.onclose = () => {
+        setConnected(false)
+        if (!disposed) retry = setTimeout(connect, 2000)
+      }
+      ws.onerror = () => setConnected(false)
+      ws.onmessage = (ev) => {
+        const raw = ev.data as string
+        let entry: LogEntry | undefined
+        try { entry = JSON.parse(raw) } catch {}
+        if (entry?.id && typeof entry.t === 'number') {
+          if (last && (entry.t < last.t || (entry.t === last.t && last.ids.has(entry.id)))) return
+          if (!last || entry.t > last.t) last = { t: entry.t, ids: new Set() }
+          last.ids.add(entry.id)
+        }
+        if (pausedRef.current) return
+        setLines((prev) => {
+          const next = [...prev, { t: entry?.t || Date.now(), raw, entry }]
+          // cap length to avoid runaway memory
+          if (next.length > 2000) next.splice(0, next.length - 2000)
+          return next
+        })
+      }
     }
-    return () => { try { ws.close() } catch {} }
-  }, [paused])
+    connect()
+    return () => {
+      disposed = true
+      if (retry) clearTimeout(retry)
+      try { wsRef.current?.close() } catch {}
+    }
+  }, [query])
 
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [lines])
 
-  const pretty = (raw: string) => {
-    try { return JSON.stringify(JSON.parse(raw), null, 2) } catch { return raw }
+  const visible = useMemo(() => {
+    const sid = callSid.trim()
+    const ev = eventType.trim()
+    return lines.filter((l) => {
+      if (!l.entry) return true
+      if (sid && l.entry.callSid !== sid && l.entry.streamSid !== sid) return false
+      if (ev && !l.entry.event.startsWith(ev)) return false
+      return true
+    })
+  }, [lines, callSid, eventType])
+
+  const pretty = (l: LogLine) => {
+    if (!l.entry) return l.raw
+    const { data } = l.entry
+    return data && Object.keys(data).length > 0 ? JSON.stringify(data, null, 2) : ''
   }
 
   return (
@@ -50,13 +115,49 @@ export default function LogsViewer() {
           <Button type="button" onClick={() => setLines([])} className="px-3 py-1 text-xs">Clear</Button>
         </div>
       </div>
+      <div className="mb-3 grid grid-cols-1 gap-3 md:grid-cols-4">
+        <Input label="Call or Stream SID" placeholder="CA..." value={callSid} onChange={(e) => setCallSid(e.target.value)} />
+        <Select
+          label="Source"
+          options={[
+            { label: 'All', value: '' },
+            { label: 'Twilio', value: 'twilio' },
+            { label: 'OpenAI', value: 'openai' },
+            { label: 'Bridge', value: 'bridge' },
+          ]}
+          value={source}
+          onChange={setSource}
+        />
+        <Input label="Event type (prefix)" placeholder="response." value={eventType} onChange={(e) => setEventType(e.target.value)} />
+        <Select
+          label="Replay on connect"
+          options={[
+            { label: 'None', value: '0' },
+            { label: 'Last 1 minute', value: '1' },
+            { label: 'Last 5 minutes', value: '5' },
+            { label: 'Last 15 minutes', value: '15' },
+            { label: 'Last 30 minutes', value: '30' },
+          ]}
+          value={replay}
+          onChange={setReplay}
+        />
+      </div>
       <div className="h-[70vh] overflow-auto rounded border border-neutral-900 bg-neutral-950 p-3">
-        {lines.length === 0 && (
+        {visible.length === 0 && (
           <p className="text-sm text-neutral-500">Waiting for events… start or receive a call to see streaming logs.</p>
         )}
-        {lines.map((l, i) => (
-          <pre key={i} className="mb-2 whitespace-pre-wrap break-words text-xs leading-relaxed text-neutral-200">
-            <span className="text-neutral-500">[{new Date(l.t).toLocaleTimeString()}]</span> {pretty(l.raw)}
+        {visible.map((l, i) => (
+          <pre key={l.entry?.id || i} className="mb-2 whitespace-pre-wrap break-words text-xs leading-relaxed text-neutral-200">
+            <span className="text-neutral-500">[{new Date(l.t).toLocaleTimeString()}]</span>{' '}
+            {l.entry && (
+              <>
+                <span className="text-brand-400">{l.entry.source}</span>{' '}
+                <span className="font-semibold">{l.entry.event}</span>{' '}
+                {l.entry.callSid && <span className="text-neutral-500">{l.entry.callSid}</span>}
+                {'\n'}
+              </>
+            )}
+            {pretty(l)}
           </pre>
         ))}
         <div ref={endRef} />
@@ -64,4 +165,3 @@ export default function LogsViewer() {
     </section>
   )
 }
-
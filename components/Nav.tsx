@@ -1,9 +1,26 @@
 "use client"
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import type { Route } from 'next'
-import { PhoneCall, History, Bot } from 'lucide-react'
+import { PhoneCall, History, Bot, Megaphone, LogOut } from 'lucide-react'
+
+type Me = { email?: string; name?: string; role: string }
 
 export default function Nav() {
+  const [me, setMe] = useState<Me | null>(null)
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then((r) => (r.ok ? r.json() : null))
+      .then((j) => setMe(j?.user || null))
+      .catch(() => {})
+  }, [])
+
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => {})
+    window.location.assign('/login')
+  }
+
   return (
     <header className="sticky top-0 z-30 border-b border-neutral-800/60 bg-black/60 backdrop-blur">
       <div className="mx-auto flex max-w-7xl items-center justify-between px-4 py-4">
@@ -18,6 +35,9 @@ export default function Nav() {
           <Link href="/history" className="flex items-center gap-2 hover:text-white">
             <History className="h-4 w-4" /> Recordings
           </Link>
+          <Link href={'/campaigns' as Route} className="flex items-center gap-2 hover:text-white">
+            <Megaphone className="h-4 w-4" /> Campaigns
+          </Link>
           <Link href={'/logs' as Route} className="hidden items-center gap-2 hover:text-white sm:flex">
             <span className="inline-block h-2 w-2 rounded-full bg-emerald-500" /> Logs
           </Link>
@@ -29,6 +49,15 @@ export default function Nav() {
           >
             Docs
           </a>
+          {me && (
+            <span className="flex items-center gap-2 text-neutral-400">
+              <span className="hidden sm:inline">{me.name || me.email}</span>
+              <span className="rounded bg-neutral-800 px-1.5 py-0.5 text-xs uppercase tracking-wide text-neutral-300">{me.role}</span>
+              <button type="button" onClick={signOut} className="hover:text-white" title="Sign out">
+                <LogOut className="h-4 w-4" />
+              </button>
+            </span>
+          )}
         </nav>
       </div>
     </header>
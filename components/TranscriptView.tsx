@@ -0,0 +1,84 @@
+"use client"
+
+export type Turn = {
+  item_id: string
+  role: 'user' | 'assistant'
+  text: string
+  startMs: number
+  endMs?: number
+  final: boolean
+  interrupted?: boolean
+  truncated?: boolean
+}
+
+export type LiveTranscriptEvent = {
+  t: number
+  type: string
+  text: string
+  item_id?: string
+  role?: 'user' | 'assistant'
+  turn?: Turn
+  name?: string
+  ok?: boolean
+}
+
+type Entry =
+  | { kind: 'turn'; key: string; t?: number; turn: Turn }
+  | { kind: 'tool'; key: string; t: number; type: string; text: string }
+
+// Live events -> one entry per conversation item; deltas accumulate until the finalized turn arrives
+function eventsToEntries(events: LiveTranscriptEvent[]): Entry[] {
+  const entries: Entry[] = []
+  const byItem = new Map<string, Extract<Entry, { kind: 'turn' }>>()
+  events.forEach((e, i) => {
+    if (e.type.startsWith('tool.')) {
+      entries.push({ kind: 'tool', key: `tool-${i}`, t: e.t, type: e.type, text: e.text })
+      return
+    }
+    const itemId = e.turn?.item_id || e.item_id || `line-${i}`
+    let entry = byItem.get(itemId)
+    if (!entry) {
+      entry = { kind: 'turn', key: itemId, t: e.t, turn: { item_id: itemId, role: e.role || 'assistant', text: '', startMs: 0, final: false } }
+      byItem.set(itemId, entry)
+      entries.push(entry)
+    }
+    if (e.type === 'turn' && e.turn) entry.turn = e.turn
+    else if (!entry.turn.final) entry.turn = { ...entry.turn, text: entry.turn.text + e.text }
+  })
+  return entries
+}
+
+function formatOffset(ms: number) {
+  const s = Math.floor(ms / 1000)
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`
+}
+
+function TurnLine({ turn, t }: { turn: Turn; t?: number }) {
+  const stamp = t ? new Date(t).toLocaleTimeString() : formatOffset(turn.startMs)
+  return (
+    <p className={`whitespace-pre-wrap ${turn.final ? '' : 'text-neutral-400'}`}>
+      <span className="text-neutral-500">[{stamp}]</span>{' '}
+      <span className={turn.role === 'user' ? 'font-medium text-sky-300' : 'font-medium text-brand-300'}>{turn.role === 'user' ? 'Caller' : 'Agent'}:</span>{' '}
+      {turn.text}
+      {turn.interrupted && <span className="ml-2 rounded bg-amber-600/20 px-1 text-xs text-amber-300">interrupted</span>}
+      {turn.truncated && !turn.interrupted && <span className="ml-2 rounded bg-amber-600/20 px-1 text-xs text-amber-300">truncated</span>}
+    </p>
+  )
+}
+
+export default function TranscriptView({ events, turns }: { events?: LiveTranscriptEvent[]; turns?: Turn[] }) {
+  const entries: Entry[] = turns ? turns.map((turn) => ({ kind: 'turn' as const, key: turn.item_id, turn })) : eventsToEntries(events || [])
+  return (
+    <div className="space-y-2 text-sm leading-relaxed">
+      {entries.map((e) =>
+        e.kind === 'tool' ? (
+          <p key={e.key} className="whitespace-pre-wrap font-mono text-xs text-amber-300">
+            <span className="text-neutral-500">[{new Date(e.t).toLocaleTimeString()}]</span> {e.type === 'tool.call' ? '→ ' : '← '}{e.text}
+          </p>
+        ) : (
+          <TurnLine key={e.key} turn={e.turn} t={e.t} />
+        )
+      )}
+    </div>
+  )
+}
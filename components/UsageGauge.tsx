@@ -0,0 +1,54 @@
+"use client"
+import { useEffect, useState } from 'react'
+
+type Meter = { used: number; cap: number | null }
+type Usage = { date: string; sessions: Meter; minutes: Meter; driver?: 'redis' | 'memory'; warning?: string }
+
+function Gauge({ label, meter }: { label: string; meter: Meter }) {
+  const pct = meter.cap ? Math.min(100, Math.round((meter.used / meter.cap) * 100)) : 0
+  const color = pct >= 90 ? 'bg-red-500' : pct >= 70 ? 'bg-amber-500' : 'bg-emerald-500'
+  return (
+    <div className="min-w-[12rem] flex-1">
+      <div className="mb-1 flex justify-between text-xs text-neutral-400">
+        <span>{label}</span>
+        <span className="text-neutral-300">
+          {meter.used}
+          {meter.cap ? ` / ${meter.cap}` : ' (no cap)'}
+        </span>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-neutral-800">
+        <div className={`h-full ${color}`} style={{ width: `${meter.cap ? pct : 0}%` }} />
+      </div>
+    </div>
+  )
+}
+
+// Today's spend against DAILY_SESSION_CAP and DAILY_CALL_MINUTES_CAP; refreshes every 30s
+export default function UsageGauge() {
+  const [usage, setUsage] = useState<Usage | null>(null)
+
+  useEffect(() => {
+    const load = () =>
+      fetch('/api/usage')
+        .then((r) => (r.ok ? r.json() : null))
+        .then((j) => j && setUsage(j))
+        .catch(() => {})
+    load()
+    const id = setInterval(load, 30000)
+    return () => clearInterval(id)
+  }, [])
+
+  if (!usage) return null
+  return (
+    <section className="mb-6 flex flex-wrap items-end gap-6 rounded-xl border border-neutral-800 bg-neutral-950/40 px-4 py-3">
+      <span className="text-xs uppercase tracking-wide text-neutral-500">Today ({usage.date} UTC)</span>
+      <Gauge label="Sessions minted" meter={usage.sessions} />
+      <Gauge label="Call minutes" meter={usage.minutes} />
+      {usage.warning && (
+        <p className="w-full text-xs text-amber-400" title={`Rate limit driver: ${usage.driver}`}>
+          {usage.warning}
+        </p>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,6 @@
+// Runs once when the server starts (experimental.instrumentationHook)
+export async function register() {
+  const { configErrors } = await import('./lib/config')
+  const errors = configErrors()
+  if (errors.length > 0) throw new Error(`Invalid configuration:\n- ${errors.join('\n- ')}`)
+}
@@ -0,0 +1,53 @@
+import crypto from 'crypto'
+import { AUTH_ROLE_HEADER, AUTH_USER_HEADER, isRole, roleAtLeast, type Role } from './auth'
+
+// Constant-time string comparison to prevent timing attacks
+export function timingSafeEqualStr(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return crypto.timingSafeEqual(bufA, bufB)
+}
+
+// Bearer REALTIME_CONTROL_ADMIN_SECRET check for scripts and other machine clients
+export function verifyAdminSecret(req: Request): boolean {
+  const admin = process.env.REALTIME_CONTROL_ADMIN_SECRET
+  if (!admin || admin.length < 32) return false // Require strong secret
+
+  const auth = req.headers.get('authorization') || ''
+  if (!auth.startsWith('Bearer ')) return false
+
+  const token = auth.slice(7)
+  return timingSafeEqualStr(token, admin)
+}
+
+// Role the middleware resolved from the session cookie (client-sent values are stripped there)
+export function requestRole(req: Request): Role | null {
+  const role = req.headers.get(AUTH_ROLE_HEADER)
+  return isRole(role) ? role : null
+}
+
+export function requestUser(req: Request): string | null {
+  return req.headers.get(AUTH_USER_HEADER)
+}
+
+// Signed-in user with at least `min`, or the admin bearer secret
+export function verifyRole(req: Request, min: Role): boolean {
+  const role = requestRole(req)
+  if (role && roleAtLeast(role, min)) return true
+  return verifyAdminSecret(req)
+}
+
+// Admin check shared by the admin APIs
+export function verifyAdmin(req: Request): boolean {
+  return verifyRole(req, 'admin')
+}
+
+// Bearer CRON_SECRET check for scheduler-driven routes (Vercel Cron sends this header)
+export function verifyCron(req: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret || secret.length < 16) return false
+  const auth = req.headers.get('authorization') || ''
+  if (!auth.startsWith('Bearer ')) return false
+  return timingSafeEqualStr(auth.slice(7), secret)
+}
@@ -0,0 +1,143 @@
+import { z } from 'zod'
+import { getJson, setJson, storeDriver } from './store'
+import { constantTimeEqual } from './auth'
+
+// Scoped API keys for backend jobs: `Authorization: Bearer vck_<id>_<secret>`.
+// Only a SHA-256 of the secret is stored. middleware.ts checks the key, its
+// expiry and revocation and the scope the route needs, so this module stays
+// Edge-safe (Web Crypto, store over kv/memory). The middleware runs on Edge and
+// cannot read the Node-only file store, so keys are not created on that driver.
+
+export const API_KEY_SCOPES = ['calls:create', 'calls:read', 'recordings:read', 'profiles:write'] as const
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+export const API_KEY_PREFIX = 'vck_'
+
+export type ApiKey = {
+  id: string
+  name: string
+  scopes: ApiKeyScope[]
+  hash: string
+  createdAt: string
+  createdBy?: string
+  expiresAt?: string
+  lastUsedAt?: string
+  revokedAt?: string
+}
+
+export const ApiKeyCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresAt: z.string().datetime().optional(),
+})
+
+const INDEX_KEY = 'apikeys:index'
+const recordKey = (id: string) => `apikey:${id}`
+
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60_000
+
+// Routes each scope opens; anything else is closed to API keys
+const SCOPE_ROUTES: Array<{ scope: ApiKeyScope; pattern: RegExp; methods: string[] }> = [
+  { scope: 'calls:create', pattern: /^\/api\/calls$/, methods: ['POST'] },
+  { scope: 'calls:read', pattern: /^\/api\/calls(\/[^/]+\/(transcript|analysis))?$/, methods: ['GET', 'HEAD'] },
+  { scope: 'recordings:read', pattern: /^\/api\/recordings(\/[^/]+\/audio)?$/, methods: ['GET', 'HEAD'] },
+  { scope: 'profiles:write', pattern: /^\/api\/realtime\/control\/settings(\/|$)/, methods: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'] },
+]
+
+export function requiredScope(pathname: string, method: string): ApiKeyScope | null {
+  const m = method.toUpperCase()
+  return SCOPE_ROUTES.find((r) => r.pattern.test(pathname) && r.methods.includes(m))?.scope || null
+}
+
+function randomToken(bytes: number) {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes))
+  return Array.from(buf, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+async function sha256Hex(s: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(s))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function parseApiKey(raw: string): { id: string; secret: string } | null {
+  const m = /^vck_([a-f0-9]{12})_([a-f0-9]{48})$/.exec(raw)
+  return m ? { id: m[1], secret: m[2] } : null
+}
+
+// The secret's hash never leaves the server
+export function publicApiKey(k: ApiKey) {
+  const { hash: _hash, ...rest } = k
+  return { ...rest, status: apiKeyStatus(k) }
+}
+
+export function apiKeyStatus(k: ApiKey, now = new Date()): 'active' | 'expired' | 'revoked' {
+  if (k.revokedAt) return 'revoked'
+  if (k.expiresAt && Date.parse(k.expiresAt) <= now.getTime()) return 'expired'
+  return 'active'
+}
+
+export async function getApiKey(id: string) {
+  return getJson<ApiKey>(recordKey(id))
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const ids = (await getJson<string[]>(INDEX_KEY)) || []
+  const keys = await Promise.all(ids.map(getApiKey))
+  return keys.filter((k): k is ApiKey => !!k)
+}
+
+// The plaintext key is only returned here
+export async function createApiKey(input: z.infer<typeof ApiKeyCreateSchema>, createdBy?: string, now = new Date()) {
+  if (storeDriver() === 'file') {
+    const err: any = new Error('API keys need a store the middleware can read: configure KV (KV_REST_API_URL/KV_REST_API_TOKEN or STORE_DRIVER=kv)')
+    err.status = 503
+    throw err
+  }
+  if (input.expiresAt && Date.parse(input.expiresAt) <= now.getTime()) {
+    const err: any = new Error('expiresAt must be in the future')
+    err.status = 400
+    throw err
+  }
+  const id = randomToken(6)
+  const secret = randomToken(24)
+  const key: ApiKey = {
+    id,
+    name: input.name,
+    scopes: Array.from(new Set(input.scopes)),
+    hash: await sha256Hex(secret),
+    createdAt: now.toISOString(),
+    ...(createdBy && { createdBy }),
+    ...(input.expiresAt && { expiresAt: new Date(input.expiresAt).toISOString() }),
+  }
+  await setJson(recordKey(id), key)
+  await setJson(INDEX_KEY, [...((await getJson<string[]>(INDEX_KEY)) || []), id])
+  return { key, token: `${API_KEY_PREFIX}${id}_${secret}` }
+}
+
+// Revoked keys are kept for the audit trail
+export async function revokeApiKey(id: string, now = new Date()) {
+  const key = await getApiKey(id)
+  if (!key) return null
+  if (!key.revokedAt) {
+    key.revokedAt = now.toISOString()
+    await setJson(recordKey(id), key)
+  }
+  return key
+}
+
+export type ApiKeyCheck = { ok: true; key: ApiKey } | { ok: false; status: 401 | 403; error: string }
+
+// Validates a bearer token for one scope and records its use
+export async function verifyApiKey(raw: string, scope: ApiKeyScope | null, now = new Date()): Promise<ApiKeyCheck> {
+  const parsed = parseApiKey(raw)
+  const key = parsed && (await getApiKey(parsed.id))
+  if (!parsed || !key || !constantTimeEqual(await sha256Hex(parsed.secret), key.hash)) return { ok: false, status: 401, error: 'Invalid API key' }
+  const status = apiKeyStatus(key, now)
+  if (status !== 'active') return { ok: false, status: 401, error: `API key ${status}` }
+  if (!scope || !key.scopes.includes(scope)) return { ok: false, status: 403, error: scope ? `API key lacks scope ${scope}` : 'API keys cannot access this route' }
+  if (!key.lastUsedAt || now.getTime() - Date.parse(key.lastUsedAt) >= LAST_USED_RESOLUTION_MS) {
+    await setJson(recordKey(key.id), { ...key, lastUsedAt: now.toISOString() })
+  }
+  return { ok: true, key }
+}
@@ -0,0 +1,170 @@
+import { isProd } from './config'
+
+// Dashboard and API authentication. Users sign in with a local account or an
+// OIDC provider; either way they get an HMAC-signed session cookie carrying
+// their role. middleware.ts checks every request against the access table
+// below and forwards the resolved role to route handlers in request headers.
+// Everything here uses Web Crypto so the middleware (Edge runtime) can run it.
+
+export const ROLES = ['viewer', 'operator', 'admin'] as const
+export type Role = (typeof ROLES)[number]
+
+export type SessionUser = {
+  sub: string
+  email?: string
+  name?: string
+  role: Role
+  provider: 'local' | 'oidc'
+}
+
+export type Session = SessionUser & { iat: number; exp: number }
+
+export const SESSION_COOKIE = 'vc_session'
+// Set by the middleware only; any client-sent value is stripped first
+export const AUTH_ROLE_HEADER = 'x-auth-role'
+export const AUTH_USER_HEADER = 'x-auth-user'
+
+export function isRole(v: unknown): v is Role {
+  return typeof v === 'string' && (ROLES as readonly string[]).includes(v)
+}
+
+export function roleAtLeast(role: Role, min: Role) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(min)
+}
+
+// AUTH_SECRET signs session cookies; without it auth is off outside production
+export function authSecret() {
+  const s = process.env.AUTH_SECRET
+  return s && s.length >= 32 ? s : null
+}
+
+export function sessionTtlSeconds() {
+  const hours = parseFloat(process.env.AUTH_SESSION_TTL_HOURS || '12')
+  return Math.round((Number.isFinite(hours) && hours > 0 ? hours : 12) * 3600)
+}
+
+export function authProvider(): 'oidc' | 'local' {
+  return process.env.OIDC_ISSUER ? 'oidc' : 'local'
+}
+
+// Constant-time compare without node crypto (Edge)
+export function constantTimeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+const enc = new TextEncoder()
+
+function base64url(bytes: Uint8Array) {
+  let bin = ''
+  for (const b of Array.from(bytes)) bin += String.fromCharCode(b)
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64url(s: string) {
+  const bin = atob(s.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (s.length % 4)) % 4))
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0))
+}
+
+async function hmac(secret: string, data: string) {
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return base64url(new Uint8Array(await crypto.subtle.sign('HMAC', key, enc.encode(data))))
+}
+
+// <base64url(json)>.<base64url(hmac)>; also used for the short-lived OIDC state cookie
+export async function signToken(payload: Record<string, unknown>, secret: string) {
+  const body = base64url(enc.encode(JSON.stringify(payload)))
+  return `${body}.${await hmac(secret, body)}`
+}
+
+export async function verifyToken<T = any>(token: string | undefined | null, secret: string, now = Date.now()): Promise<T | null> {
+  if (!token) return null
+  const [body, sig] = token.split('.')
+  if (!body || !sig) return null
+  if (!constantTimeEqual(sig, await hmac(secret, body))) return null
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64url(body)))
+    if (typeof payload?.exp !== 'number' || payload.exp * 1000 <= now) return null
+    return payload as T
+  } catch {
+    return null
+  }
+}
+
+export async function createSession(user: SessionUser, secret: string, now = Date.now()) {
+  const iat = Math.floor(now / 1000)
+  const session: Session = { ...user, iat, exp: iat + sessionTtlSeconds() }
+  return { session, token: await signToken(session, secret) }
+}
+
+export async function verifySession(token: string | undefined | null, secret: string, now = Date.now()): Promise<Session | null> {
+  const s = await verifyToken<Session>(token, secret, now)
+  return s && typeof s.sub === 'string' && isRole(s.role) ? s : null
+}
+
+export function sessionCookie(token: string, maxAge = sessionTtlSeconds()) {
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${isProd ? '; Secure' : ''}`
+}
+
+export function clearSessionCookie() {
+  return sessionCookie('', 0)
+}
+
+// Only same-site paths are allowed as the post-login destination
+export function safeNextPath(next: string | null | undefined) {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
+}
+
+// Comma-separated email lists; matching is case-insensitive
+function emailsFromEnv(name: string) {
+  return (process.env[name] || '').split(',').map((s) => s.trim().toLowerCase()).filter(Boolean)
+}
+
+// Role for an OIDC identity: the highest role named in the role claim, then
+// AUTH_ADMIN_EMAILS / AUTH_OPERATOR_EMAILS, then AUTH_DEFAULT_ROLE (viewer).
+export function roleFromClaims(claims: Record<string, any>): Role {
+  const raw = claims[process.env.OIDC_ROLE_CLAIM || 'roles']
+  const named = (Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/[\s,]+/) : []).filter(isRole)
+  if (named.length) return named.reduce((best: Role, r: Role) => (roleAtLeast(r, best) ? r : best), 'viewer')
+  const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : ''
+  if (email && emailsFromEnv('AUTH_ADMIN_EMAILS').includes(email)) return 'admin'
+  if (email && emailsFromEnv('AUTH_OPERATOR_EMAILS').includes(email)) return 'operator'
+  const fallback = process.env.AUTH_DEFAULT_ROLE
+  return isRole(fallback) ? fallback : 'viewer'
+}
+
+// Access rules: 'public' routes authenticate themselves (Twilio signatures,
+// stream secrets, the sign-in flow). Otherwise the minimum role is required;
+// cron routes also let CRON_SECRET through, which the handler checks.
+export type RoutePolicy = { access: Role | 'public'; cron?: boolean }
+
+type Rule = RoutePolicy & { pattern: RegExp; methods?: string[] }
+
+const READ = ['GET', 'HEAD', 'OPTIONS']
+
+const RULES: Rule[] = [
+  { pattern: /^\/login$/, access: 'public' },
+  { pattern: /^\/api\/auth\/(login|logout|oidc\/[^/]+)$/, access: 'public' },
+  { pattern: /^\/api\/(twiml|twilio\/status|stream\/twilio|version)$/, access: 'public' },
+  { pattern: /^\/api\/realtime\/control$/, access: 'public' },
+  { pattern: /^\/api\/live\/[^/]+\/push$/, access: 'public' },
+  { pattern: /^\/api\/(campaigns\/tick|scheduled-calls\/dispatch|post-call\/dispatch)$/, access: 'operator', cron: true },
+  { pattern: /^\/api\/webhooks\/dispatch$/, access: 'admin', cron: true },
+  { pattern: /^\/api\/routing\/match$/, access: 'operator' },
+  // Agent profiles, routing, hours, webhooks, users, API keys and number setup are admin-only, reads included
+  { pattern: /^\/api\/(realtime\/control\/settings|routing|hours|webhooks|auth\/users|auth\/keys|twilio\/webhook)(\/|$)/, access: 'admin' },
+  // Placing calls
+  { pattern: /^\/api\/(calls|realtime-token)$/, methods: ['POST'], access: 'operator' },
+  { pattern: /^\/api\/(campaigns|scheduled-calls)(\/|$)/, methods: ['POST', 'PATCH', 'PUT', 'DELETE'], access: 'operator' },
+  { pattern: /^\/api\/calls\/[^/]+\/analysis$/, methods: ['POST'], access: 'operator' },
+  { pattern: /.*/, methods: READ, access: 'viewer' },
+]
+
+// Anything not listed above is a write and needs admin
+export function routePolicy(pathname: string, method: string): RoutePolicy {
+  const m = method.toUpperCase()
+  const rule = RULES.find((r) => r.pattern.test(pathname) && (!r.methods || r.methods.includes(m)))
+  return rule ? { access: rule.access, ...(rule.cron && { cron: true }) } : { access: 'admin' }
+}
@@ -0,0 +1,155 @@
+// Assistant playback tracking and caller interruption (barge-in) for the Media
+// Streams bridge, as a per-call state machine fed with OpenAI and Twilio events.
+// It returns the actions the bridge should take instead of sending anything
+// itself, so event sequences can be replayed in tests.
+//
+// - idle: no response in progress and no assistant audio left to play
+// - responding: a response is in progress, or its audio is still playing out
+// - interrupted: the caller spoke over the assistant; audio still arriving for
+//   the cut-off item is dropped until the next response starts
+//
+// Each assistant audio chunk is followed by a Twilio mark named after it.
+// Twilio acknowledges a mark once the audio before it has played, so the queue
+// of outstanding marks gives the milliseconds the caller actually heard. That
+// count drives truncation (audio_end_ms), "finished speaking" and talk time.
+
+export type BargeInPhase = 'idle' | 'responding' | 'interrupted'
+
+// Per-call totals, stored on the call record when the stream ends
+export type TalkTime = {
+  // Assistant audio the caller heard
+  assistantMs: number
+  // Assistant items played to the end
+  completed: number
+  // Assistant items cut off by the caller
+  interruptions: number
+}
+
+export type PendingMark = { name: string; itemId: string; ms: number }
+
+export type BargeInState = {
+  phase: BargeInPhase
+  // response.created seen without its response.done
+  responseActive: boolean
+  // Assistant item whose audio is being played, and its sent / heard milliseconds
+  itemId: string | null
+  sentMs: number
+  playedMs: number
+  // Audio of itemId was played and no finished or interruption has followed
+  speaking: boolean
+  // Chunks sent to Twilio whose marks are not acknowledged yet, oldest first
+  pendingMarks: PendingMark[]
+  markSeq: number
+  // Item cut off by the last interruption
+  truncatedItemId: string | null
+  talk: TalkTime
+}
+
+export type BargeInEvent =
+  | { type: 'response.created' }
+  | { type: 'response.done' }
+  | { type: 'audio'; itemId: string; ms: number }
+  | { type: 'mark'; name: string }
+  | { type: 'speech_started' }
+
+export type BargeInAction =
+  // Forward the audio chunk to Twilio, followed by a mark with this name
+  | { type: 'play'; mark: string }
+  // response.cancel to OpenAI
+  | { type: 'cancel' }
+  // Twilio clear: drop audio buffered for playback
+  | { type: 'clear' }
+  // conversation.item.truncate at what the caller heard
+  | { type: 'truncate'; itemId: string; audioEndMs: number }
+  // The response is done and the caller has heard all of its audio
+  | { type: 'finished'; itemId: string; playedMs: number }
+
+export function createBargeInState(): BargeInState {
+  return {
+    phase: 'idle',
+    responseActive: false,
+    itemId: null,
+    sentMs: 0,
+    playedMs: 0,
+    speaking: false,
+    pendingMarks: [],
+    markSeq: 0,
+    truncatedItemId: null,
+    talk: { assistantMs: 0, completed: 0, interruptions: 0 },
+  }
+}
+
+// Milliseconds of 8kHz G.711 μ-law audio in a base64 payload
+export function ulawDurationMs(b64: string) {
+  const padding = b64.endsWith('==') ? 2 : b64.endsWith('=') ? 1 : 0
+  return Math.floor(((b64.length * 3) / 4 - padding) / 8)
+}
+
+// Once nothing is in progress or left to play, the assistant has finished speaking
+function settle(state: BargeInState): BargeInAction[] {
+  if (state.phase !== 'responding' || state.responseActive || state.pendingMarks.length > 0) return []
+  state.phase = 'idle'
+  if (!state.speaking || !state.itemId) return []
+  state.speaking = false
+  state.talk.completed++
+  return [{ type: 'finished', itemId: state.itemId, playedMs: state.playedMs }]
+}
+
+export function applyBargeInEvent(state: BargeInState, event: BargeInEvent): BargeInAction[] {
+  switch (event.type) {
+    case 'response.created':
+      state.responseActive = true
+      state.phase = 'responding'
+      state.truncatedItemId = null
+      return []
+
+    case 'response.done':
+      state.responseActive = false
+      return settle(state)
+
+    case 'audio': {
+      // Deltas already in flight when the response was cancelled
+      if (state.phase === 'interrupted' || event.itemId === state.truncatedItemId) return []
+      if (event.itemId !== state.itemId) {
+        state.itemId = event.itemId
+        state.sentMs = 0
+        state.playedMs = 0
+      }
+      state.phase = 'responding'
+      state.speaking = true
+      state.sentMs += event.ms
+      const mark = `${event.itemId || 'audio'}:${++state.markSeq}`
+      state.pendingMarks.push({ name: mark, itemId: event.itemId, ms: event.ms })
+      return [{ type: 'play', mark }]
+    }
+
+    case 'mark': {
+      // Unknown names are marks of cleared audio, which Twilio returns unplayed
+      const idx = state.pendingMarks.findIndex((m) => m.name === event.name)
+      if (idx < 0) return []
+      // Acknowledgements arrive in order, so everything queued before this mark has played too
+      for (const m of state.pendingMarks.splice(0, idx + 1)) {
+        state.talk.assistantMs += m.ms
+        if (m.itemId === state.itemId) state.playedMs += m.ms
+      }
+      return settle(state)
+    }
+
+    case 'speech_started': {
+      if (state.phase !== 'responding') return []
+      const actions: BargeInAction[] = []
+      if (state.responseActive) actions.push({ type: 'cancel' })
+      if (state.pendingMarks.length > 0) {
+        actions.push({ type: 'clear' })
+        if (state.itemId) actions.push({ type: 'truncate', itemId: state.itemId, audioEndMs: state.playedMs })
+      }
+      if (state.speaking) state.talk.interruptions++
+      state.pendingMarks = []
+      state.speaking = false
+      state.truncatedItemId = state.itemId
+      state.responseActive = false
+      state.phase = 'interrupted'
+      return actions
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod'
+import { getJson, setJson } from './store'
+import { ProfileNameSchema } from './profiles'
+import { CLOCK_REGEX, defaultTimeZone, inClockRange, isValidTimeZone, parseClock, zonedParts } from './timezone'
+
+// Business hours for inbound calls. Evaluated in /api/twiml before a realtime
+// session is minted, so after-hours callers never cost a session.
+
+const TimeZone = z.string().refine(isValidTimeZone, 'Unknown time zone')
+
+const IntervalSchema = z.object({
+  start: z.string().regex(CLOCK_REGEX),
+  end: z.string().regex(CLOCK_REGEX),
+}).refine((i) => parseClock(i.start) < parseClock(i.end), { message: 'start must be before end' })
+
+const DaySchema = z.enum(['0', '1', '2', '3', '4', '5', '6'])
+
+export const HolidaySchema = z.object({
+  // YYYY-MM-DD for a single date, MM-DD to repeat every year
+  date: z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/),
+  name: z.string().max(128).optional(),
+  // Special opening hours for the day; omitted or empty means closed all day
+  hours: z.array(IntervalSchema).max(8).optional(),
+})
+
+export const ClosedActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('profile'), profile: ProfileNameSchema }),
+  z.object({
+    type: z.literal('voicemail'),
+    message: z.string().max(1000).optional(),
+    maxLengthSeconds: z.number().int().min(5).max(3600).optional(),
+  }),
+  z.object({ type: z.literal('say'), message: z.string().min(1).max(1000) }),
+])
+
+export const BusinessHoursSchema = z.object({
+  enabled: z.boolean().default(true),
+  timezone: TimeZone.optional(),
+  // Keyed by weekday, 0 = Sunday; a missing day is closed
+  weekly: z.record(DaySchema, z.array(IntervalSchema).max(8)).default({}),
+  holidays: z.array(HolidaySchema).max(366).default([]),
+  closed: ClosedActionSchema.default({ type: 'voicemail' }),
+})
+
+export type Holiday = z.infer<typeof HolidaySchema>
+export type ClosedAction = z.infer<typeof ClosedActionSchema>
+export type BusinessHours = z.infer<typeof BusinessHoursSchema>
+
+export type HoursStatus = {
+  open: boolean
+  timezone: string
+  localDate: string
+  localTime: string
+  holiday?: string
+}
+
+const HOURS_KEY = 'hours:schedule'
+
+function findHoliday(hours: BusinessHours, date: string) {
+  const monthDay = date.slice(5)
+  return hours.holidays.find((h) => h.date === date || h.date === monthDay)
+}
+
+export function evaluateBusinessHours(hours: BusinessHours, now: Date): HoursStatus {
+  const timezone = hours.timezone || defaultTimeZone()
+  const local = zonedParts(now, timezone)
+  const localTime = `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`
+  const base = { timezone, localDate: local.date, localTime }
+  if (!hours.enabled) return { open: true, ...base }
+  const holiday = findHoliday(hours, local.date)
+  const intervals = holiday ? holiday.hours || [] : hours.weekly[String(local.weekday) as keyof BusinessHours['weekly']] || []
+  const open = intervals.some((i) => inClockRange(local.minutes, i.start, i.end))
+  return { open, ...base, ...(holiday && { holiday: holiday.name || holiday.date }) }
+}
+
+export async function getBusinessHours(): Promise<BusinessHours | null> {
+  return getJson<BusinessHours>(HOURS_KEY)
+}
+
+export async function saveBusinessHours(hours: BusinessHours) {
+  await setJson(HOURS_KEY, hours)
+  return hours
+}
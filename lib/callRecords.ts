@@ -0,0 +1,170 @@
+import { deleteKey, getJson, getList, pushList, setJson, setJsonIfAbsent } from './store'
+import { mergeRedactionCounts, type RedactionCounts } from './redaction'
+import type { CallAnalysis } from './postCall'
+import type { TalkTime } from './bargeIn'
+
+// Our own record of every call, fed by Twilio status callbacks (/api/twilio/status),
+// call placement (lib/dialer), inbound TwiML and the stream bridge.
+
+export type CallLifecycleStatus = 'queued' | 'initiated' | 'ringing' | 'in-progress' | 'completed' | 'busy' | 'no-answer' | 'failed' | 'canceled'
+
+export type CallRecord = {
+  sid: string
+  direction?: string
+  from?: string
+  to?: string
+  status: CallLifecycleStatus
+  // ISO timestamp of each lifecycle status as reported by Twilio
+  timestamps: Partial<Record<CallLifecycleStatus, string>>
+  durationSeconds?: number
+  answeredBy?: string
+  profile?: string
+  recordingSids: string[]
+  // Start of the first recording (Twilio RecordingStartTime); transcript exports align to it
+  recordingStartedAt?: string
+  transcriptKeys: string[]
+  // PII redacted from this call's transcript and live events, by type (lib/redaction)
+  redactions?: RedactionCounts
+  // Post-call summary, disposition and extracted fields (lib/postCall)
+  analysis?: CallAnalysis
+  // Assistant audio the caller heard, from Twilio mark acknowledgements (lib/bargeIn)
+  talkTime?: TalkTime
+  createdAt: string
+  updatedAt: string
+}
+
+export type CallRecordPatch = Partial<Omit<CallRecord, 'sid' | 'timestamps' | 'recordingSids' | 'transcriptKeys' | 'redactions' | 'createdAt' | 'updatedAt'>> & {
+  recordingSid?: string
+  transcriptKey?: string
+  // Added to the record's redaction counts
+  redactions?: RedactionCounts
+  // When the status was reached; defaults to now
+  at?: string
+}
+
+// A store list of sids, newest last; LEGACY_INDEX_KEY is the JSON array used before it
+const INDEX_KEY = 'calls:list'
+const LEGACY_INDEX_KEY = 'calls:index'
+const recordKey = (sid: string) => `call:${sid}`
+const lockKey = (sid: string) => `call-lock:${sid}`
+// Upserts hold the lock for one read-modify-write; the TTL only matters if a holder dies
+const LOCK_SECONDS = 10
+const LOCK_RETRY_MS = 25
+const LOCK_WAIT_MS = 5000
+const FINAL: CallLifecycleStatus[] = ['completed', 'busy', 'no-answer', 'failed', 'canceled']
+const ORDER: CallLifecycleStatus[] = ['queued', 'initiated', 'ringing', 'in-progress']
+
+function maxRecords() {
+  const n = parseInt(process.env.CALL_RECORDS_MAX || '1000', 10)
+  return Number.isFinite(n) && n > 0 ? n : 1000
+}
+
+export function isFinalStatus(status: string) {
+  return (FINAL as string[]).includes(status)
+}
+
+// Callbacks can arrive out of order; never move a call backwards
+function statusRank(status: CallLifecycleStatus) {
+  return isFinalStatus(status) ? ORDER.length : ORDER.indexOf(status)
+}
+
+export function applyCallPatch(existing: CallRecord | null, sid: string, patch: CallRecordPatch, now = new Date()): CallRecord {
+  const { recordingSid, transcriptKey, at, status, recordingStartedAt, redactions, ...fields } = patch
+  const iso = now.toISOString()
+  const rec: CallRecord = existing
+    ? { ...existing, timestamps: { ...existing.timestamps }, recordingSids: [...existing.recordingSids], transcriptKeys: [...existing.transcriptKeys] }
+    : { sid, status: status || 'queued', timestamps: {}, recordingSids: [], transcriptKeys: [], createdAt: iso, updatedAt: iso }
+  for (const [k, v] of Object.entries(fields)) {
+    if (v !== undefined && v !== null && v !== '') (rec as any)[k] = v
+  }
+  if (status) {
+    if (!rec.timestamps[status]) rec.timestamps[status] = at || iso
+    if (!existing || statusRank(status) >= statusRank(rec.status)) rec.status = status
+  }
+  if (recordingSid && !rec.recordingSids.includes(recordingSid)) rec.recordingSids.push(recordingSid)
+  if (recordingStartedAt && (!rec.recordingStartedAt || recordingStartedAt < rec.recordingStartedAt)) rec.recordingStartedAt = recordingStartedAt
+  if (transcriptKey && !rec.transcriptKeys.includes(transcriptKey)) rec.transcriptKeys.push(transcriptKey)
+  if (redactions && Object.keys(redactions).length) rec.redactions = mergeRedactionCounts(rec.redactions || {}, redactions)
+  rec.updatedAt = iso
+  return rec
+}
+
+export async function getCallRecord(sid: string) {
+  return getJson<CallRecord>(recordKey(sid))
+}
+
+// Status callbacks, the dialer and the bridge patch the same record concurrently;
+// each read-modify-write runs under a per-call lock so no patch is lost
+async function withRecordLock<T>(sid: string, fn: () => Promise<T>): Promise<T> {
+  const owner = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+  const deadline = Date.now() + LOCK_WAIT_MS
+  while (!(await setJsonIfAbsent(lockKey(sid), owner, { ttlSeconds: LOCK_SECONDS }))) {
+    if (Date.now() >= deadline) {
+      const err: any = new Error(`Call record ${sid} is locked`)
+      err.status = 503
+      throw err
+    }
+    await new Promise((r) => setTimeout(r, LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS))
+  }
+  try {
+    return await fn()
+  } finally {
+    if ((await getJson<string>(lockKey(sid))) === owner) await deleteKey(lockKey(sid))
+  }
+}
+
+export async function upsertCallRecord(sid: string, patch: CallRecordPatch) {
+  const { rec, created } = await withRecordLock(sid, async () => {
+    const existing = await getCallRecord(sid)
+    const rec = applyCallPatch(existing, sid, patch)
+    await setJson(recordKey(sid), rec)
+    return { rec, created: !existing }
+  })
+  // The oldest records fall out of the index (their documents stay until overwritten)
+  if (created) await pushList(INDEX_KEY, sid, { max: maxRecords() })
+  return rec
+}
+
+// Newest first, without duplicates
+async function readIndex(): Promise<string[]> {
+  const sids = [...((await getJson<string[]>(LEGACY_INDEX_KEY)) || []), ...(await getList<string>(INDEX_KEY))].reverse()
+  return sids.filter((s, i) => sids.indexOf(s) === i)
+}
+
+export async function listCallRecords(limit = 50): Promise<CallRecord[]> {
+  const sids = (await readIndex()).slice(0, limit)
+  const recs = await Promise.all(sids.map((s) => getCallRecord(s)))
+  return recs.filter((r): r is CallRecord => !!r)
+}
+
+// Twilio sends RFC 2822 timestamps ("Tue, 04 Jun 2024 12:00:00 +0000")
+function toIso(ts?: string) {
+  if (!ts) return undefined
+  const d = new Date(ts)
+  return isNaN(d.getTime()) ? undefined : d.toISOString()
+}
+
+// Maps a Twilio call or recording status callback body to a record patch
+export function patchFromStatusCallback(params: Record<string, string>): { sid: string; patch: CallRecordPatch } | null {
+  const sid = params.CallSid
+  if (!sid) return null
+  if (params.RecordingSid) {
+    // Only finished recordings are playable
+    const done = !params.RecordingStatus || params.RecordingStatus === 'completed'
+    return { sid, patch: done ? { recordingSid: params.RecordingSid, recordingStartedAt: toIso(params.RecordingStartTime) } : {} }
+  }
+  const duration = parseInt(params.CallDuration || '', 10)
+  const status = params.CallStatus as CallLifecycleStatus | undefined
+  return {
+    sid,
+    patch: {
+      ...(status && [...ORDER, ...FINAL].includes(status) && { status }),
+      at: toIso(params.Timestamp),
+      direction: params.Direction,
+      from: params.From,
+      to: params.To,
+      answeredBy: params.AnsweredBy,
+      ...(Number.isFinite(duration) && { durationSeconds: duration }),
+    },
+  }
+}
@@ -0,0 +1,48 @@
+import { setJson, takeJson } from './store'
+
+// Opaque, single-use call tokens that stand in for minted Realtime client
+// secrets. TwiML and <Stream> URLs show up in Twilio's logs and debugger, so
+// they carry `ct_<hex>` and the secret stays in the store until the stream
+// bridge redeems it. Edge-safe: the bridge needs a store it shares with the
+// Node routes (kv).
+
+export const CALL_TOKEN_PREFIX = 'ct_'
+
+// What the bridge needs from the minted session. instructions are the ones the
+// session was minted with after {{var}} substitution, so session.update keeps them.
+export type CallTokenSession = { secret: string; instructions?: string }
+
+type CallTokenRecord = CallTokenSession & { createdAt: string }
+
+const tokenKey = (token: string) => `calltoken:${token}`
+
+// Long enough for an outbound call to ring out before the stream connects
+export function callTokenTtlSeconds() {
+  const n = parseInt(process.env.CALL_TOKEN_TTL_SECONDS || '', 10)
+  return Number.isFinite(n) && n > 0 ? n : 300
+}
+
+export function isCallToken(raw: string | null | undefined): raw is string {
+  return !!raw && /^ct_[a-f0-9]{32}$/.test(raw)
+}
+
+export async function issueCallToken(secret: string, opts: { instructions?: string; ttlSeconds?: number } = {}) {
+  const buf = crypto.getRandomValues(new Uint8Array(16))
+  const token = `${CALL_TOKEN_PREFIX}${Array.from(buf, (b) => b.toString(16).padStart(2, '0')).join('')}`
+  const record: CallTokenRecord = {
+    secret,
+    ...(opts.instructions && { instructions: opts.instructions }),
+    createdAt: new Date().toISOString(),
+  }
+  await setJson(tokenKey(token), record, { ttlSeconds: opts.ttlSeconds ?? callTokenTtlSeconds() })
+  return token
+}
+
+// Returns the session once, even to concurrent callers (atomic get-and-delete);
+// expired, unknown or already redeemed tokens give null
+export async function redeemCallToken(token: string | null | undefined): Promise<CallTokenSession | null> {
+  if (!isCallToken(token)) return null
+  const record = await takeJson<CallTokenRecord>(tokenKey(token))
+  if (!record) return null
+  return { secret: record.secret, ...(record.instructions && { instructions: record.instructions }) }
+}
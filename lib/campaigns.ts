@@ -0,0 +1,349 @@
+import { z } from 'zod'
+import { deleteKey, getJson, setJson, setJsonIfAbsent } from './store'
+import { ProfileNameSchema } from './profiles'
+import { EphemeralRequestSchema, type EphemeralRequest } from './validation'
+import { parseCsv } from './csv'
+import { placeOutboundCall } from './dialer'
+import { getTwilioClient } from './twilio'
+
+// Outbound campaigns: a contact list dialed with a concurrency cap and pacing.
+// Each tick reconciles in-flight calls against Twilio, schedules retries for
+// busy/no-answer, and dials the next eligible contacts. Ticks come from the
+// cron route or the dashboard; a per-campaign lock (SET NX with a TTL) keeps
+// overlapping ticks from dialing the same contacts twice.
+
+export type ContactStatus = 'pending' | 'dialing' | 'completed' | 'busy' | 'no-answer' | 'failed' | 'canceled'
+export type CampaignStatus = 'draft' | 'running' | 'paused' | 'completed'
+
+export type CallAttempt = {
+  callSid?: string
+  at: string
+  status: string
+  durationSeconds?: number
+  error?: string
+}
+
+export type CampaignContact = {
+  id: string
+  phone: string
+  vars: Record<string, string>
+  status: ContactStatus
+  attempts: CallAttempt[]
+  callSid?: string
+  nextAttemptAt?: number
+  // Final outcome of the contact; set when no more attempts will be made
+  disposition?: string
+}
+
+export type RetryPolicy = {
+  maxAttempts: number
+  delayMinutes: number
+  on: Array<'busy' | 'no-answer'>
+}
+
+export type Campaign = {
+  id: string
+  name: string
+  profile?: string
+  status: CampaignStatus
+  concurrency: number
+  pacingSeconds: number
+  retry: RetryPolicy
+  record: boolean
+  ephemeral: EphemeralRequest
+  contacts: CampaignContact[]
+  createdAt: string
+  updatedAt: string
+  lastDialAt?: number
+}
+
+export type CampaignProgress = {
+  total: number
+  done: number
+  counts: Record<ContactStatus, number>
+}
+
+export type CampaignSummary = Omit<Campaign, 'contacts' | 'ephemeral'> & { progress: CampaignProgress }
+
+export type CsvImportError = { line: number; error: string }
+
+export type CampaignDeps = {
+  dial: (campaign: Campaign, contact: CampaignContact) => Promise<{ callSid: string }>
+  fetchStatus: (callSid: string) => Promise<{ status: string; durationSeconds?: number }>
+}
+
+const MAX_CONTACTS = 5000
+const PHONE_COLUMNS = ['phone', 'phone_number', 'number', 'to']
+// Twilio call statuses that end an attempt
+const FINAL_STATUSES = new Set(['completed', 'busy', 'no-answer', 'failed', 'canceled'])
+
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).default(3),
+  delayMinutes: z.number().min(0).max(1440).default(30),
+  on: z.array(z.enum(['busy', 'no-answer'])).default(['busy', 'no-answer']),
+})
+
+export const CampaignCreateSchema = z.object({
+  name: z.string().min(1).max(128),
+  profile: ProfileNameSchema.optional(),
+  csv: z.string().min(1).max(2_000_000),
+  instructions: z.string().min(1).max(8000).default('You are a helpful assistant. Be concise and natural in your responses.'),
+  model: z.string().optional(),
+  concurrency: z.number().int().min(1).max(50).default(2),
+  pacingSeconds: z.number().int().min(0).max(3600).default(10),
+  retry: RetryPolicySchema.default({}),
+  record: z.boolean().default(true),
+})
+
+const INDEX_KEY = 'campaigns:index'
+const campaignKey = (id: string) => `campaign:${id}`
+const tickLockKey = (id: string) => `campaign-lock:${id}`
+// Outlives any tick; a crashed tick frees the campaign when it expires
+const TICK_LOCK_SECONDS = 120
+// Paced dials owed after an idle spell (e.g. a missed cron run) are capped at one tick's worth
+const PACING_WINDOW_MS = 60_000
+
+function normalizePhone(raw: string) {
+  const cleaned = raw.replace(/[\s().-]/g, '')
+  return /^\+[1-9]\d{1,14}$/.test(cleaned) ? cleaned : null
+}
+
+// Header row required; one phone column, every other column becomes a per-contact variable
+export function contactsFromCsv(text: string): { contacts: CampaignContact[]; errors: CsvImportError[] } {
+  const rows = parseCsv(text)
+  const errors: CsvImportError[] = []
+  if (rows.length === 0) return { contacts: [], errors: [{ line: 1, error: 'CSV is empty' }] }
+  const header = rows[0].map((h) => h.trim())
+  const phoneIdx = header.findIndex((h) => PHONE_COLUMNS.includes(h.toLowerCase()))
+  if (phoneIdx < 0) return { contacts: [], errors: [{ line: 1, error: `Missing phone column (${PHONE_COLUMNS.join(', ')})` }] }
+  const seen = new Set<string>()
+  const contacts: CampaignContact[] = []
+  for (let r = 1; r < rows.length; r++) {
+    const row = rows[r]
+    const phone = normalizePhone(row[phoneIdx] || '')
+    if (!phone) {
+      errors.push({ line: r + 1, error: `Invalid phone number "${row[phoneIdx] || ''}"` })
+      continue
+    }
+    if (seen.has(phone)) {
+      errors.push({ line: r + 1, error: `Duplicate phone number ${phone}` })
+      continue
+    }
+    if (contacts.length >= MAX_CONTACTS) {
+      errors.push({ line: r + 1, error: `More than ${MAX_CONTACTS} contacts` })
+      break
+    }
+    seen.add(phone)
+    const vars: Record<string, string> = {}
+    header.forEach((h, i) => {
+      if (i !== phoneIdx && h) vars[h] = (row[i] || '').trim()
+    })
+    contacts.push({ id: String(contacts.length + 1), phone, vars, status: 'pending', attempts: [] })
+  }
+  return { contacts, errors }
+}
+
+export function campaignProgress(c: Campaign): CampaignProgress {
+  const counts: Record<ContactStatus, number> = { pending: 0, dialing: 0, completed: 0, busy: 0, 'no-answer': 0, failed: 0, canceled: 0 }
+  for (const contact of c.contacts) counts[contact.status]++
+  return { total: c.contacts.length, done: c.contacts.length - counts.pending - counts.dialing, counts }
+}
+
+export function summarizeCampaign(c: Campaign): CampaignSummary {
+  const { contacts: _contacts, ephemeral: _ephemeral, ...rest } = c
+  return { ...rest, progress: campaignProgress(c) }
+}
+
+export function createCampaign(input: z.infer<typeof CampaignCreateSchema>, contacts: CampaignContact[], now = new Date()): Campaign {
+  const ephemeral = EphemeralRequestSchema.parse({
+    expires_after: { anchor: 'created_at', seconds: 600 },
+    session: { type: 'realtime', model: input.model || process.env.REALTIME_DEFAULT_MODEL || 'gpt-realtime', instructions: input.instructions },
+  })
+  return {
+    id: `cmp_${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name,
+    ...(input.profile && { profile: input.profile }),
+    status: 'draft',
+    concurrency: input.concurrency,
+    pacingSeconds: input.pacingSeconds,
+    retry: input.retry,
+    record: input.record,
+    ephemeral,
+    contacts,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  }
+}
+
+function finishAttempt(c: Campaign, contact: CampaignContact, result: { status: string; durationSeconds?: number }, now: number) {
+  const attempt = contact.attempts[contact.attempts.length - 1]
+  if (attempt) {
+    attempt.status = result.status
+    if (result.durationSeconds != null) attempt.durationSeconds = result.durationSeconds
+  }
+  contact.callSid = undefined
+  const retryable = (c.retry.on as string[]).includes(result.status)
+  if (retryable && contact.attempts.length < c.retry.maxAttempts) {
+    contact.status = 'pending'
+    contact.nextAttemptAt = now + c.retry.delayMinutes * 60_000
+    return
+  }
+  contact.status = result.status as ContactStatus
+  contact.disposition = result.status
+  contact.nextAttemptAt = undefined
+}
+
+export async function tickCampaign(c: Campaign, deps: CampaignDeps, now = Date.now()): Promise<Campaign> {
+  // 1) Reconcile in-flight calls (also while paused, so progress stays accurate)
+  for (const contact of c.contacts) {
+    if (contact.status !== 'dialing' || !contact.callSid) continue
+    try {
+      const result = await deps.fetchStatus(contact.callSid)
+      if (FINAL_STATUSES.has(result.status)) finishAttempt(c, contact, result, now)
+    } catch (e: any) {
+      console.error('Campaign status fetch failed', contact.callSid, e?.message || e)
+    }
+  }
+
+  // 2) Dial eligible contacts within the concurrency cap and pacing
+  if (c.status === 'running') {
+    let slots = c.concurrency - c.contacts.filter((x) => x.status === 'dialing').length
+    // Pacing: one dial per interval. A tick places every dial that came due since the last one
+    // (ticks run a minute apart), but credit builds up for at most PACING_WINDOW_MS.
+    const interval = c.pacingSeconds * 1000
+    let pacedFrom = 0
+    if (interval > 0) {
+      pacedFrom = c.lastDialAt == null ? now - interval : Math.max(c.lastDialAt, now - Math.max(PACING_WINDOW_MS, interval))
+      slots = Math.min(slots, Math.floor((now - pacedFrom) / interval))
+    }
+    for (const contact of c.contacts) {
+      if (slots <= 0) break
+      if (contact.status !== 'pending' || (contact.nextAttemptAt && contact.nextAttemptAt > now)) continue
+      slots--
+      // Each paced dial takes the next interval, so the remainder carries over to the next tick
+      c.lastDialAt = interval > 0 ? (pacedFrom += interval) : now
+      try {
+        const { callSid } = await deps.dial(c, contact)
+        contact.status = 'dialing'
+        contact.callSid = callSid
+        contact.attempts.push({ callSid, at: new Date(now).toISOString(), status: 'initiated' })
+      } catch (e: any) {
+        // Rate limits and spend caps postpone the contact without using an attempt
+        if (e?.status === 429) {
+          contact.nextAttemptAt = now + (e.retryAfter || 60) * 1000
+          break
+        }
+        contact.attempts.push({ at: new Date(now).toISOString(), status: 'failed', error: e?.message || String(e) })
+        contact.status = 'failed'
+        contact.disposition = 'failed'
+      }
+    }
+    if (c.contacts.every((x) => x.status !== 'pending' && x.status !== 'dialing')) c.status = 'completed'
+  }
+  c.updatedAt = new Date(now).toISOString()
+  return c
+}
+
+export function defaultCampaignDeps(baseUrl: string): CampaignDeps {
+  return {
+    dial: (c, contact) =>
+      placeOutboundCall({
+        toNumber: contact.phone,
+        ephemeral: c.ephemeral,
+        record: c.record,
+        profile: c.profile,
+        vars: contact.vars,
+        baseUrl,
+      }),
+    fetchStatus: async (callSid) => {
+      const call = await getTwilioClient().calls(callSid).fetch()
+      const duration = call.duration ? parseInt(call.duration, 10) : undefined
+      return { status: call.status, ...(Number.isFinite(duration) && { durationSeconds: duration }) }
+    },
+  }
+}
+
+async function readIndex(): Promise<string[]> {
+  return (await getJson<string[]>(INDEX_KEY)) || []
+}
+
+export async function getCampaign(id: string) {
+  return getJson<Campaign>(campaignKey(id))
+}
+
+export async function saveCampaign(c: Campaign) {
+  await setJson(campaignKey(c.id), c)
+  const index = await readIndex()
+  if (!index.includes(c.id)) await setJson(INDEX_KEY, [...index, c.id])
+  return c
+}
+
+export async function listCampaigns(): Promise<CampaignSummary[]> {
+  const ids = await readIndex()
+  const campaigns = await Promise.all(ids.map((id) => getCampaign(id)))
+  return campaigns.filter((c): c is Campaign => !!c).map(summarizeCampaign)
+}
+
+export async function deleteCampaign(id: string) {
+  const existing = await getCampaign(id)
+  if (!existing) return false
+  await deleteKey(campaignKey(id))
+  await setJson(INDEX_KEY, (await readIndex()).filter((x) => x !== id))
+  return true
+}
+
+// Status transitions from the dashboard/API; returns null when the transition is not allowed
+export async function setCampaignStatus(id: string, action: 'start' | 'pause' | 'resume') {
+  const c = await getCampaign(id)
+  if (!c) return null
+  const allowed = action === 'start' ? c.status === 'draft' : action === 'pause' ? c.status === 'running' : c.status === 'paused'
+  if (!allowed) return null
+  c.status = action === 'pause' ? 'paused' : 'running'
+  c.updatedAt = new Date().toISOString()
+  return saveCampaign(c)
+}
+
+// Runs fn while holding the campaign's tick lock; null when another tick holds it
+async function withTickLock<T>(id: string, fn: () => Promise<T>): Promise<T | null> {
+  const owner = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+  if (!(await setJsonIfAbsent(tickLockKey(id), owner, { ttlSeconds: TICK_LOCK_SECONDS }))) return null
+  try {
+    return await fn()
+  } finally {
+    if ((await getJson<string>(tickLockKey(id))) === owner) await deleteKey(tickLockKey(id))
+  }
+}
+
+// Saves a ticked campaign, keeping a status change (pause/resume) or deletion made during the tick
+async function saveTicked(c: Campaign, statusBefore: CampaignStatus) {
+  const latest = await getCampaign(c.id)
+  if (!latest) return null
+  if (latest.status !== statusBefore) c.status = latest.status
+  return saveCampaign(c)
+}
+
+// Null when the campaign does not exist or another tick is running it
+export async function runCampaignTick(id: string, deps: CampaignDeps) {
+  return withTickLock(id, async () => {
+    const c = await getCampaign(id)
+    if (!c) return null
+    return saveTicked(await tickCampaign(c, deps), c.status)
+  })
+}
+
+// Cron entry point: tick every running or paused campaign with calls still in flight
+export async function tickAllCampaigns(deps: CampaignDeps) {
+  const ids = await readIndex()
+  const results: CampaignSummary[] = []
+  for (const id of ids) {
+    const saved = await withTickLock(id, async () => {
+      const c = await getCampaign(id)
+      if (!c) return null
+      const active = c.status === 'running' || c.contacts.some((x) => x.status === 'dialing')
+      if (!active) return null
+      return saveTicked(await tickCampaign(c, deps), c.status)
+    })
+    if (saved) results.push(summarizeCampaign(saved))
+  }
+  return results
+}
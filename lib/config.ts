@@ -10,3 +10,23 @@ export function allowClientCredsClient() {
   return process.env.NEXT_PUBLIC_ALLOW_CLIENT_CREDS === 'true'
 }
 
+// Media modes of /api/twiml. SIP mode was removed: its URI (sip:<secret>@sip.openai.com)
+// put the client secret in Twilio's logs, and a SIP URI cannot carry a call token.
+export type TwimlMode = 'stream' | 'simple'
+
+export function parseTwimlMode(raw?: string | null): TwimlMode | null {
+  const v = raw?.toLowerCase()
+  return v === 'stream' || v === 'simple' ? v : null
+}
+
+// Settings that stop the server at startup (instrumentation.ts) instead of failing calls later
+export function configErrors(env: Record<string, string | undefined> = process.env): string[] {
+  const errors: string[] = []
+  const mode = env.TWIML_DEFAULT_MODE
+  if (mode?.toLowerCase() === 'sip') {
+    errors.push('TWIML_DEFAULT_MODE=sip is no longer supported (the SIP URI exposed the client secret); unset it or use stream')
+  } else if (mode && !parseTwimlMode(mode)) {
+    errors.push(`TWIML_DEFAULT_MODE=${mode} is not a TwiML mode; use stream or simple`)
+  }
+  return errors
+}
@@ -0,0 +1,162 @@
+import type { EphemeralRequest } from './validation'
+import { createEphemeralClientSecret } from './openai'
+import { getTwilioClient, getTwilioFromNumber } from './twilio'
+import { getRealtimeControlSettings } from './realtimeControl'
+import { toRealtimeTools } from './httpTools'
+import { storeCallMedia } from './media'
+import { upsertCallRecord } from './callRecords'
+import { checkRateLimits, reserveSession } from './rateLimit'
+import { issueCallToken } from './callTokens'
+import { machineDetectionTimeoutSeconds } from './greeting'
+import { storeDriver } from './store'
+
+// Outbound call placement shared by /api/calls, campaigns and scheduled calls.
+// Mints the ephemeral secret right before dialing so it is fresh when Twilio fetches TwiML.
+// The secret stays server-side; Twilio only sees a single-use call token.
+
+export type DialRequest = {
+  toNumber: string
+  ephemeral: EphemeralRequest
+  record?: boolean
+  // Agent profile to apply; defaults to the active profile
+  profile?: string | null
+  // Values for {{name}} placeholders in the instructions
+  vars?: Record<string, string>
+  baseUrl: string
+  openaiKey?: string
+  twilio?: { sid?: string; token?: string; from?: string }
+}
+
+export type DialResult = {
+  callSid: string
+  url: string
+  // When the minted Realtime session expires (epoch seconds)
+  expires_at?: number
+}
+
+// Answering-machine detection for outbound calls: TWILIO_MACHINE_DETECTION=Enable|DetectMessageEnd
+export function machineDetectionMode(): 'Enable' | 'DetectMessageEnd' | null {
+  const v = process.env.TWILIO_MACHINE_DETECTION
+  return v === 'Enable' || v === 'DetectMessageEnd' ? v : null
+}
+
+export function fillTemplate(text: string, vars?: Record<string, string>) {
+  if (!vars) return text
+  return text.replace(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g, (m, k) => (k in vars ? vars[k] : m))
+}
+
+export async function buildCallSession(ephemeral: EphemeralRequest, profile?: string | null, vars?: Record<string, string>) {
+  // Deep clone so callers (and stored jobs) keep their original payload
+  const payload: EphemeralRequest = JSON.parse(JSON.stringify(ephemeral))
+  const customSettings = await getRealtimeControlSettings(profile)
+  if (payload?.session) {
+    // Ensure audio formats are set for telephony
+    payload.session.input_audio_format = 'g711_ulaw'
+    payload.session.output_audio_format = 'g711_ulaw'
+    payload.session.modalities = ['audio', 'text']
+
+    // Priority: saved profile settings > request body > environment defaults
+    if (customSettings) {
+      const mergedSession: any = {
+        ...payload.session,
+        ...(customSettings.voice && { voice: customSettings.voice }),
+        ...(customSettings.instructions && { instructions: customSettings.instructions }),
+        // Note: temperature and max_response_output_tokens are not supported in ephemeral token creation
+        // These parameters can only be set via server-side session.update after connection
+        ...(customSettings.turn_detection && { turn_detection: customSettings.turn_detection }),
+        ...(customSettings.tools && { tools: toRealtimeTools(customSettings.tools) }),
+        ...(customSettings.tool_choice && { tool_choice: customSettings.tool_choice as any }),
+        ...(customSettings.input_audio_transcription && { input_audio_transcription: customSettings.input_audio_transcription }),
+      }
+      payload.session = mergedSession
+    }
+    if (payload.session.instructions) payload.session.instructions = fillTemplate(payload.session.instructions, vars)
+  }
+  return payload
+}
+
+export async function placeOutboundCall(req: DialRequest): Promise<DialResult> {
+  const openaiKey = req.openaiKey || process.env.OPENAI_API_KEY
+  if (!openaiKey) {
+    const err: any = new Error('OpenAI API key missing')
+    err.status = 400
+    throw err
+  }
+  const from = getTwilioFromNumber(req.twilio?.from)
+  if (!from) {
+    const err: any = new Error('Twilio from number missing')
+    err.status = 400
+    throw err
+  }
+
+  // Per-number bucket and daily caps apply to every dialer (API, campaigns, schedules)
+  await checkRateLimits({ number: req.toNumber })
+  await reserveSession()
+
+  const payload = await buildCallSession(req.ephemeral, req.profile, req.vars)
+  const eph = await createEphemeralClientSecret(openaiKey, payload)
+  // The bridge's session.update would otherwise replace the filled-in instructions with the profile's
+  const callToken = await issueCallToken(eph.client_secret.value, { instructions: payload.session?.instructions })
+
+  const client = getTwilioClient({ sid: req.twilio?.sid, token: req.twilio?.token })
+  // Use stream mode if TWILIO_WEBSOCKET_URL is configured, otherwise simple mode
+  const mode = process.env.TWILIO_WEBSOCKET_URL ? 'stream' : 'simple'
+  const profileParam = req.profile ? `&profile=${encodeURIComponent(req.profile)}` : ''
+  // Synchronous AMD finishes before Twilio fetches TwiML. Async AMD connects right away and
+  // reports to /api/twilio/status; amd=async tells the bridge to hold the greeting until then.
+  // The Edge bridge only sees that result through kv, so other drivers fall back to synchronous AMD.
+  const amd = machineDetectionMode()
+  let asyncAmd = !!amd && process.env.TWILIO_ASYNC_AMD === 'true'
+  if (asyncAmd && storeDriver() !== 'kv') {
+    console.warn(`TWILIO_ASYNC_AMD needs the kv store (driver is ${storeDriver()}); using synchronous AMD`)
+    asyncAmd = false
+  }
+  const twimlUrl = `${req.baseUrl}/api/twiml?token=${callToken}&mode=${mode}${profileParam}${asyncAmd ? '&amd=async' : ''}`
+
+  const callCreatePayload: any = {
+    to: req.toNumber,
+    from,
+    url: twimlUrl,
+    method: 'GET',
+  }
+  // Status callbacks feed our call records (/api/twilio/status) unless overridden
+  const statusCb = process.env.TWILIO_STATUS_CALLBACK_URL || `${req.baseUrl}/api/twilio/status`
+  callCreatePayload.statusCallback = statusCb
+  callCreatePayload.statusCallbackMethod = process.env.TWILIO_STATUS_CALLBACK_METHOD || 'POST'
+  callCreatePayload.statusCallbackEvent = (
+    process.env.TWILIO_STATUS_CALLBACK_EVENTS || 'initiated,ringing,answered,completed'
+  ).split(',').map((s) => s.trim()).filter(Boolean)
+  if (amd) {
+    callCreatePayload.machineDetection = amd
+    callCreatePayload.machineDetectionTimeout = machineDetectionTimeoutSeconds()
+    if (asyncAmd) {
+      callCreatePayload.asyncAmd = 'true'
+      callCreatePayload.asyncAmdStatusCallback = `${req.baseUrl}/api/twilio/status`
+      callCreatePayload.asyncAmdStatusCallbackMethod = 'POST'
+    }
+  }
+  if (req.record ?? true) {
+    callCreatePayload.record = true
+    callCreatePayload.recordingChannels = 'dual'
+    callCreatePayload.recordingStatusCallback = `${req.baseUrl}/api/twilio/status`
+    callCreatePayload.recordingStatusCallbackMethod = 'POST'
+  } else {
+    callCreatePayload.record = false
+  }
+
+  const call = await client.calls.create(callCreatePayload)
+  await upsertCallRecord(call.sid, {
+    status: 'queued',
+    direction: 'outbound-api',
+    from,
+    to: req.toNumber,
+    ...(req.profile && { profile: req.profile }),
+  }).catch((e) => console.error('Failed to create call record', e?.message || e))
+
+  // Uploaded images are not accepted by the token endpoint; the stream bridge picks them up by CallSid
+  await storeCallMedia(call.sid, req.ephemeral.session.embedded_media).catch((e) => {
+    console.error('Failed to store call media', e?.message || e)
+  })
+
+  return { callSid: call.sid, url: twimlUrl, expires_at: eph.client_secret.expires_at }
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod'
+
+// Opening line spoken by the agent as soon as the call is bridged, instead of
+// waiting for the caller to talk first. Set per agent profile and per call
+// direction; the Media Streams bridge sends it once session.updated confirms
+// the profile's session (and, for outbound calls, once answering-machine
+// detection has finished).
+// - text: spoken as written
+// - instruction: tells the model what to open with, in its own words
+
+export const GreetingSchema = z.object({
+  type: z.enum(['text', 'instruction']),
+  text: z.string().trim().min(1).max(1000),
+})
+
+export const GreetingConfigSchema = z.object({
+  inbound: GreetingSchema.optional(),
+  outbound: GreetingSchema.optional(),
+})
+
+export type Greeting = z.infer<typeof GreetingSchema>
+export type GreetingConfigInput = z.infer<typeof GreetingConfigSchema>
+
+export type CallDirection = 'inbound' | 'outbound'
+
+// Twilio reports outbound calls as outbound-api or outbound-dial
+export function callDirection(direction?: string | null): CallDirection {
+  return direction?.startsWith('outbound') ? 'outbound' : 'inbound'
+}
+
+export function resolveGreeting(config: GreetingConfigInput | null | undefined, direction: CallDirection): Greeting | null {
+  const parsed = GreetingConfigSchema.safeParse(config ?? {})
+  return (parsed.success && parsed.data[direction]) || null
+}
+
+// response.create that makes the model speak the greeting
+export function greetingResponse(greeting: Greeting) {
+  const instructions = greeting.type === 'text'
+    ? `Greet the caller by saying exactly the following, word for word, then stop and wait for their reply:\n${greeting.text}`
+    : greeting.text
+  return { type: 'response.create', response: { instructions } }
+}
+
+// Fax machines get no greeting; answering machines do (DetectMessageEnd waits for the beep)
+export function shouldGreet(answeredBy?: string | null) {
+  return answeredBy !== 'fax'
+}
+
+// Twilio's MachineDetectionTimeout in seconds (3-59, Twilio default 30). DetectMessageEnd
+// waits for the voicemail beep, so the result can take up to this long.
+export function machineDetectionTimeoutSeconds() {
+  const n = parseInt(process.env.TWILIO_MACHINE_DETECTION_TIMEOUT || '', 10)
+  return Number.isFinite(n) ? Math.min(59, Math.max(3, n)) : 30
+}
+
+// Time for the async AMD callback to reach the store after detection ends
+export const AMD_WAIT_MARGIN_MS = 3000
+export const AMD_POLL_MS = 500
+
+// How long the bridge holds the greeting for the async AMD result; past this it goes out anyway
+export function amdWaitMs() {
+  return machineDetectionTimeoutSeconds() * 1000 + AMD_WAIT_MARGIN_MS
+}
+
+export type AmdWaitDeps = {
+  // Current answeredBy of the call, if known yet
+  lookup: () => Promise<string | null | undefined>
+  // Stops waiting early, e.g. when the stream closes
+  stopped?: () => boolean
+  sleep?: (ms: number) => Promise<void>
+  now?: () => number
+}
+
+// Polls for the async AMD result; null when it does not arrive in time
+export async function waitForAnsweredBy(deps: AmdWaitDeps, timeoutMs = amdWaitMs(), pollMs = AMD_POLL_MS): Promise<string | null> {
+  const sleep = deps.sleep || ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)))
+  const now = deps.now || Date.now
+  const deadline = now() + timeoutMs
+  while (!deps.stopped?.() && now() < deadline) {
+    const answeredBy = await deps.lookup().catch(() => null)
+    if (answeredBy) return answeredBy
+    await sleep(Math.min(pollMs, Math.max(0, deadline - now())))
+  }
+  return null
+}
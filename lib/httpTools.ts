@@ -0,0 +1,108 @@
+import type { HttpToolDef } from './validation'
+
+// Runtime for `type: 'http'` tools defined in control settings.
+// The definition never reaches OpenAI as-is: toRealtimeTools() strips the
+// http block so the model only sees name, description and parameters.
+
+export function isHttpTool(tool: any): tool is HttpToolDef {
+  return !!tool && typeof tool === 'object' && tool.type === 'http' && !!tool.http
+}
+
+export function toRealtimeTools(tools: any[] | undefined) {
+  if (!Array.isArray(tools)) return []
+  return tools.map((t) => {
+    if (!isHttpTool(t)) return t
+    return { type: 'function', name: t.name, description: t.description, parameters: t.parameters }
+  })
+}
+
+export function findHttpTool(tools: any[] | undefined, name: string): HttpToolDef | undefined {
+  if (!Array.isArray(tools)) return undefined
+  return tools.find((t) => isHttpTool(t) && t.name === name)
+}
+
+function fillTemplate(template: string, args: Record<string, any>, used: Set<string>, encode: boolean) {
+  return template.replace(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g, (_, key: string) => {
+    used.add(key)
+    const v = args[key]
+    if (v == null) return ''
+    const s = typeof v === 'string' ? v : JSON.stringify(v)
+    return encode ? encodeURIComponent(s) : s
+  })
+}
+
+export function getPath(value: any, path: string) {
+  if (!path) return value
+  return path.split('.').reduce((acc, key) => (acc == null ? undefined : acc[key]), value)
+}
+
+export function mapResponse(body: any, mapping: HttpToolDef['http']['response']) {
+  if (!mapping) return body
+  if (mapping.fields && Object.keys(mapping.fields).length > 0) {
+    const out: Record<string, any> = {}
+    for (const [k, p] of Object.entries(mapping.fields)) out[k] = getPath(body, p)
+    return out
+  }
+  if (mapping.path) return getPath(body, mapping.path)
+  return body
+}
+
+function authHeaders(auth: HttpToolDef['http']['auth']): Record<string, string> {
+  if (!auth) return {}
+  const secret = process.env[auth.secret_ref]
+  if (!secret) throw new Error(`Secret ${auth.secret_ref} is not configured`)
+  if (auth.type === 'basic') return { Authorization: `Basic ${btoa(secret)}` }
+  if (auth.type === 'header') return { [auth.header || 'X-API-Key']: secret }
+  return { Authorization: `Bearer ${secret}` }
+}
+
+export function buildHttpToolRequest(def: HttpToolDef, args: Record<string, any>) {
+  const used = new Set<string>()
+  const url = new URL(fillTemplate(def.http.url, args, used, true))
+  const headers: Record<string, string> = {}
+  for (const [k, v] of Object.entries(def.http.headers || {})) {
+    headers[k] = fillTemplate(v, args, used, false)
+  }
+  Object.assign(headers, authHeaders(def.http.auth))
+
+  // Arguments not consumed by the templates travel as query (GET/DELETE) or JSON body
+  const rest: Record<string, any> = {}
+  for (const [k, v] of Object.entries(args || {})) {
+    if (!used.has(k)) rest[k] = v
+  }
+  let body: string | undefined
+  if (def.http.method === 'GET' || def.http.method === 'DELETE') {
+    for (const [k, v] of Object.entries(rest)) {
+      if (v != null) url.searchParams.set(k, typeof v === 'string' ? v : JSON.stringify(v))
+    }
+  } else {
+    body = JSON.stringify(rest)
+    if (!Object.keys(headers).some((h) => h.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json'
+    }
+  }
+  return { url: url.toString(), method: def.http.method, headers, body }
+}
+
+export async function runHttpTool(def: HttpToolDef, args: Record<string, any>) {
+  const req = buildHttpToolRequest(def, args)
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), def.http.timeout_ms)
+  let res: Response
+  let text: string
+  try {
+    res = await fetch(req.url, { method: req.method, headers: req.headers, body: req.body, signal: controller.signal })
+    text = await res.text()
+  } catch (e: any) {
+    if (controller.signal.aborted) throw new Error(`Tool ${def.name} timed out after ${def.http.timeout_ms}ms`)
+    throw e
+  } finally {
+    clearTimeout(timer)
+  }
+  let data: any = text
+  try { data = text ? JSON.parse(text) : null } catch {}
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status} from ${def.name}`)
+  }
+  return mapResponse(data, def.http.response)
+}
@@ -0,0 +1,234 @@
+import { z } from 'zod'
+import { signWebhookPayload } from './outboundWebhooks'
+
+// Live transcript storage: an append-only event stream per call, read by the
+// dashboard's SSE route. Entry ids follow Redis stream ids ("<ms>-<seq>") in
+// every driver, so they double as SSE event ids for Last-Event-ID resume.
+// Drivers:
+// - redis: node `redis` over REDIS_URL; reads block on XREAD (Node runtime only)
+// - kv: @vercel/kv / Upstash REST streams; reads poll
+// - memory: process-local, for local development and tests
+// Selected by LIVE_STORE_DRIVER, otherwise redis when REDIS_URL is set, kv when
+// KV credentials exist, else memory. On Edge the redis driver relays appends
+// through POST /api/live/{sid}/push, since Edge cannot open TCP connections.
+// Those pushes are signed like outbound webhooks (HMAC of `${timestamp}.${body}`)
+// with LIVE_PUSH_SECRET, else AUTH_SECRET; the route rejects unsigned ones.
+
+export type LiveStoreDriverName = 'redis' | 'kv' | 'memory'
+
+export type LiveEntry = { id: string; data: string }
+
+export type LiveReadOptions = {
+  // Return entries after this id; '0-0' reads from the start
+  afterId: string
+  // Wait up to this long for new entries when there are none; 0 returns immediately
+  blockMs?: number
+  // Aborting ends a blocked read early with no entries
+  signal?: AbortSignal
+  count?: number
+}
+
+export interface LiveStore {
+  readonly driver: LiveStoreDriverName
+  append(sid: string, data: string): Promise<string>
+  read(sid: string, opts: LiveReadOptions): Promise<LiveEntry[]>
+  close(): Promise<void>
+}
+
+export const LIVE_TTL_SECONDS = 60 * 30
+// Approximate cap on entries kept per call
+export const LIVE_MAX_ENTRIES = 5000
+const DEFAULT_COUNT = 100
+const KV_POLL_MS = 500
+const ENTRY_ID = /^\d+-\d+$/
+
+// Call/stream SIDs only; keeps arbitrary input out of store keys
+export const LiveSidSchema = z.string().regex(/^[A-Za-z0-9_-]{10,100}$/)
+
+export const liveStreamKey = (sid: string) => `live:${sid}`
+
+const KV_URL = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL
+const KV_TOKEN = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN
+
+export function liveStoreDriver(): LiveStoreDriverName {
+  const configured = (process.env.LIVE_STORE_DRIVER || '').toLowerCase()
+  if (configured === 'redis' || configured === 'kv' || configured === 'memory') return configured
+  if (process.env.REDIS_URL) return 'redis'
+  if (KV_URL && KV_TOKEN) return 'kv'
+  return 'memory'
+}
+
+// Start of the stream unless the client sent a well-formed id
+export function parseLastEventId(value?: string | null) {
+  return value && ENTRY_ID.test(value) ? value : '0-0'
+}
+
+export function formatSseEvent(id: string, event: string, data: string) {
+  const lines = data.split(/\r?\n/).map((l) => `data: ${l}`).join('\n')
+  return `id: ${id}\nevent: ${event}\n${lines}\n\n`
+}
+
+export function compareEntryIds(a: string, b: string) {
+  const [am, as] = a.split('-').map(Number)
+  const [bm, bs] = b.split('-').map(Number)
+  return am - bm || as - bs
+}
+
+// Resolves after ms, on abort, or when `wake` is called
+function pause(ms: number, signal?: AbortSignal, onWake?: (wake: () => void) => () => void) {
+  return new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve()
+    let unsubscribe = () => {}
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      unsubscribe()
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+    if (onWake) unsubscribe = onWake(done)
+  })
+}
+
+type MemoryStream = { entries: LiveEntry[]; expiresAt: number; waiters: Set<() => void> }
+
+// Process-wide so every route in a dev server sees the same streams
+const memoryStreams: Map<string, MemoryStream> = (globalThis as any).__memLiveStreams || new Map()
+;(globalThis as any).__memLiveStreams = memoryStreams
+let lastMemoryId = { ms: 0, seq: 0 }
+
+function memoryStream(sid: string) {
+  const key = liveStreamKey(sid)
+  let s = memoryStreams.get(key)
+  if (!s || (s.expiresAt && s.expiresAt <= Date.now())) {
+    // Expired streams start over; readers already waiting keep their place
+    s = { entries: [], expiresAt: 0, waiters: s?.waiters || new Set() }
+    memoryStreams.set(key, s)
+  }
+  return s
+}
+
+function nextMemoryId() {
+  const ms = Date.now()
+  lastMemoryId = ms > lastMemoryId.ms ? { ms, seq: 0 } : { ms: lastMemoryId.ms, seq: lastMemoryId.seq + 1 }
+  return `${lastMemoryId.ms}-${lastMemoryId.seq}`
+}
+
+export function createMemoryLiveStore(): LiveStore {
+  const readNow = (sid: string, afterId: string, count: number) =>
+    memoryStream(sid).entries.filter((e) => compareEntryIds(e.id, afterId) > 0).slice(0, count).map((e) => ({ ...e }))
+  return {
+    driver: 'memory',
+    async append(sid, data) {
+      const s = memoryStream(sid)
+      const id = nextMemoryId()
+      s.entries.push({ id, data })
+      if (s.entries.length > LIVE_MAX_ENTRIES) s.entries.splice(0, s.entries.length - LIVE_MAX_ENTRIES)
+      s.expiresAt = Date.now() + LIVE_TTL_SECONDS * 1000
+      for (const wake of Array.from(s.waiters)) wake()
+      return id
+    },
+    async read(sid, { afterId, blockMs = 0, signal, count = DEFAULT_COUNT }) {
+      const entries = readNow(sid, afterId, count)
+      if (entries.length || blockMs <= 0 || signal?.aborted) return entries
+      await pause(blockMs, signal, (wake) => {
+        const waiters = memoryStream(sid).waiters
+        waiters.add(wake)
+        return () => waiters.delete(wake)
+      })
+      return signal?.aborted ? [] : readNow(sid, afterId, count)
+    },
+    async close() {},
+  }
+}
+
+export async function createKvLiveStore(): Promise<LiveStore> {
+  // Lazy import to avoid bundling when unused
+  const { kv } = await import('@vercel/kv')
+  const readNow = async (sid: string, afterId: string, count: number) => {
+    const res = await kv.xrange(liveStreamKey(sid), `(${afterId}`, '+', count)
+    // Upstash deserializes JSON field values; hand back the raw string
+    return Object.entries(res || {}).map(([id, fields]) => {
+      const v = (fields as any)?.data
+      return { id, data: typeof v === 'string' ? v : JSON.stringify(v) }
+    })
+  }
+  return {
+    driver: 'kv',
+    async append(sid, data) {
+      const key = liveStreamKey(sid)
+      const id = await kv.xadd(key, '*', { data }, { trim: { type: 'MAXLEN', threshold: LIVE_MAX_ENTRIES, comparison: '~' } })
+      await kv.expire(key, LIVE_TTL_SECONDS)
+      return id
+    },
+    async read(sid, { afterId, blockMs = 0, signal, count = DEFAULT_COUNT }) {
+      // REST has no blocking reads; poll until something arrives or the wait is over
+      const deadline = Date.now() + blockMs
+      while (true) {
+        const entries = await readNow(sid, afterId, count)
+        if (entries.length || signal?.aborted) return signal?.aborted ? [] : entries
+        const left = deadline - Date.now()
+        if (left <= 0) return []
+        await pause(Math.min(KV_POLL_MS, left), signal)
+      }
+    },
+    async close() {},
+  }
+}
+
+export const LIVE_PUSH_SIGNATURE_HEADER = 'x-live-signature'
+export const LIVE_PUSH_TIMESTAMP_HEADER = 'x-live-timestamp'
+
+export function livePushSecret() {
+  return process.env.LIVE_PUSH_SECRET || process.env.AUTH_SECRET || ''
+}
+
+// Headers that authenticate a push of `body` to /api/live/{sid}/push
+export async function signLivePush(body: string, secret = livePushSecret(), now = Date.now()) {
+  if (!secret) throw new Error('LIVE_PUSH_SECRET or AUTH_SECRET is required to push live transcripts')
+  const timestamp = Math.floor(now / 1000).toString()
+  return {
+    [LIVE_PUSH_SIGNATURE_HEADER]: `v1=${await signWebhookPayload(secret, timestamp, body)}`,
+    [LIVE_PUSH_TIMESTAMP_HEADER]: timestamp,
+  }
+}
+
+// Edge-side redis driver: appends go through the Node push route; reads happen in the SSE route
+function createRelayLiveStore(): LiveStore {
+  return {
+    driver: 'redis',
+    async append(sid, data) {
+      const base = process.env.PUBLIC_BASE_URL
+      if (!base) throw new Error('PUBLIC_BASE_URL is required to publish to Redis from Edge')
+      const res = await fetch(`${base.replace(/\/$/, '')}/api/live/${encodeURIComponent(sid)}/push`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await signLivePush(data)) },
+        body: data,
+      })
+      const json: any = await res.json().catch(() => null)
+      if (!res.ok || !json?.id) throw new Error(json?.error || `Live push failed: ${res.status}`)
+      return json.id as string
+    },
+    async read() {
+      throw new Error('Redis live store cannot be read from Edge')
+    },
+    async close() {},
+  }
+}
+
+// Opens a store for the configured driver. Redis stores hold a connection; close them when done.
+export async function openLiveStore(driver = liveStoreDriver()): Promise<LiveStore> {
+  if (driver === 'kv') return createKvLiveStore()
+  if (driver === 'redis') {
+    if (process.env.NEXT_RUNTIME === 'edge') return createRelayLiveStore()
+    const { createRedisLiveStore } = await import('./liveStoreRedis')
+    return createRedisLiveStore()
+  }
+  return createMemoryLiveStore()
+}
+
+// Test helper
+export function resetMemoryLiveStore() {
+  memoryStreams.clear()
+}
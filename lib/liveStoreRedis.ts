@@ -0,0 +1,41 @@
+import { createClient } from 'redis'
+import { LIVE_MAX_ENTRIES, LIVE_TTL_SECONDS, liveStreamKey, type LiveStore } from './liveStore'
+
+// Redis driver for lib/liveStore (Node runtime only). Each store owns one
+// connection; a blocked XREAD holds it, so SSE readers open their own store.
+
+export async function createRedisLiveStore(url = process.env.REDIS_URL): Promise<LiveStore> {
+  if (!url) throw new Error('REDIS_URL not set')
+  const client = createClient({ url })
+  client.on('error', (e) => console.error('[LiveStore] Redis error:', e?.message || e))
+  await client.connect()
+  return {
+    driver: 'redis',
+    async append(sid, data) {
+      const key = liveStreamKey(sid)
+      const id = await client.xAdd(key, '*', { data }, { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: LIVE_MAX_ENTRIES } })
+      await client.expire(key, LIVE_TTL_SECONDS)
+      return id
+    },
+    async read(sid, { afterId, blockMs = 0, signal, count = 100 }) {
+      if (signal?.aborted) return []
+      // Dropping the connection is the only way to interrupt XREAD BLOCK
+      const onAbort = () => { client.disconnect().catch(() => {}) }
+      signal?.addEventListener('abort', onAbort)
+      try {
+        const res = await client.xRead({ key: liveStreamKey(sid), id: afterId }, { COUNT: count, ...(blockMs > 0 && { BLOCK: blockMs }) })
+        if (!res) return []
+        return res.flatMap((s) => s.messages.map((m) => ({ id: m.id, data: m.message.data })))
+      } catch (e) {
+        if (signal?.aborted) return []
+        throw e
+      } finally {
+        signal?.removeEventListener('abort', onAbort)
+      }
+    },
+    async close() {
+      // disconnect, not quit: QUIT would queue behind a blocked XREAD
+      if (client.isOpen) await client.disconnect()
+    },
+  }
+}
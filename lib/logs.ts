@@ -0,0 +1,103 @@
+// Bridge log fan-out. Each bridge publishes Twilio and OpenAI events here,
+// tagged with callSid/streamSid; /api/stream/logs replays and tails them.
+// Entries live in a KV sorted set scored by timestamp (memory ring buffer in dev).
+
+export type LogSource = 'twilio' | 'openai' | 'bridge'
+
+export type LogEntry = {
+  id: string
+  t: number
+  source: LogSource
+  event: string
+  callSid?: string
+  streamSid?: string
+  data?: any
+}
+
+export type LogQuery = {
+  since?: number
+  source?: LogSource
+  callSid?: string
+  event?: string
+  limit?: number
+}
+
+const KV_URL = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL
+const KV_TOKEN = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN
+
+const LOGS_KEY = 'logs:events'
+const MAX_DATA_CHARS = 4000
+const MEMORY_CAP = 5000
+
+// In-memory fallback for local dev only (not reliable on serverless)
+const memoryLog: LogEntry[] = (globalThis as any).__memLogs || []
+;(globalThis as any).__memLogs = memoryLog
+
+function kvAvailable() {
+  return !!(KV_URL && KV_TOKEN)
+}
+
+async function getKv() {
+  if (!kvAvailable()) return null as any
+  const mod = await import('@vercel/kv')
+  return mod.kv
+}
+
+export function logRetentionMs() {
+  const n = parseInt(process.env.LOGS_RETENTION_MINUTES || '30', 10)
+  return (Number.isFinite(n) && n > 0 ? n : 30) * 60 * 1000
+}
+
+function compactData(data: any) {
+  if (data === undefined) return undefined
+  try {
+    const s = JSON.stringify(data)
+    return s.length > MAX_DATA_CHARS ? { truncated: true, preview: s.slice(0, MAX_DATA_CHARS) } : data
+  } catch {
+    return { unserializable: true }
+  }
+}
+
+export function matchesLogQuery(e: LogEntry, q: LogQuery) {
+  if (q.since != null && e.t < q.since) return false
+  if (q.source && e.source !== q.source) return false
+  if (q.callSid && e.callSid !== q.callSid && e.streamSid !== q.callSid) return false
+  if (q.event && !e.event.startsWith(q.event)) return false
+  return true
+}
+
+export async function publishLog(entry: Omit<LogEntry, 'id' | 't'> & { t?: number }) {
+  const t = entry.t ?? Date.now()
+  const e: LogEntry = {
+    ...entry,
+    id: `${t.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    t,
+    data: compactData(entry.data),
+  }
+  if (kvAvailable()) {
+    const kv = await getKv()
+    await kv.zadd(LOGS_KEY, { score: t, member: JSON.stringify(e) })
+    await kv.zremrangebyscore(LOGS_KEY, 0, t - logRetentionMs())
+  } else {
+    memoryLog.push(e)
+    if (memoryLog.length > MEMORY_CAP) memoryLog.splice(0, memoryLog.length - MEMORY_CAP)
+  }
+  return e
+}
+
+// `since` is inclusive; callers dedupe by id across polls. Returns the oldest `limit`
+// matching entries, so a caller pages forward from the last entry's t instead of losing history.
+export async function readLogs(q: LogQuery): Promise<LogEntry[]> {
+  const since = q.since ?? Date.now() - logRetentionMs()
+  const limit = q.limit ?? 500
+  let entries: LogEntry[]
+  if (kvAvailable()) {
+    const kv = await getKv()
+    const raw: any[] = (await kv.zrange(LOGS_KEY, since, '+inf', { byScore: true })) || []
+    entries = raw.map((r) => (typeof r === 'string' ? JSON.parse(r) : r))
+  } else {
+    entries = memoryLog.filter((e) => e.t >= since)
+  }
+  const filtered = entries.filter((e) => matchesLogQuery(e, { ...q, since }))
+  return filtered.length > limit ? filtered.slice(0, limit) : filtered
+}
@@ -0,0 +1,78 @@
+import type { RealtimeSession } from './validation'
+
+// Images uploaded with an outgoing call. The ephemeral token endpoint does not
+// accept them, so they are parked here keyed by CallSid and injected by the
+// media-stream bridge as input_image items once the session exists.
+
+export type CallMedia = NonNullable<RealtimeSession['embedded_media']>[number]
+
+const KV_URL = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL
+const KV_TOKEN = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN
+
+// Keep each entry under typical KV request limits
+const MAX_IMAGE_BASE64_CHARS = 900_000
+const MAX_IMAGES_PER_CALL = 8
+const MEDIA_TTL_SECONDS = 60 * 60
+
+// In-memory fallback for local dev only (not reliable on serverless)
+const memoryStore: Map<string, CallMedia[]> = (globalThis as any).__memMedia || new Map()
+;(globalThis as any).__memMedia = memoryStore
+
+function kvAvailable() {
+  return !!(KV_URL && KV_TOKEN)
+}
+
+async function getKv() {
+  if (!kvAvailable()) return null as any
+  const mod = await import('@vercel/kv')
+  return mod.kv
+}
+
+function isDeliverable(m: CallMedia) {
+  return m.type === 'image' && /^image\//.test(m.mime_type) && m.data_base64.length > 0 && m.data_base64.length <= MAX_IMAGE_BASE64_CHARS
+}
+
+export async function storeCallMedia(callSid: string, media: CallMedia[] | undefined) {
+  const items = (media || []).filter(isDeliverable).slice(0, MAX_IMAGES_PER_CALL)
+  const skipped = (media || []).length - items.length
+  if (skipped > 0) console.warn(`[Media] Skipped ${skipped} image(s) for ${callSid} (type, size or count limit)`)
+  if (items.length === 0) return 0
+  const k = `media:${callSid}`
+  if (kvAvailable()) {
+    const kv = await getKv()
+    for (const m of items) await kv.rpush(k, JSON.stringify(m))
+    await kv.expire(k, MEDIA_TTL_SECONDS)
+  } else {
+    memoryStore.set(k, items)
+  }
+  return items.length
+}
+
+export async function loadCallMedia(callSid: string): Promise<CallMedia[]> {
+  const k = `media:${callSid}`
+  if (kvAvailable()) {
+    const kv = await getKv()
+    const raw: any[] = (await kv.lrange(k, 0, -1)) || []
+    // @vercel/kv deserializes JSON automatically; tolerate both shapes
+    return raw.map((r) => (typeof r === 'string' ? JSON.parse(r) : r))
+  }
+  return memoryStore.get(k) || []
+}
+
+export async function clearCallMedia(callSid: string) {
+  const k = `media:${callSid}`
+  if (kvAvailable()) {
+    const kv = await getKv()
+    await kv.del(k)
+  } else {
+    memoryStore.delete(k)
+  }
+}
+
+export function toInputImageItem(m: CallMedia) {
+  return {
+    type: 'message',
+    role: 'user',
+    content: [{ type: 'input_image', image_url: `data:${m.mime_type};base64,${m.data_base64}` }],
+  }
+}
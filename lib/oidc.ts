@@ -0,0 +1,122 @@
+import crypto from 'crypto'
+import { roleFromClaims, safeNextPath, type SessionUser } from './auth'
+
+// OpenID Connect sign-in (authorization code flow with PKCE) against any
+// compliant issuer: Okta, Auth0, Entra ID, Google, Keycloak... Roles come from
+// a claim or the email allow-lists (see roleFromClaims).
+
+export const OIDC_STATE_COOKIE = 'vc_oidc'
+export const OIDC_STATE_TTL_SECONDS = 600
+
+export type OidcConfig = {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes: string
+  redirectUri: string
+}
+
+export type OidcDiscovery = {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+}
+
+// Kept in a signed cookie between the redirect and the callback
+export type OidcState = { state: string; nonce: string; verifier: string; next: string; exp: number }
+
+export function oidcConfig(baseUrl: string): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER
+  const clientId = process.env.OIDC_CLIENT_ID
+  if (!issuer || !clientId) return null
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${baseUrl}/api/auth/oidc/callback`,
+  }
+}
+
+let discoveryCache: { issuer: string; doc: OidcDiscovery } | null = null
+
+export async function discover(issuer: string, fetchImpl: typeof fetch = fetch): Promise<OidcDiscovery> {
+  if (discoveryCache?.issuer === issuer) return discoveryCache.doc
+  const res = await fetchImpl(`${issuer}/.well-known/openid-configuration`, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`OIDC discovery failed: ${res.status}`)
+  const doc = (await res.json()) as OidcDiscovery
+  if (!doc.authorization_endpoint || !doc.token_endpoint) throw new Error('OIDC discovery document is missing endpoints')
+  discoveryCache = { issuer, doc }
+  return doc
+}
+
+const b64url = (buf: Buffer) => buf.toString('base64url')
+
+export function createAuthorizationRequest(cfg: OidcConfig, doc: OidcDiscovery, next?: string | null, now = Date.now()) {
+  const state: OidcState = {
+    state: b64url(crypto.randomBytes(16)),
+    nonce: b64url(crypto.randomBytes(16)),
+    verifier: b64url(crypto.randomBytes(32)),
+    next: safeNextPath(next),
+    exp: Math.floor(now / 1000) + OIDC_STATE_TTL_SECONDS,
+  }
+  const url = new URL(doc.authorization_endpoint)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', cfg.clientId)
+  url.searchParams.set('redirect_uri', cfg.redirectUri)
+  url.searchParams.set('scope', cfg.scopes)
+  url.searchParams.set('state', state.state)
+  url.searchParams.set('nonce', state.nonce)
+  url.searchParams.set('code_challenge', b64url(crypto.createHash('sha256').update(state.verifier).digest()))
+  url.searchParams.set('code_challenge_method', 'S256')
+  return { url: url.toString(), state }
+}
+
+export async function exchangeCode(cfg: OidcConfig, doc: OidcDiscovery, code: string, verifier: string, fetchImpl: typeof fetch = fetch) {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: cfg.redirectUri,
+    client_id: cfg.clientId,
+    code_verifier: verifier,
+    ...(cfg.clientSecret && { client_secret: cfg.clientSecret }),
+  })
+  const res = await fetchImpl(doc.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body,
+  })
+  const json: any = await res.json().catch(() => null)
+  if (!res.ok || typeof json?.id_token !== 'string') throw new Error(json?.error_description || json?.error || `OIDC token exchange failed: ${res.status}`)
+  return json as { id_token: string; access_token?: string }
+}
+
+// The ID token comes straight from the token endpoint over TLS, so per OIDC Core
+// 3.1.3.7 its claims are checked without verifying the JWS signature.
+export function validateIdToken(idToken: string, expect: { issuer: string; clientId: string; nonce: string }, now = Date.now()): Record<string, any> {
+  const part = idToken.split('.')[1]
+  if (!part) throw new Error('Malformed ID token')
+  let claims: any
+  try {
+    claims = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'))
+  } catch {
+    throw new Error('Malformed ID token')
+  }
+  if (String(claims.iss || '').replace(/\/+$/, '') !== expect.issuer) throw new Error('ID token issuer mismatch')
+  const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!aud.includes(expect.clientId)) throw new Error('ID token audience mismatch')
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) throw new Error('ID token expired')
+  if (claims.nonce !== expect.nonce) throw new Error('ID token nonce mismatch')
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('ID token has no subject')
+  return claims
+}
+
+export function userFromClaims(claims: Record<string, any>): SessionUser {
+  return {
+    sub: `oidc:${claims.sub}`,
+    ...(typeof claims.email === 'string' && { email: claims.email.toLowerCase() }),
+    ...(typeof claims.name === 'string' && { name: claims.name }),
+    role: roleFromClaims(claims),
+    provider: 'oidc',
+  }
+}
@@ -12,6 +12,7 @@ function sanitizeEphemeralPayload(payload: EphemeralRequest) {
     'model', 
     'instructions'
     // That's it! Everything else must be set via session.update after WebSocket connection
+    // (embedded_media is stored per call by lib/media and injected by the stream bridge)
   ])
   
   const s = body.session || {}
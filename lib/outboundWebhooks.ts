@@ -0,0 +1,323 @@
+import { z } from 'zod'
+import { deleteKey, getJson, setJson } from './store'
+import { isFinalStatus, type CallRecord } from './callRecords'
+
+// Outbound webhooks: call lifecycle events POSTed to subscriber endpoints.
+// Bodies are signed like the inbound control webhook (lib/webhooks
+// verifyHmacSignature): hex HMAC-SHA256 of `${timestamp}.${body}`, sent as
+// `X-Webhook-Signature: v1=<hex>` with `X-Webhook-Timestamp`. Failed deliveries
+// retry with exponential backoff (/api/webhooks/dispatch); after the last
+// attempt they move to the dead-letter list and can be redelivered by hand.
+// Web Crypto and fetch only, so events can be emitted from the Edge bridge.
+
+export const WEBHOOK_EVENT_TYPES = ['call.started', 'call.ended', 'transcript.final', 'tool.invoked', 'summary.ready'] as const
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+export type WebhookSubscription = {
+  id: string
+  url: string
+  secret: string
+  events: WebhookEventType[]
+  enabled: boolean
+  description?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type WebhookEvent = {
+  id: string
+  type: WebhookEventType
+  created_at: string
+  data: Record<string, unknown>
+}
+
+export type DeliveryAttempt = { at: string; status?: number; error?: string; durationMs: number }
+
+export type WebhookDelivery = {
+  id: string
+  subscriptionId: string
+  url: string
+  eventId: string
+  type: WebhookEventType
+  // Serialized event, signed as-is on every attempt
+  body: string
+  status: 'pending' | 'delivered' | 'dead'
+  attempts: number
+  nextAttemptAt?: number
+  lastStatus?: number
+  lastError?: string
+  deliveredAt?: string
+  history: DeliveryAttempt[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type WebhookDeliveryDeps = {
+  send: (url: string, init: { headers: Record<string, string>; body: string }) => Promise<{ status: number }>
+}
+
+const EventTypeSchema = z.enum(WEBHOOK_EVENT_TYPES)
+
+export const WebhookSubscriptionCreateSchema = z.object({
+  url: z.string().url().refine((u) => /^https:\/\//.test(u) || process.env.NODE_ENV !== 'production', 'Use an https URL'),
+  events: z.array(EventTypeSchema).min(1).optional(),
+  // Generated when omitted
+  secret: z.string().min(16).max(200).optional(),
+  description: z.string().max(200).optional(),
+  enabled: z.boolean().optional(),
+})
+
+export const WebhookSubscriptionUpdateSchema = WebhookSubscriptionCreateSchema.partial()
+
+const SUBSCRIPTIONS_KEY = 'webhooks:subscriptions'
+const DELIVERIES_KEY = 'webhooks:deliveries'
+const DEAD_KEY = 'webhooks:dead'
+const deliveryKey = (id: string) => `webhook-delivery:${id}`
+const MAX_HISTORY = 10
+const SEND_TIMEOUT_MS = 10000
+
+function maxAttempts() {
+  const n = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10)
+  return Number.isFinite(n) && n > 0 ? n : 6
+}
+
+function maxLogEntries() {
+  const n = parseInt(process.env.WEBHOOK_DELIVERY_LOG_MAX || '500', 10)
+  return Number.isFinite(n) && n > 0 ? n : 500
+}
+
+// Delay before retry n (1-based): base, 2x, 4x, ... capped at 6 hours
+export function backoffMs(attempt: number) {
+  const n = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30', 10)
+  const base = (Number.isFinite(n) && n > 0 ? n : 30) * 1000
+  return Math.min(base * 2 ** Math.max(0, attempt - 1), 6 * 60 * 60 * 1000)
+}
+
+function randomId(prefix: string, bytes = 8) {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes))
+  return `${prefix}_${Array.from(buf, (b) => b.toString(16).padStart(2, '0')).join('')}`
+}
+
+export async function signWebhookPayload(secret: string, timestamp: string, body: string) {
+  const enc = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const sig = await crypto.subtle.sign('HMAC', key, enc.encode(`${timestamp}.${body}`))
+  return Array.from(new Uint8Array(sig), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Subscriptions
+
+export async function listSubscriptions(): Promise<WebhookSubscription[]> {
+  return (await getJson<WebhookSubscription[]>(SUBSCRIPTIONS_KEY)) || []
+}
+
+export async function getSubscription(id: string) {
+  return (await listSubscriptions()).find((s) => s.id === id) || null
+}
+
+// Secrets are only returned in full when a subscription is created
+export function publicSubscription(s: WebhookSubscription) {
+  return { ...s, secret: `${s.secret.slice(0, 6)}…${s.secret.slice(-4)}` }
+}
+
+export async function createSubscription(input: z.infer<typeof WebhookSubscriptionCreateSchema>, now = new Date()) {
+  const sub: WebhookSubscription = {
+    id: randomId('wh', 6),
+    url: input.url,
+    secret: input.secret || randomId('whsec', 24),
+    events: input.events || [...WEBHOOK_EVENT_TYPES],
+    enabled: input.enabled ?? true,
+    ...(input.description && { description: input.description }),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  }
+  await setJson(SUBSCRIPTIONS_KEY, [...(await listSubscriptions()), sub])
+  return sub
+}
+
+export async function updateSubscription(id: string, patch: z.infer<typeof WebhookSubscriptionUpdateSchema>) {
+  const subs = await listSubscriptions()
+  const i = subs.findIndex((s) => s.id === id)
+  if (i < 0) return null
+  const next = { ...subs[i], ...patch, updatedAt: new Date().toISOString() }
+  subs[i] = next
+  await setJson(SUBSCRIPTIONS_KEY, subs)
+  return next
+}
+
+export async function deleteSubscription(id: string) {
+  const subs = await listSubscriptions()
+  if (!subs.some((s) => s.id === id)) return false
+  await setJson(SUBSCRIPTIONS_KEY, subs.filter((s) => s.id !== id))
+  return true
+}
+
+// Delivery log
+
+export async function getDelivery(id: string) {
+  return getJson<WebhookDelivery>(deliveryKey(id))
+}
+
+async function saveDelivery(d: WebhookDelivery, isNew = false) {
+  await setJson(deliveryKey(d.id), d)
+  if (isNew) {
+    // Newest last; entries that fall off the log are deleted
+    const index = (await getJson<string[]>(DELIVERIES_KEY)) || []
+    const next = [...index, d.id]
+    const dropped = next.slice(0, Math.max(0, next.length - maxLogEntries()))
+    await setJson(DELIVERIES_KEY, next.slice(dropped.length))
+    await Promise.all(dropped.map((id) => deleteKey(deliveryKey(id))))
+  }
+  const dead = (await getJson<string[]>(DEAD_KEY)) || []
+  const inDead = dead.includes(d.id)
+  if (d.status === 'dead' && !inDead) await setJson(DEAD_KEY, [...dead, d.id])
+  if (d.status !== 'dead' && inDead) await setJson(DEAD_KEY, dead.filter((x) => x !== d.id))
+  return d
+}
+
+export async function listDeliveries(q: { status?: WebhookDelivery['status']; subscriptionId?: string; limit?: number } = {}) {
+  const ids = q.status === 'dead' ? (await getJson<string[]>(DEAD_KEY)) || [] : (await getJson<string[]>(DELIVERIES_KEY)) || []
+  const all = await Promise.all(ids.slice().reverse().map((id) => getDelivery(id)))
+  return all
+    .filter((d): d is WebhookDelivery => !!d && (!q.status || d.status === q.status) && (!q.subscriptionId || d.subscriptionId === q.subscriptionId))
+    .slice(0, q.limit ?? 100)
+}
+
+// Delivery
+
+export function defaultDeliveryDeps(): WebhookDeliveryDeps {
+  return {
+    async send(url, init) {
+      const controller = new AbortController()
+      const timer = setTimeout(() => controller.abort(), SEND_TIMEOUT_MS)
+      try {
+        const res = await fetch(url, { method: 'POST', headers: init.headers, body: init.body, signal: controller.signal, redirect: 'manual' })
+        return { status: res.status }
+      } catch (e: any) {
+        if (controller.signal.aborted) throw new Error(`Timed out after ${SEND_TIMEOUT_MS}ms`)
+        throw e
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+  }
+}
+
+// One attempt; schedules the next retry or dead-letters the delivery
+export async function attemptDelivery(d: WebhookDelivery, sub: WebhookSubscription | null, deps: WebhookDeliveryDeps, now = Date.now()) {
+  const started = Date.now()
+  const attempt: DeliveryAttempt = { at: new Date(now).toISOString(), durationMs: 0 }
+  if (!sub) {
+    attempt.error = 'Subscription deleted'
+  } else {
+    const timestamp = String(Math.floor(now / 1000))
+    try {
+      const res = await deps.send(sub.url, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'verbio-webhooks/1',
+          'X-Webhook-Id': d.eventId,
+          'X-Webhook-Event': d.type,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `v1=${await signWebhookPayload(sub.secret, timestamp, d.body)}`,
+        },
+        body: d.body,
+      })
+      attempt.status = res.status
+      if (res.status < 200 || res.status >= 300) attempt.error = `HTTP ${res.status}`
+    } catch (e: any) {
+      attempt.error = e?.message || String(e)
+    }
+  }
+  attempt.durationMs = Date.now() - started
+  d.attempts += 1
+  d.history = [...d.history, attempt].slice(-MAX_HISTORY)
+  d.lastStatus = attempt.status
+  d.updatedAt = attempt.at
+  if (!attempt.error) {
+    d.status = 'delivered'
+    d.deliveredAt = attempt.at
+    delete d.lastError
+    delete d.nextAttemptAt
+  } else {
+    d.lastError = attempt.error
+    // A deleted subscription will never accept a retry
+    if (!sub || d.attempts >= maxAttempts()) {
+      d.status = 'dead'
+      delete d.nextAttemptAt
+    } else {
+      d.status = 'pending'
+      d.nextAttemptAt = now + backoffMs(d.attempts)
+    }
+  }
+  return saveDelivery(d)
+}
+
+// Fans an event out to every enabled subscriber of its type; the first attempt happens inline
+export async function emitWebhookEvent(type: WebhookEventType, data: Record<string, unknown>, deps = defaultDeliveryDeps(), now = Date.now()) {
+  const subs = (await listSubscriptions()).filter((s) => s.enabled && s.events.includes(type))
+  if (!subs.length) return []
+  const event: WebhookEvent = { id: randomId('evt'), type, created_at: new Date(now).toISOString(), data }
+  const body = JSON.stringify(event)
+  return Promise.all(
+    subs.map(async (sub) => {
+      const d: WebhookDelivery = {
+        id: randomId('whd'),
+        subscriptionId: sub.id,
+        url: sub.url,
+        eventId: event.id,
+        type,
+        body,
+        status: 'pending',
+        attempts: 0,
+        history: [],
+        createdAt: event.created_at,
+        updatedAt: event.created_at,
+      }
+      await saveDelivery(d, true)
+      return attemptDelivery(d, sub, deps, now)
+    })
+  )
+}
+
+// Retries whose backoff has elapsed; run by /api/webhooks/dispatch
+export async function processDueDeliveries(deps = defaultDeliveryDeps(), now = Date.now()) {
+  const due = (await listDeliveries({ status: 'pending', limit: maxLogEntries() })).filter((d) => (d.nextAttemptAt ?? 0) <= now)
+  const subs = await listSubscriptions()
+  const results: WebhookDelivery[] = []
+  // Oldest first
+  for (const d of due.reverse()) results.push(await attemptDelivery(d, subs.find((s) => s.id === d.subscriptionId) || null, deps, now))
+  return results
+}
+
+// Manual redelivery of any delivery (typically a dead letter); the attempt budget starts over
+export async function redeliver(id: string, deps = defaultDeliveryDeps(), now = Date.now()) {
+  const d = await getDelivery(id)
+  if (!d) return { error: 'Not found', status: 404 }
+  const sub = await getSubscription(d.subscriptionId)
+  if (!sub) return { error: 'Subscription no longer exists', status: 409 }
+  d.attempts = 0
+  return { delivery: await attemptDelivery(d, sub, deps, now) }
+}
+
+// Lifecycle events implied by a call record update
+export function callLifecycleEvents(before: CallRecord | null, after: CallRecord): WebhookEventType[] {
+  const events: WebhookEventType[] = []
+  if (after.timestamps['in-progress'] && !before?.timestamps['in-progress']) events.push('call.started')
+  if (isFinalStatus(after.status) && !(before && isFinalStatus(before.status))) events.push('call.ended')
+  return events
+}
+
+export function callEventData(rec: CallRecord) {
+  return {
+    callSid: rec.sid,
+    status: rec.status,
+    direction: rec.direction,
+    from: rec.from,
+    to: rec.to,
+    profile: rec.profile,
+    durationSeconds: rec.durationSeconds,
+    answeredBy: rec.answeredBy,
+    timestamps: rec.timestamps,
+  }
+}
@@ -0,0 +1,202 @@
+import { z } from 'zod'
+import { loadTranscript, type TranscriptTurn } from './transcript'
+import { upsertCallRecord } from './callRecords'
+import { emitWebhookEvent } from './outboundWebhooks'
+import { popList, pushList } from './store'
+
+// Post-call analysis: once a call ends, its stored (redacted) transcript is sent
+// to a model that returns a summary, a disposition from the profile's list and
+// fields extracted per the profile's JSON schema. The result is kept on the call
+// record and announced with a summary.ready webhook. The model client is
+// pluggable so tests and other providers can stand in.
+
+export const DEFAULT_DISPOSITIONS = ['resolved', 'follow_up', 'callback_requested', 'appointment_booked', 'not_interested', 'escalated', 'other']
+
+// Stored on agent profiles as settings.post_call
+export const PostCallConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  model: z.string().min(1).max(100).optional(),
+  // Extra guidance for the summary, e.g. what the business cares about
+  instructions: z.string().max(4000).optional(),
+  dispositions: z.array(z.string().regex(/^[a-z0-9_-]{1,50}$/)).min(1).max(30).optional(),
+  // JSON Schema (type: object) for the fields to extract, e.g. appointment_time, callback_number
+  extraction_schema: z.object({ type: z.literal('object'), properties: z.record(z.any()) }).passthrough().optional(),
+})
+
+export type PostCallConfigInput = z.infer<typeof PostCallConfigSchema>
+
+export type PostCallConfig = {
+  model: string
+  instructions?: string
+  dispositions: string[]
+  extractionSchema?: { type: 'object'; properties: Record<string, any>; [k: string]: any }
+}
+
+export type CallAnalysis = {
+  status: 'completed' | 'failed' | 'skipped'
+  summary?: string
+  disposition?: string
+  data?: Record<string, unknown>
+  model?: string
+  error?: string
+  createdAt: string
+}
+
+export type ModelRequest = {
+  model: string
+  system: string
+  user: string
+  // JSON Schema the reply must follow
+  schema: Record<string, any>
+}
+
+export interface ModelClient {
+  // Returns the model's JSON reply, parsed
+  complete(req: ModelRequest): Promise<unknown>
+}
+
+export type PostCallDeps = {
+  model: ModelClient
+  now?: () => Date
+}
+
+// Profile settings win; POST_CALL_ANALYSIS=true turns it on for profiles without their own config
+export function resolvePostCallConfig(input?: PostCallConfigInput | null): PostCallConfig | null {
+  const enabled = input?.enabled ?? (input ? true : process.env.POST_CALL_ANALYSIS === 'true')
+  if (!enabled) return null
+  return {
+    model: input?.model || process.env.POST_CALL_MODEL || 'gpt-4o-mini',
+    instructions: input?.instructions,
+    dispositions: input?.dispositions?.length ? input.dispositions : DEFAULT_DISPOSITIONS,
+    extractionSchema: input?.extraction_schema,
+  }
+}
+
+export function formatTranscriptForModel(turns: TranscriptTurn[]) {
+  return turns
+    .filter((t) => t.text.trim())
+    .map((t) => `${t.role === 'user' ? 'Caller' : 'Agent'}: ${t.text.trim()}${t.interrupted ? ' [interrupted]' : ''}`)
+    .join('\n')
+}
+
+export function buildAnalysisRequest(turns: TranscriptTurn[], config: PostCallConfig): ModelRequest {
+  const data = config.extractionSchema || { type: 'object', properties: {} }
+  return {
+    model: config.model,
+    system: [
+      'You review finished phone calls between a caller and an AI agent.',
+      'Write a concise summary (at most 5 sentences) of what happened and what was agreed.',
+      `Pick the single disposition that best describes the outcome: ${config.dispositions.join(', ')}.`,
+      'Fill "data" only with values stated in the call; use null for anything not mentioned. Never invent values.',
+      ...(config.instructions ? [config.instructions] : []),
+    ].join('\n'),
+    user: formatTranscriptForModel(turns),
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        disposition: { type: 'string', enum: config.dispositions },
+        data,
+      },
+      required: ['summary', 'disposition', 'data'],
+    },
+  }
+}
+
+// Keeps only the schema's fields; an unknown disposition becomes 'other' when allowed
+export function normalizeAnalysis(raw: unknown, config: PostCallConfig): Pick<CallAnalysis, 'summary' | 'disposition' | 'data'> {
+  const r: any = raw && typeof raw === 'object' ? raw : {}
+  if (typeof r.summary !== 'string' || !r.summary.trim()) throw new Error('Model reply has no summary')
+  let disposition = typeof r.disposition === 'string' ? r.disposition : ''
+  if (!config.dispositions.includes(disposition)) {
+    if (!config.dispositions.includes('other')) throw new Error(`Model returned unknown disposition ${disposition || '(none)'}`)
+    disposition = 'other'
+  }
+  const data: Record<string, unknown> = {}
+  const fields = Object.keys(config.extractionSchema?.properties || {})
+  const src = r.data && typeof r.data === 'object' ? r.data : {}
+  for (const k of fields) data[k] = src[k] ?? null
+  return { summary: r.summary.trim(), disposition, data }
+}
+
+export async function runPostCallAnalysis(callSid: string, config: PostCallConfig, deps: PostCallDeps): Promise<CallAnalysis> {
+  const now = deps.now || (() => new Date())
+  const { turns } = await loadTranscript(callSid)
+  let analysis: CallAnalysis
+  if (!turns.some((t) => t.text.trim())) {
+    analysis = { status: 'skipped', error: 'No transcript stored for this call', createdAt: now().toISOString() }
+  } else {
+    try {
+      const raw = await deps.model.complete(buildAnalysisRequest(turns, config))
+      analysis = { status: 'completed', ...normalizeAnalysis(raw, config), model: config.model, createdAt: now().toISOString() }
+    } catch (e: any) {
+      analysis = { status: 'failed', error: e?.message || String(e), model: config.model, createdAt: now().toISOString() }
+    }
+  }
+  const rec = await upsertCallRecord(callSid, { analysis })
+  if (analysis.status === 'completed') {
+    await emitWebhookEvent('summary.ready', { callSid, profile: rec.profile, ...analysis }).catch((e) => console.error('[PostCall] Webhook emit failed:', e?.message || e))
+  }
+  return analysis
+}
+
+// Calls waiting for analysis. The bridge queues a call once its transcript is stored, so the
+// work does not depend on the Edge isolate outliving the closed socket; /api/post-call/dispatch
+// drains the queue (cron, or kicked by the bridge).
+const QUEUE_KEY = 'postcall:queue'
+const QUEUE_MAX = 1000
+const DISPATCH_BATCH = 10
+
+export type PostCallJob = { callSid: string; config: PostCallConfig }
+
+export async function enqueuePostCall(job: PostCallJob) {
+  await pushList(QUEUE_KEY, job, { max: QUEUE_MAX })
+}
+
+export async function processPostCallQueue(deps: PostCallDeps, limit = DISPATCH_BATCH) {
+  const results: Array<{ callSid: string; analysis: CallAnalysis }> = []
+  for (const job of await popList<PostCallJob>(QUEUE_KEY, limit)) {
+    const analysis = await runPostCallAnalysis(job.callSid, job.config, deps)
+      .catch((e: any): CallAnalysis => ({ status: 'failed', error: e?.message || String(e), createdAt: new Date().toISOString() }))
+    results.push({ callSid: job.callSid, analysis })
+  }
+  return results
+}
+
+const MODEL_TIMEOUT_MS = 30000
+
+// Chat Completions with structured output; fetch only, so it also runs in the Edge bridge
+export function openAIModelClient(apiKey = process.env.OPENAI_API_KEY): ModelClient {
+  return {
+    async complete(req) {
+      if (!apiKey) throw new Error('OpenAI API key missing')
+      const controller = new AbortController()
+      const timer = setTimeout(() => controller.abort(), MODEL_TIMEOUT_MS)
+      try {
+        const res = await fetch('https://api.openai.com/v1/chat/completions', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model: req.model,
+            messages: [
+              { role: 'system', content: req.system },
+              { role: 'user', content: req.user },
+            ],
+            response_format: { type: 'json_schema', json_schema: { name: 'call_analysis', schema: req.schema } },
+          }),
+          signal: controller.signal,
+        })
+        const json: any = await res.json().catch(() => null)
+        if (!res.ok) throw new Error(json?.error?.message || `OpenAI error ${res.status}`)
+        const content = json?.choices?.[0]?.message?.content
+        if (typeof content !== 'string') throw new Error('OpenAI returned no content')
+        return JSON.parse(content)
+      } catch (e: any) {
+        if (controller.signal.aborted) throw new Error(`Post-call analysis timed out after ${MODEL_TIMEOUT_MS}ms`)
+        throw e
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+  }
+}
@@ -0,0 +1,163 @@
+import { z } from 'zod'
+import { deleteKey, getJson, setJson } from './store'
+import type { RealtimeControlSettings } from './realtimeControl'
+
+// Named agent profiles with version history. Every save appends a version;
+// rollback appends a copy of an older version so history is never rewritten.
+
+export type ProfileVersion = {
+  version: number
+  settings: RealtimeControlSettings
+  createdAt: string
+  note?: string
+}
+
+export type AgentProfile = {
+  name: string
+  description?: string
+  currentVersion: number
+  versions: ProfileVersion[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type ProfileSummary = {
+  name: string
+  description?: string
+  currentVersion: number
+  updatedAt: string
+  active: boolean
+}
+
+export type SettingsChange = {
+  path: string
+  before: unknown
+  after: unknown
+}
+
+export const ProfileNameSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, 'Use lowercase letters, digits, _ or - (max 64)')
+
+export const DEFAULT_PROFILE = 'default'
+const MAX_VERSIONS = 50
+
+const INDEX_KEY = 'profiles:index'
+const ACTIVE_KEY = 'profiles:active'
+const profileKey = (name: string) => `profile:${name}`
+
+async function readIndex(): Promise<string[]> {
+  return (await getJson<string[]>(INDEX_KEY)) || []
+}
+
+export async function getActiveProfileName(): Promise<string | null> {
+  return getJson<string>(ACTIVE_KEY)
+}
+
+export async function getProfile(name: string): Promise<AgentProfile | null> {
+  return getJson<AgentProfile>(profileKey(name))
+}
+
+export function currentSettings(p: AgentProfile): RealtimeControlSettings {
+  const v = p.versions.find((x) => x.version === p.currentVersion)
+  return v?.settings || {}
+}
+
+export async function listProfiles(): Promise<ProfileSummary[]> {
+  const [names, active] = await Promise.all([readIndex(), getActiveProfileName()])
+  const profiles = await Promise.all(names.map((n) => getProfile(n)))
+  return profiles
+    .filter((p): p is AgentProfile => !!p)
+    .map((p) => ({
+      name: p.name,
+      description: p.description,
+      currentVersion: p.currentVersion,
+      updatedAt: p.updatedAt,
+      active: p.name === active,
+    }))
+}
+
+export async function saveProfile(
+  name: string,
+  settings: RealtimeControlSettings,
+  opts?: { note?: string; description?: string }
+): Promise<AgentProfile> {
+  const now = new Date().toISOString()
+  const existing = await getProfile(name)
+  const nextVersion = existing ? Math.max(...existing.versions.map((v) => v.version), 0) + 1 : 1
+  const version: ProfileVersion = { version: nextVersion, settings, createdAt: now, ...(opts?.note && { note: opts.note }) }
+  const profile: AgentProfile = existing
+    ? {
+        ...existing,
+        ...(opts?.description !== undefined && { description: opts.description }),
+        currentVersion: nextVersion,
+        versions: [...existing.versions, version].slice(-MAX_VERSIONS),
+        updatedAt: now,
+      }
+    : {
+        name,
+        ...(opts?.description && { description: opts.description }),
+        currentVersion: nextVersion,
+        versions: [version],
+        createdAt: now,
+        updatedAt: now,
+      }
+  await setJson(profileKey(name), profile)
+  const index = await readIndex()
+  if (!index.includes(name)) await setJson(INDEX_KEY, [...index, name])
+  // First profile becomes active so calls pick it up without an extra step
+  if (!(await getActiveProfileName())) await setJson(ACTIVE_KEY, name)
+  return profile
+}
+
+export async function deleteProfile(name: string) {
+  const existing = await getProfile(name)
+  if (!existing) return false
+  await deleteKey(profileKey(name))
+  const index = await readIndex()
+  await setJson(INDEX_KEY, index.filter((n) => n !== name))
+  if ((await getActiveProfileName()) === name) await deleteKey(ACTIVE_KEY)
+  return true
+}
+
+export async function activateProfile(name: string) {
+  const existing = await getProfile(name)
+  if (!existing) return false
+  await setJson(ACTIVE_KEY, name)
+  return true
+}
+
+export async function rollbackProfile(name: string, version: number) {
+  const existing = await getProfile(name)
+  if (!existing) return null
+  const target = existing.versions.find((v) => v.version === version)
+  if (!target) return null
+  return saveProfile(name, target.settings, { note: `Rollback to v${version}` })
+}
+
+// Settings of the named profile, or of the active profile when no name is given
+export async function getProfileSettings(name?: string | null): Promise<RealtimeControlSettings | null> {
+  const target = name || (await getActiveProfileName())
+  if (!target) return null
+  const p = await getProfile(target)
+  return p ? currentSettings(p) : null
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+// Leaf-level differences between two settings objects; arrays compare as a whole
+export function diffSettings(before: unknown, after: unknown, path = ''): SettingsChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort()
+    return keys.flatMap((k) => diffSettings(before[k], after[k], path ? `${path}.${k}` : k))
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return []
+  return [{ path: path || '(root)', before, after }]
+}
+
+export function diffProfileVersions(p: AgentProfile, from: number, to: number): SettingsChange[] | null {
+  const a = p.versions.find((v) => v.version === from)
+  const b = p.versions.find((v) => v.version === to)
+  if (!a || !b) return null
+  return diffSettings(a.settings, b.settings)
+}
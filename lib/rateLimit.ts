@@ -0,0 +1,236 @@
+// Spend guardrails for everything that creates a billable Realtime session:
+// POST /api/calls, POST /api/realtime-token, the auto-mint path in /api/twiml
+// and the campaign / scheduled-call dialers.
+// - Token buckets per API key (or signed-in user), per client IP and per phone number
+// - Daily caps (UTC day) on minted sessions and on completed call minutes
+// Counters live in Redis when REDIS_URL is set (RATE_LIMIT_DRIVER=redis|memory),
+// otherwise, or when Redis is unreachable, in process memory. Memory counters are
+// per instance, so on serverless neither limits nor daily caps hold globally; the
+// fallback logs a warning and /api/usage reports it.
+
+export type Bucket = { capacity: number; refillPerSecond: number }
+export type TakeResult = { allowed: boolean; remaining: number; retryAfterSeconds: number }
+
+export interface RateLimitStore {
+  driver: 'redis' | 'memory'
+  // Takes one token from the bucket at key
+  take(key: string, bucket: Bucket, now: number): Promise<TakeResult>
+  incr(key: string, amount: number, ttlSeconds: number): Promise<number>
+  get(key: string): Promise<number>
+}
+
+export type RateLimitName = 'key' | 'ip' | 'number'
+export type SpendCapName = 'sessions' | 'minutes'
+
+export type Usage = {
+  date: string
+  sessions: { used: number; cap: number | null }
+  minutes: { used: number; cap: number | null }
+  driver: RateLimitStore['driver']
+  // Set when counters are per-process (memory driver)
+  warning?: string
+}
+
+const COUNTER_TTL_SECONDS = 2 * 86400
+
+// <count> requests per window, refilled continuously; 0 turns the limit off
+function bucketFromEnv(name: string, fallback: number, windowSeconds: number): Bucket | null {
+  const raw = process.env[name]
+  const n = raw === undefined || raw === '' ? fallback : parseInt(raw, 10)
+  if (!Number.isFinite(n) || n <= 0) return null
+  return { capacity: n, refillPerSecond: n / windowSeconds }
+}
+
+export function rateLimitBuckets(): Record<RateLimitName, Bucket | null> {
+  return {
+    key: bucketFromEnv('RATE_LIMIT_KEY_PER_MINUTE', 20, 60),
+    ip: bucketFromEnv('RATE_LIMIT_IP_PER_MINUTE', 10, 60),
+    number: bucketFromEnv('RATE_LIMIT_NUMBER_PER_HOUR', 5, 3600),
+  }
+}
+
+// Unset or 0 means no cap
+function capFromEnv(name: string) {
+  const n = parseInt(process.env[name] || '', 10)
+  return Number.isFinite(n) && n > 0 ? n : null
+}
+
+export function spendCaps(): Record<SpendCapName, number | null> {
+  return { sessions: capFromEnv('DAILY_SESSION_CAP'), minutes: capFromEnv('DAILY_CALL_MINUTES_CAP') }
+}
+
+export function rateLimitDriver(): 'redis' | 'memory' {
+  const configured = (process.env.RATE_LIMIT_DRIVER || '').toLowerCase()
+  if (configured === 'redis' || configured === 'memory') return configured
+  return process.env.REDIS_URL ? 'redis' : 'memory'
+}
+
+// Memory driver
+
+type MemoryBucket = { tokens: number; ts: number }
+type MemoryCounter = { value: number; expiresAt: number }
+
+const memory: { buckets: Map<string, MemoryBucket>; counters: Map<string, MemoryCounter> } = (globalThis as any).__rateLimitMemory || {
+  buckets: new Map(),
+  counters: new Map(),
+}
+;(globalThis as any).__rateLimitMemory = memory
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  return {
+    driver: 'memory',
+    async take(key, bucket, now) {
+      const prev = memory.buckets.get(key)
+      let tokens = prev ? Math.min(bucket.capacity, prev.tokens + ((now - prev.ts) / 1000) * bucket.refillPerSecond) : bucket.capacity
+      const allowed = tokens >= 1
+      if (allowed) tokens -= 1
+      memory.buckets.set(key, { tokens, ts: now })
+      return { allowed, remaining: Math.floor(tokens), retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / bucket.refillPerSecond) }
+    },
+    async incr(key, amount, ttlSeconds) {
+      const now = Date.now()
+      const prev = memory.counters.get(key)
+      const value = (prev && prev.expiresAt > now ? prev.value : 0) + amount
+      memory.counters.set(key, { value, expiresAt: now + ttlSeconds * 1000 })
+      return value
+    },
+    async get(key) {
+      const e = memory.counters.get(key)
+      return e && e.expiresAt > Date.now() ? e.value : 0
+    },
+  }
+}
+
+// Test helper
+export function resetMemoryRateLimits() {
+  memory.buckets.clear()
+  memory.counters.clear()
+}
+
+let storePromise: Promise<RateLimitStore> | null = null
+// Why the memory driver is in use, for the warning
+let memoryReason = ''
+
+export function memoryDriverWarning(reason = memoryReason) {
+  const caps = spendCaps()
+  const capped = caps.sessions !== null || caps.minutes !== null
+  return [
+    `Rate limits are kept in process memory${reason ? ` (${reason})` : ''}; every server instance counts on its own.`,
+    capped ? 'DAILY_SESSION_CAP / DAILY_CALL_MINUTES_CAP are not enforced across instances.' : '',
+    'Set REDIS_URL for shared limits.',
+  ].filter(Boolean).join(' ')
+}
+
+export function getRateLimitStore(): Promise<RateLimitStore> {
+  if (!storePromise) {
+    storePromise = (async () => {
+      if (rateLimitDriver() === 'redis' && process.env.REDIS_URL) {
+        try {
+          const { createRedisRateLimitStore } = await import('./rateLimitRedis')
+          return await createRedisRateLimitStore(process.env.REDIS_URL)
+        } catch (e: any) {
+          console.error('[RateLimit] Redis unavailable, using memory:', e?.message || e)
+          memoryReason = 'Redis unreachable'
+        }
+      } else {
+        memoryReason = process.env.REDIS_URL ? 'RATE_LIMIT_DRIVER=memory' : 'REDIS_URL is not set'
+      }
+      // Once per process, when the store is created
+      console.warn(`[RateLimit] ${memoryDriverWarning()}`)
+      return createMemoryRateLimitStore()
+    })()
+  }
+  return storePromise
+}
+
+function limitError(message: string, limit: string, retryAfterSeconds: number) {
+  const err: any = new Error(message)
+  err.status = 429
+  err.limit = limit
+  err.retryAfter = Math.max(1, retryAfterSeconds)
+  return err
+}
+
+const dayOf = (now: number) => new Date(now).toISOString().slice(0, 10)
+
+function secondsUntilUtcMidnight(now: number) {
+  const d = new Date(now)
+  return Math.ceil((Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1) - now) / 1000)
+}
+
+const spendKey = (cap: SpendCapName, now: number) => `spend:${dayOf(now)}:${cap}`
+
+// Throws a 429 error (err.status, err.limit, err.retryAfter) when any bucket is empty.
+// Every subject is charged, so a caller cannot dodge the IP limit by rotating numbers.
+export async function checkRateLimits(subjects: Partial<Record<RateLimitName, string | null | undefined>>, now = Date.now(), store?: RateLimitStore) {
+  const s = store || (await getRateLimitStore())
+  const buckets = rateLimitBuckets()
+  let denied: { name: RateLimitName; retryAfterSeconds: number } | null = null
+  for (const name of ['key', 'ip', 'number'] as RateLimitName[]) {
+    const subject = subjects[name]
+    const bucket = buckets[name]
+    if (!subject || !bucket) continue
+    const r = await s.take(`rl:${name}:${subject}`, bucket, now)
+    if (!r.allowed && (!denied || r.retryAfterSeconds > denied.retryAfterSeconds)) denied = { name, retryAfterSeconds: r.retryAfterSeconds }
+  }
+  if (denied) {
+    const label = denied.name === 'key' ? 'API key' : denied.name === 'ip' ? 'IP address' : 'phone number'
+    throw limitError(`Rate limit exceeded for this ${label}; retry in ${denied.retryAfterSeconds}s`, denied.name, denied.retryAfterSeconds)
+  }
+}
+
+// Counts one minted session against today's cap, or throws 429 when the cap is reached.
+// Also refuses once today's call minutes hit their cap.
+export async function reserveSession(now = Date.now(), store?: RateLimitStore) {
+  const s = store || (await getRateLimitStore())
+  const caps = spendCaps()
+  if (caps.minutes !== null && (await s.get(spendKey('minutes', now))) >= caps.minutes) {
+    throw limitError(`Daily call minutes cap (${caps.minutes}) reached`, 'minutes', secondsUntilUtcMidnight(now))
+  }
+  const used = await s.incr(spendKey('sessions', now), 1, COUNTER_TTL_SECONDS)
+  if (caps.sessions !== null && used > caps.sessions) {
+    await s.incr(spendKey('sessions', now), -1, COUNTER_TTL_SECONDS)
+    throw limitError(`Daily session cap (${caps.sessions}) reached`, 'sessions', secondsUntilUtcMidnight(now))
+  }
+}
+
+// Completed calls count whole minutes, rounded up like carrier billing
+export async function recordCallMinutes(durationSeconds: number, now = Date.now(), store?: RateLimitStore) {
+  if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) return
+  const s = store || (await getRateLimitStore())
+  await s.incr(spendKey('minutes', now), Math.ceil(durationSeconds / 60), COUNTER_TTL_SECONDS)
+}
+
+export async function getUsage(now = Date.now(), store?: RateLimitStore): Promise<Usage> {
+  const s = store || (await getRateLimitStore())
+  const caps = spendCaps()
+  return {
+    date: dayOf(now),
+    sessions: { used: await s.get(spendKey('sessions', now)), cap: caps.sessions },
+    minutes: { used: await s.get(spendKey('minutes', now)), cap: caps.minutes },
+    driver: s.driver,
+    ...(s.driver === 'memory' && { warning: memoryDriverWarning() }),
+  }
+}
+
+// Proxies in front of the app that append to X-Forwarded-For (TRUSTED_PROXY_HOPS, default 1)
+function trustedProxyHops() {
+  const n = parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10)
+  return Number.isFinite(n) && n > 0 ? n : 1
+}
+
+// The caller's IP as seen by the platform: x-real-ip (Vercel sets it), else the X-Forwarded-For hop
+// added by the outermost trusted proxy. Hops left of it come from the client and are ignored.
+export function clientIp(req: Request) {
+  const real = req.headers.get('x-real-ip')?.trim()
+  if (real) return real
+  const hops = (req.headers.get('x-forwarded-for') || '').split(',').map((h) => h.trim()).filter(Boolean)
+  return hops[Math.max(0, hops.length - trustedProxyHops())] || null
+}
+
+export function rateLimitResponse(err: any) {
+  return Response.json(
+    { error: err?.message || 'Rate limit exceeded', limit: err?.limit, retryAfter: err?.retryAfter },
+    { status: 429, headers: { 'Retry-After': String(err?.retryAfter || 60) } }
+  )
+}
@@ -0,0 +1,52 @@
+import { createClient } from 'redis'
+import type { RateLimitStore } from './rateLimit'
+
+// Redis driver for lib/rateLimit (Node runtime only). One shared connection;
+// the token bucket is a Lua script so concurrent requests cannot overdraw it.
+
+const TAKE_SCRIPT = `
+local b = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local cap = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local tokens = tonumber(b[1]) or cap
+local ts = tonumber(b[2]) or now
+tokens = math.min(cap, tokens + math.max(0, now - ts) / 1000 * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(cap / rate * 1000))
+return { allowed, tostring(tokens) }
+`
+
+export async function createRedisRateLimitStore(url = process.env.REDIS_URL): Promise<RateLimitStore> {
+  if (!url) throw new Error('REDIS_URL not set')
+  const client = createClient({ url })
+  client.on('error', (e) => console.error('[RateLimit] Redis error:', e?.message || e))
+  await client.connect()
+  return {
+    driver: 'redis',
+    async take(key, bucket, now) {
+      const [allowed, tokensRaw] = (await client.eval(TAKE_SCRIPT, {
+        keys: [key],
+        arguments: [String(bucket.capacity), String(bucket.refillPerSecond), String(now)],
+      })) as [number, string]
+      const tokens = parseFloat(tokensRaw)
+      return {
+        allowed: allowed === 1,
+        remaining: Math.floor(tokens),
+        retryAfterSeconds: allowed === 1 ? 0 : Math.ceil((1 - tokens) / bucket.refillPerSecond),
+      }
+    },
+    async incr(key, amount, ttlSeconds) {
+      const [value] = await client.multi().incrBy(key, amount).expire(key, ttlSeconds).exec()
+      return Number(value)
+    },
+    async get(key) {
+      return Number((await client.get(key)) || 0)
+    },
+  }
+}
@@ -1,3 +1,10 @@
+import { toRealtimeTools } from './httpTools'
+import { HttpToolSchema } from './validation'
+import { RedactionPolicySchema, type RedactionPolicyInput } from './redaction'
+import { PostCallConfigSchema, type PostCallConfigInput } from './postCall'
+import { GreetingConfigSchema, type GreetingConfigInput } from './greeting'
+import { DEFAULT_PROFILE, getActiveProfileName, getProfileSettings, saveProfile } from './profiles'
+
 type TurnDetectionNone = { type: 'none' }
 type TurnDetectionVad = {
   type: 'server_vad'
@@ -27,20 +34,62 @@ export type RealtimeControlSettings = {
         silence_duration_ms?: number
         create_response?: boolean
       }
-  tools?: any[]  // Function tools array
+  tools?: any[]  // Function tools array; entries with type 'http' are executed by the bridge
   tool_choice?: 'auto' | 'none' | 'required' | string  // Strategy or specific function
   temperature?: number  // 0.0 to 2.0
   max_response_output_tokens?: number | null  // Max tokens for response
+  redaction?: RedactionPolicyInput  // PII redaction for this profile's transcripts and logs (bridge only)
+  post_call?: PostCallConfigInput  // Summary, disposition and field extraction after the call (bridge only)
+  greeting?: GreetingConfigInput  // Opening line for inbound and outbound calls (bridge only)
 }
 
-let dynamicSettings: RealtimeControlSettings | null = null
+// Settings now live in persistent agent profiles (lib/profiles). These helpers
+// read/write the active profile, or a named one when given.
+export async function getRealtimeControlSettings(profile?: string | null): Promise<RealtimeControlSettings | null> {
+  return getProfileSettings(profile)
+}
 
-export function setRealtimeControlSettings(s: RealtimeControlSettings | null) {
-  dynamicSettings = s
+export async function setRealtimeControlSettings(s: RealtimeControlSettings, opts?: { profile?: string; note?: string }) {
+  const name = opts?.profile || (await getActiveProfileName()) || DEFAULT_PROFILE
+  return saveProfile(name, s, { note: opts?.note })
 }
 
-export function getRealtimeControlSettings(): RealtimeControlSettings | null {
-  return dynamicSettings
+// Validates declarative http tools; other tool entries pass through unchanged
+export function normalizeControlSettings(settings: RealtimeControlSettings):
+  | { ok: true; settings: RealtimeControlSettings }
+  | { ok: false; error: string; details?: unknown } {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return { ok: false, error: 'settings must be an object' }
+  }
+  if (settings.redaction !== undefined) {
+    const parsed = RedactionPolicySchema.safeParse(settings.redaction)
+    if (!parsed.success) return { ok: false, error: 'Invalid redaction policy', details: parsed.error.flatten() }
+    settings = { ...settings, redaction: parsed.data }
+  }
+  if (settings.post_call !== undefined) {
+    const parsed = PostCallConfigSchema.safeParse(settings.post_call)
+    if (!parsed.success) return { ok: false, error: 'Invalid post_call config', details: parsed.error.flatten() }
+    settings = { ...settings, post_call: parsed.data }
+  }
+  if (settings.greeting !== undefined) {
+    const parsed = GreetingConfigSchema.safeParse(settings.greeting)
+    if (!parsed.success) return { ok: false, error: 'Invalid greeting', details: parsed.error.flatten() }
+    settings = { ...settings, greeting: parsed.data }
+  }
+  if (!Array.isArray(settings.tools)) return { ok: true, settings }
+  const tools: any[] = []
+  for (const t of settings.tools) {
+    if (t?.type !== 'http') {
+      tools.push(t)
+      continue
+    }
+    const parsed = HttpToolSchema.safeParse(t)
+    if (!parsed.success) {
+      return { ok: false, error: `Invalid http tool ${t?.name || ''}`.trim(), details: parsed.error.flatten() }
+    }
+    tools.push(parsed.data)
+  }
+  return { ok: true, settings: { ...settings, tools } }
 }
 
 export function buildServerUpdateFromEnv() {
@@ -114,8 +163,8 @@ CONVERSATION: Listen actively. Respond helpfully. Confirm understanding.`
   return { type: 'session.update', session }
 }
 
-export function buildServerUpdate() {
-  const s = getRealtimeControlSettings()
+// Builds session.update from profile settings (see getRealtimeControlSettings)
+export function buildServerUpdate(s: RealtimeControlSettings | null) {
   if (!s) return buildServerUpdateFromEnv()
   const session: any = {}
   
@@ -123,7 +172,7 @@ export function buildServerUpdate() {
   if (s.voice) session.voice = s.voice
   if (s.instructions) session.instructions = s.instructions
   if (s.tool_choice) session.tool_choice = s.tool_choice
-  if (Array.isArray(s.tools) && s.tools.length > 0) session.tools = s.tools
+  if (Array.isArray(s.tools) && s.tools.length > 0) session.tools = toRealtimeTools(s.tools)
   if (typeof s.temperature === 'number') session.temperature = s.temperature
   if (typeof s.max_response_output_tokens === 'number') session.max_response_output_tokens = s.max_response_output_tokens
   if (s.turn_detection) session.turn_detection = s.turn_detection
@@ -139,6 +188,20 @@ export function buildServerUpdate() {
   return { type: 'session.update', session }
 }
 
+// session.update the Media Streams bridge sends on session.created: the profile's
+// settings, the instructions the session was minted with (call token) and G.711
+// μ-law passthrough, which Twilio requires
+export function buildBridgeSessionUpdate(s: RealtimeControlSettings | null, opts: { instructions?: string } = {}) {
+  const update: any = buildServerUpdate(s)
+  update.session = {
+    ...update.session,
+    ...(opts.instructions && { instructions: opts.instructions }),
+    input_audio_format: 'g711_ulaw',
+    output_audio_format: 'g711_ulaw',
+  }
+  return update as { type: 'session.update'; session: Record<string, any> }
+}
+
 function parseMaybeFloat(v?: string, fallback?: number) {
   if (v == null) return fallback
   const n = parseFloat(v)
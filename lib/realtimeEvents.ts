@@ -21,7 +21,9 @@ export type ServerEvent =
   | { type: 'conversation.item.added'; item: any }
   | { type: 'conversation.item.done'; item: any }
   | { type: 'conversation.item.retrieved'; item: any }
-  | { type: 'conversation.item.input_audio_transcription.completed'; item: any; text?: string }
+  | { type: 'conversation.item.input_audio_transcription.delta'; item_id: string; delta?: string }
+  | { type: 'conversation.item.input_audio_transcription.completed'; item_id?: string; item?: any; transcript?: string; text?: string }
+  | { type: 'conversation.item.input_audio_transcription.failed'; item_id: string; error?: any }
   | { type: 'conversation.item.delta'; delta?: any }
   | { type: 'conversation.item.segment'; segment?: any }
   | { type: 'conversation.item.failed'; reason?: string }
@@ -34,6 +36,11 @@ export type ServerEvent =
   | { type: 'input_audio_buffer.timeout_triggered' }
   | { type: 'response.created'; response: any }
   | { type: 'response.done'; response: any }
+  | { type: 'response.output_item.added'; item: any }
+  | { type: 'response.audio_transcript.delta'; item_id: string; delta: string }
+  | { type: 'response.audio_transcript.done'; item_id: string; transcript: string }
+  | { type: 'response.text.done'; item_id: string; text: string }
+  | { type: 'response.function_call_arguments.done'; call_id: string; item_id?: string; name?: string; arguments: string }
 
 export type AnyEvent = ClientEvent | ServerEvent
 
@@ -0,0 +1,199 @@
+import { z } from 'zod'
+
+// PII redaction for transcripts and logs. Pattern detectors find card numbers
+// (Luhn-checked), US SSNs, emails and phone numbers; the policy decides whether
+// each is masked (last four digits kept), hashed (stable keyed token) or dropped.
+// Redacted output never matches a detector again, so text can safely pass
+// through more than one redaction stage.
+
+export const PII_TYPES = ['card', 'ssn', 'email', 'phone'] as const
+export type PiiType = (typeof PII_TYPES)[number]
+
+export const RedactionActionSchema = z.enum(['mask', 'hash', 'drop'])
+export type RedactionAction = z.infer<typeof RedactionActionSchema>
+
+const PiiTypeSchema = z.enum(PII_TYPES)
+
+// Stored on agent profiles as settings.redaction; unset fields fall back to the env defaults
+export const RedactionPolicySchema = z.object({
+  enabled: z.boolean().optional(),
+  action: RedactionActionSchema.optional(),
+  detectors: z.array(PiiTypeSchema).optional(),
+  // Per-type action overrides
+  actions: z.object({
+    card: RedactionActionSchema.optional(),
+    ssn: RedactionActionSchema.optional(),
+    email: RedactionActionSchema.optional(),
+    phone: RedactionActionSchema.optional(),
+  }).optional(),
+})
+
+export type RedactionPolicyInput = z.infer<typeof RedactionPolicySchema>
+
+export type RedactionPolicy = {
+  enabled: boolean
+  action: RedactionAction
+  detectors: PiiType[]
+  actions: Partial<Record<PiiType, RedactionAction>>
+}
+
+export type RedactionCounts = Partial<Record<PiiType, number>>
+
+export type PiiMatch = { type: PiiType; start: number; end: number; value: string }
+
+// REDACTION_ENABLED (default true), REDACTION_ACTION (default mask), REDACTION_DETECTORS (default all)
+export function defaultRedactionPolicy(): RedactionPolicy {
+  const action = RedactionActionSchema.safeParse((process.env.REDACTION_ACTION || '').toLowerCase())
+  const detectors = (process.env.REDACTION_DETECTORS || '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is PiiType => (PII_TYPES as readonly string[]).includes(s))
+  return {
+    enabled: (process.env.REDACTION_ENABLED || 'true').toLowerCase() !== 'false',
+    action: action.success ? action.data : 'mask',
+    detectors: detectors.length ? detectors : [...PII_TYPES],
+    actions: {},
+  }
+}
+
+export function resolveRedactionPolicy(input?: RedactionPolicyInput | null): RedactionPolicy {
+  const base = defaultRedactionPolicy()
+  if (!input) return base
+  return {
+    enabled: input.enabled ?? base.enabled,
+    action: input.action ?? base.action,
+    detectors: input.detectors?.length ? input.detectors : base.detectors,
+    actions: { ...base.actions, ...input.actions },
+  }
+}
+
+export function luhnValid(digits: string) {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48
+    if (i % 2 === 1) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return digits.length > 0 && sum % 10 === 0
+}
+
+const DETECTORS: Array<{ type: PiiType; re: RegExp; accept?: (value: string) => boolean }> = [
+  {
+    type: 'card',
+    re: /(?<![\w•])\d(?:[ -]?\d){12,18}(?![\w•])/g,
+    accept: (v) => luhnValid(v.replace(/\D/g, '')),
+  },
+  {
+    type: 'ssn',
+    re: /(?<![\w•])(?!000|666|9\d\d)\d{3}([- ]?)(?!00)\d{2}\1(?!0000)\d{4}(?![\w•])/g,
+  },
+  {
+    type: 'email',
+    re: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  {
+    type: 'phone',
+    re: /(?<![\w•+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{3}\)|\d{3})[ .-]?\d{3}[ .-]?\d{4}(?![\w•])/g,
+  },
+]
+
+// Earlier detectors win when matches overlap (a card number is not also a phone number)
+export function findPii(text: string, types: readonly PiiType[] = PII_TYPES): PiiMatch[] {
+  const found: PiiMatch[] = []
+  for (const d of DETECTORS) {
+    if (!types.includes(d.type)) continue
+    for (const m of Array.from(text.matchAll(d.re))) {
+      const start = m.index ?? 0
+      const end = start + m[0].length
+      if (d.accept && !d.accept(m[0])) continue
+      if (found.some((f) => start < f.end && end > f.start)) continue
+      found.push({ type: d.type, start, end, value: m[0] })
+    }
+  }
+  return found.sort((a, b) => a.start - b.start)
+}
+
+// Every digit but the last four becomes a bullet; separators are kept
+function maskValue(type: PiiType, value: string) {
+  if (type === 'email') {
+    const at = value.indexOf('@')
+    return `${value[0]}${'•'.repeat(Math.max(1, at - 1))}${value.slice(at)}`
+  }
+  const total = value.replace(/\D/g, '').length
+  let seen = 0
+  return value.replace(/\d/g, (d) => (++seen > total - 4 ? d : '•'))
+}
+
+async function hashValue(type: PiiType, value: string) {
+  // Normalized so the same number spoken with different spacing hashes the same
+  const normalized = type === 'email' ? value.toLowerCase() : value.replace(/\D/g, '')
+  const enc = new TextEncoder()
+  const secret = process.env.REDACTION_HASH_SECRET
+  let digest: ArrayBuffer
+  if (secret) {
+    const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    digest = await crypto.subtle.sign('HMAC', key, enc.encode(normalized))
+  } else {
+    digest = await crypto.subtle.digest('SHA-256', enc.encode(normalized))
+  }
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4), (b) => b.toString(16).padStart(2, '0')).join('')
+  return `[${type}:${hex}]`
+}
+
+export async function redactText(text: string, policy: RedactionPolicy): Promise<{ text: string; counts: RedactionCounts }> {
+  const counts: RedactionCounts = {}
+  if (!policy.enabled || !text) return { text, counts }
+  const matches = findPii(text, policy.detectors)
+  if (!matches.length) return { text, counts }
+  let out = ''
+  let pos = 0
+  for (const m of matches) {
+    const action = policy.actions[m.type] || policy.action
+    const replacement = action === 'hash' ? await hashValue(m.type, m.value) : action === 'drop' ? `[${m.type} redacted]` : maskValue(m.type, m.value)
+    out += text.slice(pos, m.start) + replacement
+    pos = m.end
+    counts[m.type] = (counts[m.type] || 0) + 1
+  }
+  return { text: out + text.slice(pos), counts }
+}
+
+// Redacts every string inside a JSON-like value (log payloads)
+export async function redactDeep<T>(value: T, policy: RedactionPolicy): Promise<{ value: T; counts: RedactionCounts }> {
+  let counts: RedactionCounts = {}
+  const walk = async (v: any): Promise<any> => {
+    if (typeof v === 'string') {
+      const r = await redactText(v, policy)
+      counts = mergeRedactionCounts(counts, r.counts)
+      return r.text
+    }
+    if (Array.isArray(v)) return Promise.all(v.map(walk))
+    if (v && typeof v === 'object') {
+      const out: any = {}
+      for (const [k, x] of Object.entries(v)) out[k] = await walk(x)
+      return out
+    }
+    return v
+  }
+  if (!policy.enabled) return { value, counts }
+  return { value: await walk(value), counts }
+}
+
+// Streaming deltas can split a number across events, where no detector sees it whole.
+// While a policy is active, live deltas carry no digits at all; the finalized turn has the precise redaction.
+export async function redactDelta(text: string, policy: RedactionPolicy) {
+  if (!policy.enabled) return text
+  return (await redactText(text, policy)).text.replace(/\d/g, '•')
+}
+
+export function mergeRedactionCounts(a: RedactionCounts, b: RedactionCounts): RedactionCounts {
+  const out: RedactionCounts = { ...a }
+  for (const [k, n] of Object.entries(b) as Array<[PiiType, number]>) out[k] = (out[k] || 0) + n
+  return out
+}
+
+export function countTotal(counts: RedactionCounts) {
+  return Object.values(counts).reduce((s, n) => s + (n || 0), 0)
+}
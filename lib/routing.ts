@@ -0,0 +1,114 @@
+import { z } from 'zod'
+import { getJson, setJson } from './store'
+import { ProfileNameSchema } from './profiles'
+import { CLOCK_REGEX, defaultTimeZone, inClockRange, isValidTimeZone, zonedParts } from './timezone'
+
+// Inbound routing table for /api/twiml. Rules are evaluated in order and the
+// first enabled rule whose conditions all match decides the agent profile,
+// the media mode, or a fallback that bypasses the AI entirely.
+
+const E164 = z.string().regex(/^\+[1-9]\d{1,14}$/, 'Must be E.164')
+const TimeZone = z.string().refine(isValidTimeZone, 'Unknown time zone')
+
+export const RouteFallbackSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('voicemail'),
+    message: z.string().max(1000).optional(),
+    maxLengthSeconds: z.number().int().min(5).max(3600).optional(),
+  }),
+  z.object({
+    type: z.literal('forward'),
+    number: E164,
+    timeoutSeconds: z.number().int().min(5).max(600).optional(),
+    message: z.string().max(1000).optional(),
+  }),
+  z.object({
+    type: z.literal('say'),
+    message: z.string().min(1).max(1000),
+  }),
+])
+
+export const RoutingRuleSchema = z.object({
+  id: z.string().min(1).max(64),
+  description: z.string().max(256).optional(),
+  enabled: z.boolean().default(true),
+  match: z.object({
+    // Called Twilio numbers
+    to: z.array(E164).optional(),
+    // Caller ID prefixes, e.g. "+1415" or "+44"
+    callerPrefix: z.array(z.string().regex(/^\+?\d{1,15}$/)).optional(),
+    // 0 = Sunday ... 6 = Saturday, in the rule's time zone
+    days: z.array(z.number().int().min(0).max(6)).optional(),
+    // Half-open HH:MM range; start > end wraps past midnight
+    time: z.object({ start: z.string().regex(CLOCK_REGEX), end: z.string().regex(CLOCK_REGEX) }).optional(),
+    timezone: TimeZone.optional(),
+  }).default({}),
+  action: z.object({
+    profile: ProfileNameSchema.optional(),
+    // SIP mode was removed (see lib/config TwimlMode)
+    mode: z.enum(['stream'], { errorMap: () => ({ message: "Only 'stream' is supported; SIP mode was removed" }) }).optional(),
+    fallback: RouteFallbackSchema.optional(),
+  }),
+})
+
+export const RoutingTableSchema = z.object({
+  timezone: TimeZone.optional(),
+  rules: z.array(RoutingRuleSchema).max(200).default([]),
+}).refine((t) => new Set(t.rules.map((r) => r.id)).size === t.rules.length, { message: 'Rule ids must be unique' })
+
+export type RouteFallback = z.infer<typeof RouteFallbackSchema>
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>
+export type RoutingTable = z.infer<typeof RoutingTableSchema>
+
+export type RouteContext = {
+  to?: string | null
+  from?: string | null
+  now: Date
+}
+
+const TABLE_KEY = 'routing:table'
+
+function normalizeNumber(n?: string | null) {
+  return (n || '').replace(/[^\d+]/g, '')
+}
+
+export function ruleMatches(rule: RoutingRule, ctx: RouteContext, tableTimeZone?: string) {
+  if (!rule.enabled) return false
+  const m = rule.match
+  if (m.to && m.to.length > 0) {
+    const to = normalizeNumber(ctx.to)
+    if (!m.to.includes(to)) return false
+  }
+  if (m.callerPrefix && m.callerPrefix.length > 0) {
+    const from = normalizeNumber(ctx.from)
+    const ok = m.callerPrefix.some((p) => from.startsWith(p.startsWith('+') ? p : `+${p}`))
+    if (!ok) return false
+  }
+  if ((m.days && m.days.length > 0) || m.time) {
+    const local = zonedParts(ctx.now, m.timezone || tableTimeZone || defaultTimeZone())
+    if (m.days && m.days.length > 0) {
+      // Overnight ranges belong to the day they started on
+      let weekday = local.weekday
+      if (m.time && !inClockRange(local.minutes, m.time.start, '24:00') && inClockRange(local.minutes, m.time.start, m.time.end)) {
+        weekday = (weekday + 6) % 7
+      }
+      if (!m.days.includes(weekday)) return false
+    }
+    if (m.time && !inClockRange(local.minutes, m.time.start, m.time.end)) return false
+  }
+  return true
+}
+
+export function matchRoute(table: RoutingTable | null, ctx: RouteContext): RoutingRule | null {
+  if (!table) return null
+  return table.rules.find((r) => ruleMatches(r, ctx, table.timezone)) || null
+}
+
+export async function getRoutingTable(): Promise<RoutingTable | null> {
+  return getJson<RoutingTable>(TABLE_KEY)
+}
+
+export async function saveRoutingTable(table: RoutingTable) {
+  await setJson(TABLE_KEY, table)
+  return table
+}
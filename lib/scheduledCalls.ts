@@ -0,0 +1,190 @@
+import { z } from 'zod'
+import { getJson, setJson, setJsonIfAbsent } from './store'
+import { ProfileNameSchema } from './profiles'
+import { OutgoingCallSchema, type OutgoingCallRequest } from './validation'
+import { defaultTimeZone, isValidTimeZone, zonedTimeToUtc } from './timezone'
+import { placeOutboundCall } from './dialer'
+
+// Calls queued for a future time. Jobs keep the /api/calls payload and the
+// ephemeral secret is minted by the dispatcher at dial time, since secrets
+// expire long before most scheduled times.
+
+export type ScheduledCallStatus = 'scheduled' | 'dialing' | 'dialed' | 'failed' | 'canceled' | 'missed'
+
+export type ScheduledCall = {
+  id: string
+  status: ScheduledCallStatus
+  // UTC epoch ms
+  runAt: number
+  // Callee's time zone and the wall-clock time it was scheduled for
+  timezone: string
+  localTime: string
+  profile?: string
+  // OutgoingCallSchema payload without client-supplied credentials
+  call: Omit<OutgoingCallRequest, 'openaiApiKey' | 'twilioAccountSid' | 'twilioAuthToken' | 'twilioFromNumber'>
+  callSid?: string
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type ScheduledCallDeps = {
+  dial: (job: ScheduledCall) => Promise<{ callSid: string }>
+}
+
+const TimeZone = z.string().refine(isValidTimeZone, 'Unknown time zone')
+const LOCAL_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/
+const MAX_AHEAD_MS = 365 * 24 * 60 * 60 * 1000
+
+// `at` is either an ISO timestamp with offset, or a wall-clock time in `timezone`
+export const ScheduleTimeSchema = z.object({
+  at: z.string().refine((v) => LOCAL_TIME.test(v) || !isNaN(Date.parse(v)), 'Use YYYY-MM-DDTHH:MM or an ISO timestamp'),
+  timezone: TimeZone.optional(),
+})
+
+export const ScheduledCallCreateSchema = ScheduleTimeSchema.extend({
+  call: OutgoingCallSchema,
+  profile: ProfileNameSchema.optional(),
+})
+
+const INDEX_KEY = 'scheduled:index'
+const jobKey = (id: string) => `scheduled:${id}`
+// One claim per job and run time, so a job postponed by a rate limit can be claimed again
+const claimKey = (job: ScheduledCall) => `scheduled-claim:${job.id}:${job.runAt}`
+const CLAIM_SECONDS = 600
+
+function maxLateMs() {
+  const n = parseInt(process.env.SCHEDULED_CALL_MAX_LATE_MINUTES || '60', 10)
+  return (Number.isFinite(n) && n > 0 ? n : 60) * 60 * 1000
+}
+
+export function resolveScheduleTime(input: z.infer<typeof ScheduleTimeSchema>, fallbackTimeZone = 'UTC') {
+  const timezone = input.timezone || fallbackTimeZone
+  const date = LOCAL_TIME.test(input.at) ? zonedTimeToUtc(input.at, timezone) : new Date(input.at)
+  return { runAt: date.getTime(), timezone, localTime: input.at }
+}
+
+// Returns an error message when runAt cannot be scheduled
+export function checkRunAt(runAt: number, now = Date.now()) {
+  if (!Number.isFinite(runAt)) return 'Invalid time'
+  if (runAt < now - 60_000) return 'Time is in the past'
+  if (runAt > now + MAX_AHEAD_MS) return 'Time is more than a year ahead'
+  return null
+}
+
+async function readIndex(): Promise<string[]> {
+  return (await getJson<string[]>(INDEX_KEY)) || []
+}
+
+export async function getScheduledCall(id: string) {
+  return getJson<ScheduledCall>(jobKey(id))
+}
+
+async function saveJob(job: ScheduledCall) {
+  await setJson(jobKey(job.id), job)
+  const index = await readIndex()
+  if (!index.includes(job.id)) await setJson(INDEX_KEY, [...index, job.id])
+  return job
+}
+
+export async function createScheduledCall(input: z.infer<typeof ScheduledCallCreateSchema>, now = new Date()) {
+  const { runAt, timezone, localTime } = resolveScheduleTime(input, defaultTimeZone())
+  const error = checkRunAt(runAt, now.getTime())
+  if (error) return { error }
+  // Client credentials are never persisted; the dispatcher dials with server credentials
+  const { openaiApiKey: _k, twilioAccountSid: _s, twilioAuthToken: _t, twilioFromNumber: _f, ...call } = input.call
+  const job: ScheduledCall = {
+    id: `sch_${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    status: 'scheduled',
+    runAt,
+    timezone,
+    localTime,
+    ...(input.profile && { profile: input.profile }),
+    call,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  }
+  return { job: await saveJob(job) }
+}
+
+export async function listScheduledCalls(status?: ScheduledCallStatus) {
+  const ids = await readIndex()
+  const jobs = await Promise.all(ids.map((id) => getScheduledCall(id)))
+  return jobs
+    .filter((j): j is ScheduledCall => !!j && (!status || j.status === status))
+    .sort((a, b) => a.runAt - b.runAt)
+}
+
+// Only jobs that have not started dialing can be canceled or rescheduled
+export async function cancelScheduledCall(id: string) {
+  const job = await getScheduledCall(id)
+  if (!job) return { error: 'Not found', status: 404 }
+  if (job.status !== 'scheduled') return { error: `Cannot cancel a ${job.status} call`, status: 409 }
+  job.status = 'canceled'
+  job.updatedAt = new Date().toISOString()
+  return { job: await saveJob(job) }
+}
+
+export async function rescheduleCall(id: string, input: z.infer<typeof ScheduleTimeSchema>, now = new Date()) {
+  const job = await getScheduledCall(id)
+  if (!job) return { error: 'Not found', status: 404 }
+  if (job.status !== 'scheduled' && job.status !== 'missed') return { error: `Cannot reschedule a ${job.status} call`, status: 409 }
+  const next = resolveScheduleTime(input, job.timezone)
+  const error = checkRunAt(next.runAt, now.getTime())
+  if (error) return { error, status: 400 }
+  Object.assign(job, next, { status: 'scheduled', updatedAt: now.toISOString() })
+  delete job.error
+  return { job: await saveJob(job) }
+}
+
+// Dispatcher: claims each due job (SET NX) before dialing so an overlapping run skips it.
+// Jobs later than SCHEDULED_CALL_MAX_LATE_MINUTES are marked missed instead of dialed;
+// rate limits and spend caps postpone a job by their retryAfter.
+export async function dispatchDueCalls(deps: ScheduledCallDeps, now = Date.now()) {
+  const due = (await listScheduledCalls('scheduled')).filter((j) => j.runAt <= now)
+  const results: ScheduledCall[] = []
+  for (const listed of due) {
+    if (!(await setJsonIfAbsent(claimKey(listed), new Date(now).toISOString(), { ttlSeconds: CLAIM_SECONDS }))) continue
+    // Another run may have finished the job between listing and claiming
+    const job = await getScheduledCall(listed.id)
+    if (!job || job.status !== 'scheduled' || job.runAt !== listed.runAt) continue
+    job.updatedAt = new Date(now).toISOString()
+    if (now - job.runAt > maxLateMs()) {
+      job.status = 'missed'
+      results.push(await saveJob(job))
+      continue
+    }
+    job.status = 'dialing'
+    await saveJob(job)
+    try {
+      const { callSid } = await deps.dial(job)
+      job.status = 'dialed'
+      job.callSid = callSid
+    } catch (e: any) {
+      if (e?.status === 429) {
+        job.status = 'scheduled'
+        job.runAt = now + (e.retryAfter || 60) * 1000
+      } else {
+        job.status = 'failed'
+        job.error = e?.message || String(e)
+      }
+    }
+    job.updatedAt = new Date().toISOString()
+    results.push(await saveJob(job))
+  }
+  return results
+}
+
+export function defaultScheduledCallDeps(baseUrl: string): ScheduledCallDeps {
+  return {
+    dial: (job) =>
+      placeOutboundCall({
+        toNumber: job.call.toNumber,
+        ephemeral: job.call.ephemeral,
+        record: job.call.record,
+        profile: job.profile,
+        baseUrl,
+      }),
+  }
+}
+
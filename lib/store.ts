@@ -0,0 +1,249 @@
+// Small JSON document store for server-side state (profiles, routing tables, ...).
+// Drivers:
+// - kv: @vercel/kv / Upstash REST (works in both Node and Edge runtimes)
+// - file: JSON file under DATA_DIR (default .data/) for local development
+// - memory: process-local map; used on Edge when KV is not configured
+// Selected by STORE_DRIVER, otherwise kv when KV credentials exist, else file (Node) / memory (Edge).
+
+export type StoreDriverName = 'kv' | 'file' | 'memory'
+
+type Entry = { value: any; expiresAt?: number }
+
+const KV_URL = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL
+const KV_TOKEN = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN
+
+// In-memory fallback (not shared between instances)
+const memoryStore: Map<string, Entry> = (globalThis as any).__memStore || new Map()
+;(globalThis as any).__memStore = memoryStore
+
+export function storeDriver(): StoreDriverName {
+  const configured = (process.env.STORE_DRIVER || '').toLowerCase()
+  if (configured === 'kv' || configured === 'file' || configured === 'memory') return configured
+  if (KV_URL && KV_TOKEN) return 'kv'
+  if (process.env.NEXT_RUNTIME === 'edge') return 'memory'
+  return 'file'
+}
+
+async function getKv() {
+  const mod = await import('@vercel/kv')
+  return mod.kv
+}
+
+// Memory values are copied so callers cannot mutate stored state, matching kv/file semantics
+function clone<T>(v: T): T {
+  return v === undefined ? v : JSON.parse(JSON.stringify(v))
+}
+
+function isLive(e: Entry | undefined): e is Entry {
+  return !!e && (e.expiresAt == null || e.expiresAt > Date.now())
+}
+
+// File driver: a single JSON map, serialized through one promise chain per process
+let fileQueue: Promise<unknown> = Promise.resolve()
+
+function dataFile() {
+  const dir = process.env.DATA_DIR || '.data'
+  return { dir, file: `${dir.replace(/\/$/, '')}/store.json` }
+}
+
+async function readFileMap(): Promise<Record<string, Entry>> {
+  const fs = await import('fs/promises')
+  try {
+    const raw = await fs.readFile(dataFile().file, 'utf8')
+    return raw ? JSON.parse(raw) : {}
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return {}
+    throw e
+  }
+}
+
+async function writeFileMap(map: Record<string, Entry>) {
+  const fs = await import('fs/promises')
+  const { dir, file } = dataFile()
+  await fs.mkdir(dir, { recursive: true })
+  const tmp = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(map, null, 2))
+  await fs.rename(tmp, file)
+}
+
+function withFileLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = fileQueue.then(fn, fn)
+  fileQueue = run.catch(() => {})
+  return run
+}
+
+export async function getJson<T = any>(key: string): Promise<T | null> {
+  const driver = storeDriver()
+  if (driver === 'kv') {
+    const kv = await getKv()
+    const v = await kv.get<T>(key)
+    return v ?? null
+  }
+  if (driver === 'file') {
+    const map = await withFileLock(readFileMap)
+    const e = map[key]
+    return isLive(e) ? (e.value as T) : null
+  }
+  const e = memoryStore.get(key)
+  return isLive(e) ? clone(e.value as T) : null
+}
+
+export async function setJson(key: string, value: any, opts?: { ttlSeconds?: number }) {
+  const driver = storeDriver()
+  const ttl = opts?.ttlSeconds
+  if (driver === 'kv') {
+    const kv = await getKv()
+    if (ttl) await kv.set(key, value, { ex: ttl })
+    else await kv.set(key, value)
+    return
+  }
+  const entry: Entry = { value, ...(ttl ? { expiresAt: Date.now() + ttl * 1000 } : {}) }
+  if (driver === 'file') {
+    await withFileLock(async () => {
+      const map = await readFileMap()
+      map[key] = entry
+      await writeFileMap(map)
+    })
+    return
+  }
+  memoryStore.set(key, clone(entry))
+}
+
+export async function deleteKey(key: string) {
+  const driver = storeDriver()
+  if (driver === 'kv') {
+    const kv = await getKv()
+    await kv.del(key)
+    return
+  }
+  if (driver === 'file') {
+    await withFileLock(async () => {
+      const map = await readFileMap()
+      delete map[key]
+      await writeFileMap(map)
+    })
+    return
+  }
+  memoryStore.delete(key)
+}
+
+// Atomic create (SET NX): stores the value and returns true only when the key is absent or expired
+export async function setJsonIfAbsent(key: string, value: any, opts?: { ttlSeconds?: number }): Promise<boolean> {
+  const driver = storeDriver()
+  const ttl = opts?.ttlSeconds
+  if (driver === 'kv') {
+    const kv = await getKv()
+    const res = ttl ? await kv.set(key, value, { nx: true, ex: ttl }) : await kv.set(key, value, { nx: true })
+    return res === 'OK'
+  }
+  const entry: Entry = { value, ...(ttl ? { expiresAt: Date.now() + ttl * 1000 } : {}) }
+  if (driver === 'file') {
+    return withFileLock(async () => {
+      const map = await readFileMap()
+      if (isLive(map[key])) return false
+      map[key] = entry
+      await writeFileMap(map)
+      return true
+    })
+  }
+  if (isLive(memoryStore.get(key))) return false
+  memoryStore.set(key, clone(entry))
+  return true
+}
+
+// Atomic get-and-delete: of concurrent callers, only one receives the value
+export async function takeJson<T = any>(key: string): Promise<T | null> {
+  const driver = storeDriver()
+  if (driver === 'kv') {
+    const kv = await getKv()
+    const v = await kv.getdel<T>(key)
+    return v ?? null
+  }
+  if (driver === 'file') {
+    return withFileLock(async () => {
+      const map = await readFileMap()
+      const e = map[key]
+      if (!e) return null
+      delete map[key]
+      await writeFileMap(map)
+      return isLive(e) ? (e.value as T) : null
+    })
+  }
+  const e = memoryStore.get(key)
+  memoryStore.delete(key)
+  return isLive(e) ? clone(e.value as T) : null
+}
+
+// Atomic append (RPUSH + LTRIM) to a list, keeping its newest `max` items
+export async function pushList(key: string, value: any, opts?: { max?: number }) {
+  const driver = storeDriver()
+  const max = opts?.max
+  if (driver === 'kv') {
+    const kv = await getKv()
+    await kv.rpush(key, value)
+    if (max) await kv.ltrim(key, -max, -1)
+    return
+  }
+  const append = (e: Entry | undefined): Entry => {
+    const items = [...(isLive(e) && Array.isArray(e.value) ? e.value : []), value]
+    return { value: max ? items.slice(-max) : items }
+  }
+  if (driver === 'file') {
+    await withFileLock(async () => {
+      const map = await readFileMap()
+      map[key] = append(map[key])
+      await writeFileMap(map)
+    })
+    return
+  }
+  memoryStore.set(key, clone(append(memoryStore.get(key))))
+}
+
+// Items of a list written by pushList, oldest first
+export async function getList<T = any>(key: string): Promise<T[]> {
+  const driver = storeDriver()
+  if (driver === 'kv') {
+    const kv = await getKv()
+    return kv.lrange<T>(key, 0, -1)
+  }
+  if (driver === 'file') {
+    const map = await withFileLock(readFileMap)
+    const e = map[key]
+    return isLive(e) && Array.isArray(e.value) ? (e.value as T[]) : []
+  }
+  const e = memoryStore.get(key)
+  return isLive(e) && Array.isArray(e.value) ? clone(e.value as T[]) : []
+}
+
+// Atomic pop (LPOP) of up to `count` of a list's oldest items; concurrent callers get disjoint items
+export async function popList<T = any>(key: string, count: number): Promise<T[]> {
+  const driver = storeDriver()
+  if (driver === 'kv') {
+    const kv = await getKv()
+    const items = await kv.lpop<T[]>(key, count)
+    return items || []
+  }
+  const take = (e: Entry | undefined): { items: T[]; rest: Entry | null } => {
+    const all = isLive(e) && Array.isArray(e.value) ? (e.value as T[]) : []
+    return { items: all.slice(0, count), rest: all.length > count ? { ...e!, value: all.slice(count) } : null }
+  }
+  if (driver === 'file') {
+    return withFileLock(async () => {
+      const map = await readFileMap()
+      const { items, rest } = take(map[key])
+      if (rest) map[key] = rest
+      else delete map[key]
+      await writeFileMap(map)
+      return items
+    })
+  }
+  const { items, rest } = take(memoryStore.get(key))
+  if (rest) memoryStore.set(key, rest)
+  else memoryStore.delete(key)
+  return clone(items)
+}
+
+// Test helper: drop all memory-driver state
+export function resetMemoryStore() {
+  memoryStore.clear()
+}
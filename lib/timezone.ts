@@ -0,0 +1,110 @@
+// Time zone helpers built on Intl (no tz database dependency).
+
+export type ZonedParts = {
+  year: number
+  month: number
+  day: number
+  weekday: number // 0 = Sunday
+  hour: number
+  minute: number
+  // YYYY-MM-DD in the target zone
+  date: string
+  // Minutes since local midnight
+  minutes: number
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string) {
+  let f = formatters.get(timeZone)
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+    formatters.set(timeZone, f)
+  }
+  return f
+}
+
+export function isValidTimeZone(tz: string) {
+  try {
+    formatterFor(tz)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {}
+  for (const p of formatterFor(timeZone).formatToParts(date)) parts[p.type] = p.value
+  const year = parseInt(parts.year, 10)
+  const month = parseInt(parts.month, 10)
+  const day = parseInt(parts.day, 10)
+  const hour = parseInt(parts.hour, 10) % 24
+  const minute = parseInt(parts.minute, 10)
+  return {
+    year,
+    month,
+    day,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour,
+    minute,
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: hour * 60 + minute,
+  }
+}
+
+// "HH:MM" -> minutes since midnight ("24:00" allowed as end of day)
+export function parseClock(hhmm: string) {
+  const m = /^(\d{2}):(\d{2})$/.exec(hhmm)
+  if (!m) return NaN
+  const h = parseInt(m[1], 10)
+  const min = parseInt(m[2], 10)
+  if (h > 24 || min > 59 || (h === 24 && min > 0)) return NaN
+  return h * 60 + min
+}
+
+export const CLOCK_REGEX = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/
+
+// Half-open [start, end); a range with start > end wraps past midnight
+export function inClockRange(minutes: number, start: string, end: string) {
+  const s = parseClock(start)
+  const e = parseClock(end)
+  if (!Number.isFinite(s) || !Number.isFinite(e)) return false
+  if (s === e) return false
+  return s < e ? minutes >= s && minutes < e : minutes >= s || minutes < e
+}
+
+export function defaultTimeZone() {
+  return process.env.DEFAULT_TIMEZONE || 'UTC'
+}
+
+// Offset of `timeZone` from UTC at an instant, in ms (local - UTC)
+function zoneOffsetMs(ms: number, timeZone: string) {
+  const p = zonedParts(new Date(ms), timeZone)
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, new Date(ms).getUTCSeconds()) - ms
+}
+
+// Wall-clock "YYYY-MM-DDTHH:MM[:SS]" in `timeZone` -> UTC instant.
+// Ambiguous times (DST fall-back) resolve to the first occurrence; times
+// skipped by a spring-forward jump resolve to the instant after the gap.
+export function zonedTimeToUtc(local: string, timeZone: string): Date {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(local)
+  if (!m) return new Date(NaN)
+  const target = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +(m[6] || 0))
+  const first = target - zoneOffsetMs(target, timeZone)
+  const offset = zoneOffsetMs(first, timeZone)
+  const second = target - offset
+  if (second === first || zoneOffsetMs(second, timeZone) === offset) return new Date(second)
+  return new Date(Math.max(first, second))
+}
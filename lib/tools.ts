@@ -0,0 +1,106 @@
+import { findHttpTool, runHttpTool } from './httpTools'
+
+// Function tool execution for realtime sessions.
+// Handlers are registered by tool name; the media-stream bridge calls
+// executeToolCall() when the model emits a function_call item and sends the
+// result back as a function_call_output conversation item.
+
+export type ToolCall = {
+  name: string
+  call_id: string
+  arguments?: string
+}
+
+export type ToolContext = {
+  callSid: string
+  streamSid: string
+}
+
+export type ToolHandler = (args: any, ctx: ToolContext) => Promise<unknown> | unknown
+
+export type ToolResult = {
+  ok: boolean
+  output: string
+  error?: string
+  durationMs: number
+}
+
+type RegisteredTool = {
+  handler: ToolHandler
+  timeoutMs?: number
+}
+
+const DEFAULT_TOOL_TIMEOUT_MS = 10000
+const MAX_OUTPUT_CHARS = 16000
+
+const registry: Map<string, RegisteredTool> = new Map()
+
+export function registerToolHandler(name: string, handler: ToolHandler, opts?: { timeoutMs?: number }) {
+  registry.set(name, { handler, timeoutMs: opts?.timeoutMs })
+}
+
+export function unregisterToolHandler(name: string) {
+  registry.delete(name)
+}
+
+export function hasToolHandler(name: string) {
+  return registry.has(name)
+}
+
+function defaultTimeoutMs() {
+  const n = parseInt(process.env.REALTIME_TOOL_TIMEOUT_MS || '', 10)
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_TOOL_TIMEOUT_MS
+}
+
+function parseArguments(raw?: string) {
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    throw new Error('Tool arguments are not valid JSON')
+  }
+}
+
+function serializeOutput(value: unknown) {
+  const s = typeof value === 'string' ? value : JSON.stringify(value ?? null)
+  return s.length > MAX_OUTPUT_CHARS ? s.slice(0, MAX_OUTPUT_CHARS) : s
+}
+
+function withTimeout<T>(p: Promise<T>, ms: number, name: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Tool ${name} timed out after ${ms}ms`)), ms)
+  })
+  return Promise.race([p, timeout]).finally(() => clearTimeout(timer))
+}
+
+// Registered handlers take precedence; otherwise a declarative http tool of
+// the same name from the session's tool definitions is used.
+function resolveTool(name: string, tools?: any[]): RegisteredTool | undefined {
+  const registered = registry.get(name)
+  if (registered) return registered
+  const def = findHttpTool(tools, name)
+  if (!def) return undefined
+  return { handler: (args) => runHttpTool(def, args), timeoutMs: def.http.timeout_ms }
+}
+
+// Never throws: failures are reported to the model as a JSON error output so
+// the conversation can continue instead of stalling on a missing result.
+export async function executeToolCall(
+  call: ToolCall,
+  ctx: ToolContext,
+  opts?: { timeoutMs?: number; tools?: any[] }
+): Promise<ToolResult> {
+  const started = Date.now()
+  const entry = resolveTool(call.name, opts?.tools)
+  try {
+    if (!entry) throw new Error(`No handler registered for tool ${call.name}`)
+    const args = parseArguments(call.arguments)
+    const ms = opts?.timeoutMs ?? entry.timeoutMs ?? defaultTimeoutMs()
+    const value = await withTimeout(Promise.resolve().then(() => entry.handler(args, ctx)), ms, call.name)
+    return { ok: true, output: serializeOutput(value), durationMs: Date.now() - started }
+  } catch (e: any) {
+    const error = e?.message || 'Tool execution failed'
+    return { ok: false, output: JSON.stringify({ error }), error, durationMs: Date.now() - started }
+  }
+}
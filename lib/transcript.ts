@@ -0,0 +1,170 @@
+import { getJson, setJson } from './store'
+
+// Speaker-attributed transcript assembled from Realtime server events.
+// One turn per conversation item: caller turns come from input audio
+// transcription, assistant turns from audio/text transcript deltas and their
+// .done events. Offsets are milliseconds since the call's stream started.
+
+export type TurnRole = 'user' | 'assistant'
+
+export type TranscriptTurn = {
+  item_id: string
+  role: TurnRole
+  text: string
+  startMs: number
+  endMs?: number
+  // No more text will arrive for this turn
+  final: boolean
+  // Assistant response cancelled by caller speech
+  interrupted?: boolean
+  // Assistant audio truncated at truncatedAtMs (ms into the item's audio)
+  truncated?: boolean
+  truncatedAtMs?: number
+}
+
+export type TranscriptState = {
+  startedAt: number
+  turns: TranscriptTurn[]
+}
+
+export type TranscriptUpdate = {
+  turn: TranscriptTurn
+  // Set once, when the turn first becomes final
+  finalized: boolean
+}
+
+export function createTranscriptState(startedAt = Date.now()): TranscriptState {
+  return { startedAt, turns: [] }
+}
+
+function findTurn(state: TranscriptState, itemId: string) {
+  return state.turns.find((t) => t.item_id === itemId)
+}
+
+function ensureTurn(state: TranscriptState, itemId: string, role: TurnRole, startMs: number) {
+  let turn = findTurn(state, itemId)
+  if (!turn) {
+    turn = { item_id: itemId, role, text: '', startMs, final: false }
+    state.turns.push(turn)
+  }
+  return turn
+}
+
+function finish(turn: TranscriptTurn, offset: number): TranscriptUpdate {
+  const finalized = !turn.final
+  turn.final = true
+  if (turn.endMs == null) turn.endMs = offset
+  return { turn, finalized }
+}
+
+// Applies one server event; returns the affected turn, or null for unrelated events
+export function applyTranscriptEvent(state: TranscriptState, msg: any, now = Date.now()): TranscriptUpdate | null {
+  const offset = Math.max(0, now - state.startedAt)
+  const itemId: string | undefined = msg?.item_id
+  switch (msg?.type) {
+    case 'input_audio_buffer.speech_started': {
+      if (!itemId) return null
+      const turn = ensureTurn(state, itemId, 'user', typeof msg.audio_start_ms === 'number' ? msg.audio_start_ms : offset)
+      return { turn, finalized: false }
+    }
+    case 'input_audio_buffer.speech_stopped': {
+      const turn = itemId && findTurn(state, itemId)
+      if (!turn) return null
+      turn.endMs = typeof msg.audio_end_ms === 'number' ? msg.audio_end_ms : offset
+      return { turn, finalized: false }
+    }
+    case 'conversation.item.input_audio_transcription.delta': {
+      if (!itemId || !msg.delta) return null
+      const turn = ensureTurn(state, itemId, 'user', offset)
+      if (!turn.final) turn.text += msg.delta
+      return { turn, finalized: false }
+    }
+    case 'conversation.item.input_audio_transcription.completed': {
+      if (!itemId) return null
+      const turn = ensureTurn(state, itemId, 'user', offset)
+      turn.text = (msg.transcript ?? turn.text ?? '').trim()
+      return finish(turn, offset)
+    }
+    case 'conversation.item.input_audio_transcription.failed': {
+      const turn = itemId && findTurn(state, itemId)
+      return turn ? finish(turn, offset) : null
+    }
+    case 'response.output_item.added': {
+      const item = msg.item
+      if (item?.type !== 'message' || item.role !== 'assistant' || !item.id) return null
+      return { turn: ensureTurn(state, item.id, 'assistant', offset), finalized: false }
+    }
+    case 'response.audio_transcript.delta':
+    case 'response.output_audio_transcript.delta':
+    case 'response.text.delta':
+    case 'response.output_text.delta': {
+      if (!itemId || !msg.delta) return null
+      const turn = ensureTurn(state, itemId, 'assistant', offset)
+      if (!turn.final) turn.text += msg.delta
+      return { turn, finalized: false }
+    }
+    case 'response.audio_transcript.done':
+    case 'response.output_audio_transcript.done':
+    case 'response.text.done':
+    case 'response.output_text.done': {
+      if (!itemId) return null
+      const turn = ensureTurn(state, itemId, 'assistant', offset)
+      const text = msg.transcript ?? msg.text
+      if (typeof text === 'string') turn.text = text
+      return finish(turn, offset)
+    }
+    case 'conversation.item.truncated': {
+      const turn = itemId && findTurn(state, itemId)
+      if (!turn) return null
+      turn.truncated = true
+      if (typeof msg.audio_end_ms === 'number') turn.truncatedAtMs = msg.audio_end_ms
+      return { turn, finalized: false }
+    }
+    case 'response.done': {
+      // Cancelled responses never send transcript .done events for their items
+      const cancelled = msg.response?.status === 'cancelled'
+      let last: TranscriptUpdate | null = null
+      for (const out of msg.response?.output || []) {
+        const turn = out?.id && findTurn(state, out.id)
+        if (!turn) continue
+        if (cancelled) turn.interrupted = true
+        last = finish(turn, offset)
+      }
+      return last
+    }
+  }
+  return null
+}
+
+// Marks every open turn final (call ended); returns the turns that were open
+export function finalizeTranscript(state: TranscriptState, now = Date.now()) {
+  const offset = Math.max(0, now - state.startedAt)
+  const open = state.turns.filter((t) => !t.final)
+  for (const t of open) {
+    if (t.role === 'assistant') t.interrupted = true
+    finish(t, offset)
+  }
+  return open
+}
+
+// Turns ordered by start offset, without empty caller turns (noise that never transcribed)
+export function orderedTurns(turns: TranscriptTurn[]) {
+  return turns
+    .filter((t) => t.role === 'assistant' || t.text.trim() !== '' || !t.final)
+    .sort((a, b) => a.startMs - b.startMs)
+}
+
+export const transcriptStoreKey = (callSid: string) => `turns:${callSid}`
+
+// startedAt (epoch ms of the stream start) lets exports align turns to the recording.
+// It is only missing when nothing was stored for the call.
+export type StoredTranscript = { startedAt?: number; turns: TranscriptTurn[] }
+
+export async function saveTranscript(callSid: string, state: TranscriptState) {
+  const stored: StoredTranscript = { startedAt: state.startedAt, turns: orderedTurns(state.turns) }
+  await setJson(transcriptStoreKey(callSid), stored)
+}
+
+export async function loadTranscript(callSid: string): Promise<StoredTranscript> {
+  return (await getJson<StoredTranscript>(transcriptStoreKey(callSid))) || { turns: [] }
+}
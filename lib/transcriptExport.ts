@@ -0,0 +1,101 @@
+import type { StoredTranscript, TranscriptTurn } from './transcript'
+import type { CallRecord } from './callRecords'
+
+// Post-call transcript exports: plain text, structured JSON, SRT and WebVTT.
+// Turn offsets are relative to the media stream start; exports shift them onto
+// the recording's timeline so captions line up with the recorded audio.
+
+export const TRANSCRIPT_FORMATS = ['txt', 'json', 'srt', 'vtt'] as const
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number]
+
+export type RenderedTranscript = { body: string; contentType: string; filename: string }
+
+type Cue = { role: TranscriptTurn['role']; speaker: string; text: string; startMs: number; endMs: number; interrupted?: boolean }
+
+// Captions for turns without an end get this long on screen
+const MIN_CUE_MS = 1000
+
+export function isTranscriptFormat(v: string): v is TranscriptFormat {
+  return (TRANSCRIPT_FORMATS as readonly string[]).includes(v)
+}
+
+export function speakerLabel(role: TranscriptTurn['role']) {
+  return role === 'user' ? 'Caller' : 'Agent'
+}
+
+// Milliseconds from the recording start to the stream start. Recordings begin
+// when the call is answered, before the stream connects; without both times, 0.
+export function recordingOffsetMs(transcript: StoredTranscript, record?: CallRecord | null) {
+  const recordingStart = record?.recordingStartedAt || record?.timestamps?.['in-progress']
+  if (!transcript.startedAt || !recordingStart) return 0
+  const start = Date.parse(recordingStart)
+  return Number.isFinite(start) ? transcript.startedAt - start : 0
+}
+
+export function toCues(turns: TranscriptTurn[], offsetMs = 0): Cue[] {
+  const spoken = turns.filter((t) => t.text.trim() !== '')
+  return spoken.map((t, i) => {
+    const startMs = Math.max(0, t.startMs + offsetMs)
+    const next = spoken[i + 1]
+    // Open-ended turns run until the next one starts
+    const rawEnd = t.endMs ?? (next ? next.startMs : t.startMs + MIN_CUE_MS)
+    const endMs = Math.max(startMs + MIN_CUE_MS, rawEnd + offsetMs)
+    return {
+      role: t.role,
+      speaker: speakerLabel(t.role),
+      text: t.text.trim(),
+      startMs,
+      endMs,
+      ...(t.interrupted && { interrupted: true }),
+    }
+  })
+}
+
+// HH:MM:SS + separator + mmm (',' for SRT, '.' for WebVTT)
+export function formatTimestamp(ms: number, separator: ',' | '.') {
+  const total = Math.max(0, Math.round(ms))
+  const h = Math.floor(total / 3_600_000)
+  const m = Math.floor((total % 3_600_000) / 60_000)
+  const s = Math.floor((total % 60_000) / 1000)
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0')
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`
+}
+
+// Cue text must not contain blank lines (they end the cue)
+const cueText = (text: string) => text.replace(/\r?\n\s*\r?\n/g, '\n')
+
+export function renderTranscript(format: TranscriptFormat, callSid: string, transcript: StoredTranscript, record?: CallRecord | null): RenderedTranscript {
+  const offsetMs = recordingOffsetMs(transcript, record)
+  const cues = toCues(transcript.turns, offsetMs)
+  const filename = `${callSid}.${format}`
+  switch (format) {
+    case 'txt':
+      return {
+        body: cues.map((c) => `[${formatTimestamp(c.startMs, '.').slice(0, 8)}] ${c.speaker}: ${c.text}${c.interrupted ? ' [interrupted]' : ''}`).join('\n') + '\n',
+        contentType: 'text/plain; charset=utf-8',
+        filename,
+      }
+    case 'json':
+      return {
+        body: JSON.stringify({ callSid, recordingOffsetMs: offsetMs, turns: cues }, null, 2),
+        contentType: 'application/json; charset=utf-8',
+        filename,
+      }
+    case 'srt':
+      return {
+        body: cues.map((c, i) => `${i + 1}\n${formatTimestamp(c.startMs, ',')} --> ${formatTimestamp(c.endMs, ',')}\n${c.speaker}: ${cueText(c.text)}\n`).join('\n'),
+        contentType: 'application/x-subrip; charset=utf-8',
+        filename,
+      }
+    case 'vtt':
+      return {
+        body: ['WEBVTT', '', ...cues.map((c) => `${formatTimestamp(c.startMs, '.')} --> ${formatTimestamp(c.endMs, '.')}\n<v ${c.speaker}>${escapeVtt(cueText(c.text))}\n`)].join('\n'),
+        contentType: 'text/vtt; charset=utf-8',
+        filename,
+      }
+  }
+}
+
+function escapeVtt(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
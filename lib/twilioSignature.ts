@@ -0,0 +1,84 @@
+import { isProd } from './config'
+import { constantTimeEqual } from './auth'
+
+// X-Twilio-Signature verification for every Twilio-facing route: TwiML
+// webhooks (GET and form POST), status callbacks and the Media Streams
+// WebSocket upgrade. Twilio signs base64(HMAC-SHA1(authToken, url + sorted
+// form params)) over the public URL it called, so behind a proxy the URL is
+// rebuilt from PUBLIC_BASE_URL. Web Crypto only, so the Edge bridge can use it.
+// In production unsigned or mis-signed requests are rejected; in development
+// a request without a signature passes so TwiML can be tried from a browser.
+
+export type TwilioParams = Record<string, string>
+
+export type TwilioVerification = { ok: true } | { ok: false; reason: string }
+
+// Twilio webhook params: form body for POST (read once), none for GET
+export async function readTwilioParams(req: Request): Promise<TwilioParams> {
+  const params: TwilioParams = {}
+  if (req.method !== 'POST') return params
+  const contentType = req.headers.get('content-type') || ''
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    new URLSearchParams(await req.text()).forEach((v, k) => { params[k] = v })
+  } else if (contentType.includes('multipart/form-data')) {
+    // Best-effort: Twilio signatures exclude file contents
+    const fd = await req.formData()
+    fd.forEach((v, k) => { if (typeof v === 'string') params[k] = v })
+  }
+  return params
+}
+
+export async function computeTwilioSignature(authToken: string, url: string, params: TwilioParams = {}) {
+  const data = Object.keys(params).sort().reduce((acc, k) => acc + k + params[k], url)
+  const enc = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', enc.encode(authToken), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign'])
+  const sig = new Uint8Array(await crypto.subtle.sign('HMAC', key, enc.encode(data)))
+  let bin = ''
+  for (const b of Array.from(sig)) bin += String.fromCharCode(b)
+  return btoa(bin)
+}
+
+// The URLs Twilio may have signed: the public one (PUBLIC_BASE_URL host) and the one
+// received, each with and without the default port. WebSocket upgrades are signed
+// with their ws(s):// URL.
+export function signatureUrls(reqUrl: string, opts: { websocket?: boolean } = {}) {
+  const received = new URL(reqUrl)
+  const urls: URL[] = [received]
+  const base = process.env.PUBLIC_BASE_URL?.trim()
+  if (base) {
+    const pub = new URL(base)
+    const u = new URL(received.toString())
+    u.protocol = pub.protocol
+    u.hostname = pub.hostname
+    u.port = pub.port
+    u.pathname = `${pub.pathname.replace(/\/$/, '')}${received.pathname}`
+    urls.unshift(u)
+  }
+  const out: string[] = []
+  for (const u of urls) {
+    if (opts.websocket) u.protocol = u.protocol === 'http:' ? 'ws:' : 'wss:'
+    const secure = u.protocol === 'https:' || u.protocol === 'wss:'
+    const noPort = new URL(u.toString())
+    noPort.port = ''
+    const withPort = new URL(noPort.toString())
+    // URL drops default ports when assigned, so add them textually
+    const withPortStr = withPort.toString().replace(withPort.host, `${withPort.hostname}:${u.port || (secure ? '443' : '80')}`)
+    for (const s of [noPort.toString(), withPortStr]) if (!out.includes(s)) out.push(s)
+  }
+  return out
+}
+
+export async function verifyTwilioRequest(
+  req: Request,
+  params: TwilioParams = {},
+  opts: { websocket?: boolean; authToken?: string } = {}
+): Promise<TwilioVerification> {
+  const authToken = opts.authToken ?? process.env.TWILIO_AUTH_TOKEN
+  const signature = req.headers.get('x-twilio-signature')
+  if (!authToken) return isProd ? { ok: false, reason: 'TWILIO_AUTH_TOKEN is not configured' } : { ok: true }
+  if (!signature) return isProd ? { ok: false, reason: 'Missing X-Twilio-Signature' } : { ok: true }
+  for (const url of signatureUrls(req.url, { websocket: opts.websocket })) {
+    if (constantTimeEqual(await computeTwilioSignature(authToken, url, params), signature)) return { ok: true }
+  }
+  return { ok: false, reason: 'Invalid X-Twilio-Signature' }
+}
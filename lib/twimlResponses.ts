@@ -0,0 +1,37 @@
+// TwiML snippets for calls that do not reach the AI agent.
+
+export const escapeXml = (str: string): string => {
+  return str.replace(/[<>&"']/g, (c) => {
+    const chars: Record<string, string> = {
+      '<': '&lt;',
+      '>': '&gt;',
+      '&': '&amp;',
+      '"': '&quot;',
+      "'": '&apos;'
+    }
+    return chars[c] || c
+  })
+}
+
+export function xmlResponse(xml: string, status = 200) {
+  return new Response(xml, { status, headers: { 'Content-Type': 'text/xml' } })
+}
+
+export function voicemailTwiml(opts: { message?: string; maxLengthSeconds?: number; recordingStatusCallback?: string }) {
+  const message = opts.message || 'Please leave a message after the tone.'
+  const maxLength = opts.maxLengthSeconds || 120
+  const cb = opts.recordingStatusCallback
+    ? ` recordingStatusCallback="${escapeXml(opts.recordingStatusCallback)}" recordingStatusCallbackMethod="POST"`
+    : ''
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n  <Say>${escapeXml(message)}</Say>\n  <Record maxLength="${maxLength}" playBeep="true"${cb}/>\n  <Say>We did not receive a recording. Goodbye.</Say>\n  <Hangup/>\n</Response>`
+}
+
+export function forwardTwiml(opts: { number: string; timeoutSeconds?: number; message?: string }) {
+  const say = opts.message ? `  <Say>${escapeXml(opts.message)}</Say>\n` : ''
+  const timeout = opts.timeoutSeconds || 30
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n${say}  <Dial timeout="${timeout}">${escapeXml(opts.number)}</Dial>\n</Response>`
+}
+
+export function sayTwiml(message: string) {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n  <Say>${escapeXml(message)}</Say>\n  <Hangup/>\n</Response>`
+}
@@ -0,0 +1,118 @@
+import crypto from 'crypto'
+import { promisify } from 'util'
+import { z } from 'zod'
+import { getJson, setJson } from './store'
+import { ROLES, type Role, type SessionUser } from './auth'
+import { timingSafeEqualStr } from './adminAuth'
+
+// Local user accounts, the sign-in provider when no OIDC issuer is configured.
+// Passwords are scrypt-hashed. AUTH_ADMIN_EMAIL / AUTH_ADMIN_PASSWORD define a
+// bootstrap admin that works before any account exists.
+
+export type LocalUser = {
+  email: string
+  name?: string
+  role: Role
+  passwordHash: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type PublicUser = Omit<LocalUser, 'passwordHash'>
+
+const RoleSchema = z.enum(ROLES)
+
+export const UserCreateSchema = z.object({
+  email: z.string().email().max(200).transform((s) => s.toLowerCase()),
+  name: z.string().max(200).optional(),
+  role: RoleSchema,
+  password: z.string().min(12).max(200),
+})
+
+export const UserUpdateSchema = UserCreateSchema.omit({ email: true }).partial()
+
+const USERS_KEY = 'auth:users'
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+// scrypt$<salt>$<hex>
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString('hex')
+  return `scrypt$${salt}$${(await scrypt(password, salt, 32)).toString('hex')}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+  return timingSafeEqualStr((await scrypt(password, salt, 32)).toString('hex'), hash)
+}
+
+export function publicUser(u: LocalUser): PublicUser {
+  const { passwordHash: _hash, ...rest } = u
+  return rest
+}
+
+export async function listUsers(): Promise<LocalUser[]> {
+  return (await getJson<LocalUser[]>(USERS_KEY)) || []
+}
+
+export async function getUser(email: string) {
+  const e = email.toLowerCase()
+  return (await listUsers()).find((u) => u.email === e) || null
+}
+
+export async function createUser(input: z.infer<typeof UserCreateSchema>, now = new Date()) {
+  const users = await listUsers()
+  if (users.some((u) => u.email === input.email)) {
+    const err: any = new Error(`User ${input.email} already exists`)
+    err.status = 409
+    throw err
+  }
+  const user: LocalUser = {
+    email: input.email,
+    ...(input.name && { name: input.name }),
+    role: input.role,
+    passwordHash: await hashPassword(input.password),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  }
+  await setJson(USERS_KEY, [...users, user])
+  return user
+}
+
+export async function updateUser(email: string, patch: z.infer<typeof UserUpdateSchema>) {
+  const users = await listUsers()
+  const i = users.findIndex((u) => u.email === email.toLowerCase())
+  if (i < 0) return null
+  const { password, ...rest } = patch
+  const next: LocalUser = {
+    ...users[i],
+    ...rest,
+    ...(password && { passwordHash: await hashPassword(password) }),
+    updatedAt: new Date().toISOString(),
+  }
+  users[i] = next
+  await setJson(USERS_KEY, users)
+  return next
+}
+
+export async function deleteUser(email: string) {
+  const users = await listUsers()
+  const e = email.toLowerCase()
+  if (!users.some((u) => u.email === e)) return false
+  await setJson(USERS_KEY, users.filter((u) => u.email !== e))
+  return true
+}
+
+// Email + password sign-in; null when either is wrong
+export async function authenticateLocal(email: string, password: string): Promise<SessionUser | null> {
+  const e = email.trim().toLowerCase()
+  const bootEmail = (process.env.AUTH_ADMIN_EMAIL || '').toLowerCase()
+  const bootPassword = process.env.AUTH_ADMIN_PASSWORD || ''
+  if (bootEmail && bootPassword.length >= 12 && e === bootEmail && timingSafeEqualStr(password, bootPassword)) {
+    return { sub: `local:${e}`, email: e, role: 'admin', provider: 'local' }
+  }
+  const user = await getUser(e)
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return null
+  return { sub: `local:${user.email}`, email: user.email, ...(user.name && { name: user.name }), role: user.role, provider: 'local' }
+}
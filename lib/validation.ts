@@ -6,6 +6,31 @@ export const ToolSchema = z.object({
   parameters: z.record(z.any()).default({})
 })
 
+// Declarative tool backed by an outbound HTTP request. URL and header values
+// may reference tool arguments as {{name}}; secret_ref names an env var that
+// must start with TOOL_SECRET_ so settings cannot forward other server keys.
+export const HttpToolSchema = z.object({
+  type: z.literal('http'),
+  name: z.string().min(1).max(64).regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, _ or -'),
+  description: z.string().min(1).max(512),
+  parameters: z.record(z.any()).default({ type: 'object', properties: {} }),
+  http: z.object({
+    method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('POST'),
+    url: z.string().min(1).max(2048).refine((v) => /^https?:\/\//i.test(v), 'Must be an http(s) URL'),
+    headers: z.record(z.string()).default({}),
+    auth: z.object({
+      type: z.enum(['bearer', 'header', 'basic']).default('bearer'),
+      secret_ref: z.string().regex(/^TOOL_SECRET_[A-Z0-9_]+$/, 'Must be an env var named TOOL_SECRET_*'),
+      header: z.string().min(1).max(128).optional(),
+    }).optional(),
+    timeout_ms: z.number().int().min(100).max(30000).default(8000),
+    response: z.object({
+      path: z.string().max(256).optional(),
+      fields: z.record(z.string().max(256)).optional(),
+    }).optional(),
+  }),
+})
+
 export const TranscriptionSchema = z.object({
   enabled: z.boolean().default(false),
   model: z.string().default('gpt-4o-transcribe'),
@@ -100,6 +125,7 @@ export const OutgoingCallSchema = z.object({
 })
 
 export type ToolDef = z.infer<typeof ToolSchema>
+export type HttpToolDef = z.infer<typeof HttpToolSchema>
 export type RealtimeSession = z.infer<typeof RealtimeSessionSchema>
 export type EphemeralRequest = z.infer<typeof EphemeralRequestSchema>
 export type OutgoingCallRequest = z.infer<typeof OutgoingCallSchema>
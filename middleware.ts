@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  AUTH_ROLE_HEADER,
+  AUTH_USER_HEADER,
+  SESSION_COOKIE,
+  authSecret,
+  constantTimeEqual,
+  roleAtLeast,
+  routePolicy,
+  verifySession,
+  type Role,
+} from '@/lib/auth'
+import { isProd } from '@/lib/config'
+import { API_KEY_PREFIX, requiredScope, verifyApiKey } from '@/lib/apiKeys'
+
+// Single enforcement point for pages and APIs. Resolves the caller from the
+// session cookie, a scoped API key or the admin bearer secret, checks the
+// route's minimum role (or key scope) and hands the role to route handlers via
+// x-auth-role.
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+}
+
+function adminBearer(req: NextRequest) {
+  const admin = process.env.REALTIME_CONTROL_ADMIN_SECRET
+  const auth = req.headers.get('authorization') || ''
+  return !!admin && admin.length >= 32 && auth.startsWith('Bearer ') && constantTimeEqual(auth.slice(7), admin)
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl
+  const isApi = pathname.startsWith('/api/')
+  const headers = new Headers(req.headers)
+  headers.delete(AUTH_ROLE_HEADER)
+  headers.delete(AUTH_USER_HEADER)
+  const pass = (role?: Role, user?: string) => {
+    if (role) headers.set(AUTH_ROLE_HEADER, role)
+    if (user) headers.set(AUTH_USER_HEADER, user)
+    return NextResponse.next({ request: { headers } })
+  }
+
+  const { access, cron } = routePolicy(pathname, req.method)
+  if (access === 'public') return pass()
+
+  if (adminBearer(req)) return pass('admin', 'admin-secret')
+
+  const bearer = (req.headers.get('authorization') || '').replace(/^Bearer /, '')
+  if (bearer.startsWith(API_KEY_PREFIX)) {
+    const check = await verifyApiKey(bearer, requiredScope(pathname, req.method)).catch((e: any) => {
+      // Keys live in kv; createApiKey refuses to issue them on the Node-only file store
+      console.error('[Auth] API key lookup failed:', e?.message || e)
+      return { ok: false as const, status: 503 as const, error: 'API key store unavailable' }
+    })
+    if (!check.ok) return Response.json({ error: check.error }, { status: check.status })
+    // The key's scope covers this route, so it stands in for the role the route requires
+    return pass(access, `apikey:${check.key.id}`)
+  }
+
+  // Scheduler requests carry CRON_SECRET, which the route verifies
+  if (cron && (req.headers.get('authorization') || '').startsWith('Bearer ')) return pass()
+
+  const secret = authSecret()
+  if (!secret) {
+    // Local development without AUTH_SECRET: no sign-in, routes keep their own checks
+    if (!isProd) return pass()
+    return Response.json({ error: 'Authentication is not configured (set AUTH_SECRET)' }, { status: 503 })
+  }
+
+  const session = await verifySession(req.cookies.get(SESSION_COOKIE)?.value, secret)
+  if (session) {
+    if (!roleAtLeast(session.role, access)) {
+      return Response.json({ error: `Forbidden: requires ${access} role` }, { status: 403 })
+    }
+    return pass(session.role, session.email || session.sub)
+  }
+
+  if (isApi) return Response.json({ error: 'Authentication required' }, { status: 401 })
+  const login = new URL('/login', req.url)
+  login.searchParams.set('next', `${pathname}${search}`)
+  return NextResponse.redirect(login)
+}
@@ -2,7 +2,9 @@
 const nextConfig = {
   reactStrictMode: true,
   experimental: {
-    typedRoutes: true
+    typedRoutes: true,
+    // instrumentation.ts validates the configuration at startup
+    instrumentationHook: true
   },
   images: {
     remotePatterns: [
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+// node environment: keys are hashed with Web Crypto, which jsdom lacks
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { NextRequest } from 'next/server'
+import { resetMemoryStore } from '@/lib/store'
+import { createApiKey, getApiKey, requiredScope, revokeApiKey, verifyApiKey } from '@/lib/apiKeys'
+import { middleware } from '../middleware'
+
+process.env.STORE_DRIVER = 'memory'
+
+function call(path: string, token: string, method = 'GET') {
+  return middleware(new NextRequest(`https://app.example.com${path}`, { method, headers: { authorization: `Bearer ${token}` } }))
+}
+
+beforeEach(() => {
+  resetMemoryStore()
+  process.env.AUTH_SECRET = 'a'.repeat(40)
+})
+
+describe('api keys', () => {
+  it('maps routes to scopes', () => {
+    expect(requiredScope('/api/calls', 'POST')).toBe('calls:create')
+    expect(requiredScope('/api/calls/CA123/transcript', 'GET')).toBe('calls:read')
+    expect(requiredScope('/api/recordings/RE123/audio', 'GET')).toBe('recordings:read')
+    expect(requiredScope('/api/realtime/control/settings/default', 'PUT')).toBe('profiles:write')
+    expect(requiredScope('/api/webhooks', 'GET')).toBeNull()
+  })
+
+  it('stores only a hash and checks scope, expiry and revocation', async () => {
+    const now = new Date('2026-03-01T00:00:00Z')
+    const { key, token } = await createApiKey({ name: 'jobs', scopes: ['calls:create'], expiresAt: '2026-04-01T00:00:00Z' }, 'admin@example.com', now)
+    expect(JSON.stringify(await getApiKey(key.id))).not.toContain(token.split('_')[2])
+
+    expect(await verifyApiKey(token, 'calls:create', now)).toMatchObject({ ok: true })
+    expect((await getApiKey(key.id))?.lastUsedAt).toBe(now.toISOString())
+    expect(await verifyApiKey(token, 'recordings:read', now)).toMatchObject({ ok: false, status: 403 })
+    expect(await verifyApiKey(token.slice(0, -1) + (token.endsWith('0') ? '1' : '0'), 'calls:create', now)).toMatchObject({ ok: false, status: 401 })
+    expect(await verifyApiKey(token, 'calls:create', new Date('2026-04-02T00:00:00Z'))).toMatchObject({ ok: false, error: 'API key expired' })
+
+    await revokeApiKey(key.id)
+    expect(await verifyApiKey(token, 'calls:create', now)).toMatchObject({ ok: false, error: 'API key revoked' })
+  })
+
+  it('refuses to issue keys on the file store, which the middleware cannot read', async () => {
+    process.env.STORE_DRIVER = 'file'
+    try {
+      await expect(createApiKey({ name: 'jobs', scopes: ['calls:read'] })).rejects.toMatchObject({ status: 503 })
+    } finally {
+      process.env.STORE_DRIVER = 'memory'
+    }
+  })
+
+  it('is enforced by the middleware, which forwards the role the route needs', async () => {
+    const { token } = await createApiKey({ name: 'jobs', scopes: ['calls:create', 'calls:read'] })
+    const placed = await call('/api/calls', token, 'POST')
+    expect(placed.status).toBe(200)
+    expect(placed.headers.get('x-middleware-request-x-auth-role')).toBe('operator')
+    expect((await call('/api/recordings', token)).status).toBe(403)
+    expect((await call('/api/campaigns/tick', token, 'POST')).status).toBe(403)
+    expect((await call('/api/calls', 'vck_000000000000_' + '0'.repeat(48))).status).toBe(401)
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+// node environment: sessions are signed with Web Crypto, which jsdom lacks
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { NextRequest } from 'next/server'
+import { resetMemoryStore } from '@/lib/store'
+import { createSession, roleFromClaims, routePolicy, sessionCookie, signToken, verifySession, type SessionUser } from '@/lib/auth'
+import { authenticateLocal, createUser, updateUser } from '@/lib/users'
+import { createAuthorizationRequest, validateIdToken } from '@/lib/oidc'
+import { middleware } from '../middleware'
+
+process.env.STORE_DRIVER = 'memory'
+const SECRET = 'a'.repeat(40)
+
+const operator: SessionUser = { sub: 'local:op@example.com', email: 'op@example.com', role: 'operator', provider: 'local' }
+
+async function request(path: string, init: { method?: string; user?: SessionUser; headers?: Record<string, string> } = {}) {
+  const headers: Record<string, string> = { ...init.headers }
+  if (init.user) headers.cookie = sessionCookie((await createSession(init.user, SECRET)).token).split(';')[0]
+  return middleware(new NextRequest(`https://app.example.com${path}`, { method: init.method || 'GET', headers }))
+}
+
+beforeEach(() => {
+  resetMemoryStore()
+  process.env.AUTH_SECRET = SECRET
+  delete process.env.AUTH_ADMIN_EMAIL
+  delete process.env.AUTH_ADMIN_PASSWORD
+  delete process.env.AUTH_ADMIN_EMAILS
+})
+
+describe('sessions', () => {
+  it('round-trips and rejects tampered or expired tokens', async () => {
+    const now = Date.parse('2026-01-01T00:00:00Z')
+    const { token } = await createSession(operator, SECRET, now)
+    expect((await verifySession(token, SECRET, now))?.role).toBe('operator')
+    const [body, sig] = token.split('.')
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString()), role: 'admin' })).toString('base64url')
+    expect(await verifySession(`${forged}.${sig}`, SECRET, now)).toBeNull()
+    expect(await verifySession(token, 'b'.repeat(40), now)).toBeNull()
+    expect(await verifySession(token, SECRET, now + 13 * 3600_000)).toBeNull()
+  })
+
+  it('rejects signed payloads without a valid role', async () => {
+    const token = await signToken({ sub: 'x', role: 'root', exp: Math.floor(Date.now() / 1000) + 60 }, SECRET)
+    expect(await verifySession(token, SECRET)).toBeNull()
+  })
+})
+
+describe('route policy', () => {
+  it('lets operators place calls but keeps agent profiles admin-only', () => {
+    expect(routePolicy('/api/calls', 'POST').access).toBe('operator')
+    expect(routePolicy('/api/calls', 'GET').access).toBe('viewer')
+    expect(routePolicy('/api/realtime/control/settings/default', 'PUT').access).toBe('admin')
+    expect(routePolicy('/api/realtime/control/settings', 'GET').access).toBe('admin')
+    expect(routePolicy('/api/routing/match', 'POST').access).toBe('operator')
+    expect(routePolicy('/api/twiml', 'POST').access).toBe('public')
+    expect(routePolicy('/api/webhooks/dispatch', 'POST')).toEqual({ access: 'admin', cron: true })
+    expect(routePolicy('/api/post-call/dispatch', 'POST')).toEqual({ access: 'operator', cron: true })
+    expect(routePolicy('/api/call-tokens/redeem', 'POST').access).toBe('admin')
+    expect(routePolicy('/api/something-new', 'POST').access).toBe('admin')
+  })
+
+  it('maps OIDC claims to the highest named role, then email lists', () => {
+    process.env.AUTH_ADMIN_EMAILS = 'Boss@Example.com'
+    expect(roleFromClaims({ roles: ['viewer', 'operator'] })).toBe('operator')
+    expect(roleFromClaims({ email: 'boss@example.com' })).toBe('admin')
+    expect(roleFromClaims({ email: 'someone@example.com' })).toBe('viewer')
+  })
+})
+
+describe('middleware', () => {
+  it('redirects pages to sign-in and rejects anonymous API calls', async () => {
+    const page = await request('/history?x=1')
+    expect(page.status).toBe(307)
+    expect(page.headers.get('location')).toBe('https://app.example.com/login?next=%2Fhistory%3Fx%3D1')
+    expect((await request('/api/calls')).status).toBe(401)
+    // Any bearer is not enough on a session route
+    expect((await request('/api/calls', { headers: { authorization: 'Bearer nope' } })).status).toBe(401)
+  })
+
+  it('enforces roles and forwards the resolved role, never a client-sent one', async () => {
+    expect((await request('/api/realtime/control/settings/default', { method: 'PUT', user: operator })).status).toBe(403)
+    const res = await request('/api/calls', { method: 'POST', user: operator, headers: { 'x-auth-role': 'admin' } })
+    expect(res.status).toBe(200)
+    expect(res.headers.get('x-middleware-request-x-auth-role')).toBe('operator')
+  })
+
+  it('passes public routes and cron bearers through to their own checks', async () => {
+    expect((await request('/api/twiml', { method: 'POST' })).status).toBe(200)
+    expect((await request('/api/campaigns/tick', { method: 'POST', headers: { authorization: 'Bearer cron-secret' } })).status).toBe(200)
+  })
+})
+
+describe('local accounts', () => {
+  it('authenticates with the stored password and current role', async () => {
+    await createUser({ email: 'op@example.com', role: 'operator', password: 'correct horse battery' })
+    await expect(createUser({ email: 'op@example.com', role: 'viewer', password: 'another password!' })).rejects.toMatchObject({ status: 409 })
+    expect(await authenticateLocal('op@example.com', 'wrong password!!')).toBeNull()
+    expect((await authenticateLocal('OP@example.com', 'correct horse battery'))?.role).toBe('operator')
+    await updateUser('op@example.com', { role: 'viewer', password: 'a brand new secret' })
+    expect(await authenticateLocal('op@example.com', 'correct horse battery')).toBeNull()
+    expect((await authenticateLocal('op@example.com', 'a brand new secret'))?.role).toBe('viewer')
+  })
+
+  it('accepts the bootstrap admin from the environment', async () => {
+    process.env.AUTH_ADMIN_EMAIL = 'root@example.com'
+    process.env.AUTH_ADMIN_PASSWORD = 'bootstrap-password'
+    expect((await authenticateLocal('root@example.com', 'bootstrap-password'))?.role).toBe('admin')
+    expect(await authenticateLocal('root@example.com', 'bootstrap-passwore')).toBeNull()
+  })
+})
+
+describe('oidc', () => {
+  const cfg = { issuer: 'https://idp.example.com', clientId: 'client-1', scopes: 'openid email', redirectUri: 'https://app.example.com/api/auth/oidc/callback' }
+  const idToken = (claims: Record<string, unknown>) => `h.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.s`
+
+  it('builds a PKCE authorization request with a safe return path', () => {
+    const { url, state } = createAuthorizationRequest(cfg, { issuer: cfg.issuer, authorization_endpoint: 'https://idp.example.com/authorize', token_endpoint: 'https://idp.example.com/token' }, '//evil.example.com')
+    const u = new URL(url)
+    expect(u.searchParams.get('code_challenge_method')).toBe('S256')
+    expect(u.searchParams.get('state')).toBe(state.state)
+    expect(state.next).toBe('/')
+  })
+
+  it('checks issuer, audience, expiry and nonce of the ID token', () => {
+    const good = { iss: cfg.issuer, aud: ['client-1'], exp: Math.floor(Date.now() / 1000) + 60, nonce: 'n1', sub: 'u1', email: 'a@example.com' }
+    const want = { issuer: cfg.issuer, clientId: cfg.clientId, nonce: 'n1' }
+    expect(validateIdToken(idToken(good), want).sub).toBe('u1')
+    expect(() => validateIdToken(idToken({ ...good, aud: 'other' }), want)).toThrow('audience')
+    expect(() => validateIdToken(idToken({ ...good, nonce: 'n2' }), want)).toThrow('nonce')
+    expect(() => validateIdToken(idToken({ ...good, exp: 1 }), want)).toThrow('expired')
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals'
+import { applyBargeInEvent, createBargeInState, ulawDurationMs, type BargeInAction, type BargeInEvent } from '@/lib/bargeIn'
+
+const audio = (itemId: string, ms = 100): BargeInEvent => ({ type: 'audio', itemId, ms })
+// Marks are named <item_id>:<n>, counting chunks across the call
+const mark = (name: string): BargeInEvent => ({ type: 'mark', name })
+
+// Replays a script and returns the actions of its last event
+function replay(events: BargeInEvent[]) {
+  const state = createBargeInState()
+  let last: BargeInAction[] = []
+  for (const e of events) last = applyBargeInEvent(state, e)
+  return { state, last }
+}
+
+describe('barge-in', () => {
+  it('measures base64 μ-law payloads in milliseconds', () => {
+    expect(ulawDurationMs(btoa('\xff'.repeat(160)))).toBe(20)
+    expect(ulawDurationMs(btoa('\xff'.repeat(800)))).toBe(100)
+  })
+
+  it('names a mark per chunk and reports when the caller has heard the whole response', () => {
+    const state = createBargeInState()
+    applyBargeInEvent(state, { type: 'response.created' })
+    expect(applyBargeInEvent(state, audio('item_1'))).toEqual([{ type: 'play', mark: 'item_1:1' }])
+    expect(applyBargeInEvent(state, audio('item_1', 60))).toEqual([{ type: 'play', mark: 'item_1:2' }])
+    expect(applyBargeInEvent(state, { type: 'response.done' })).toEqual([])
+    expect(applyBargeInEvent(state, mark('item_1:1'))).toEqual([])
+    expect(applyBargeInEvent(state, mark('item_1:2'))).toEqual([{ type: 'finished', itemId: 'item_1', playedMs: 160 }])
+    expect(state.phase).toBe('idle')
+    expect(state.talk).toEqual({ assistantMs: 160, completed: 1, interruptions: 0 })
+  })
+
+  it('ignores caller speech while the assistant is silent', () => {
+    expect(replay([{ type: 'speech_started' }]).last).toEqual([])
+    const { state, last } = replay([{ type: 'response.created' }, audio('item_1'), mark('item_1:1'), { type: 'response.done' }, { type: 'speech_started' }])
+    expect(last).toEqual([])
+    expect(state.phase).toBe('idle')
+  })
+
+  it('cancels, clears and truncates at the acknowledged playback position', () => {
+    const { state, last } = replay([
+      { type: 'response.created' },
+      audio('item_1'),
+      audio('item_1'),
+      audio('item_1'),
+      mark('item_1:2'),
+      { type: 'speech_started' },
+    ])
+    expect(last).toEqual([{ type: 'cancel' }, { type: 'clear' }, { type: 'truncate', itemId: 'item_1', audioEndMs: 200 }])
+    expect(state.phase).toBe('interrupted')
+    expect(state.talk).toEqual({ assistantMs: 200, completed: 0, interruptions: 1 })
+    expect(applyBargeInEvent(state, audio('item_1'))).toEqual([])
+  })
+
+  it('stops playback of a finished response that is still being heard, without cancelling', () => {
+    const { last } = replay([{ type: 'response.created' }, audio('item_1'), audio('item_1'), { type: 'response.done' }, mark('item_1:1'), { type: 'speech_started' }])
+    expect(last).toEqual([{ type: 'clear' }, { type: 'truncate', itemId: 'item_1', audioEndMs: 100 }])
+  })
+
+  it('ignores marks of cleared audio when tracking the next response', () => {
+    const { state } = replay([
+      { type: 'response.created' },
+      audio('item_1'),
+      audio('item_1'),
+      { type: 'speech_started' },
+      { type: 'response.done' },
+      { type: 'response.created' },
+      audio('item_2', 40),
+      mark('item_1:1'),
+      mark('item_1:2'),
+    ])
+    expect(state.playedMs).toBe(0)
+    applyBargeInEvent(state, mark('item_2:3'))
+    expect(state).toMatchObject({ itemId: 'item_2', playedMs: 40, phase: 'responding' })
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from '@jest/globals'
+import { BusinessHoursSchema, evaluateBusinessHours } from '@/lib/businessHours'
+
+const schedule = BusinessHoursSchema.parse({
+  timezone: 'America/Los_Angeles',
+  weekly: {
+    '1': [{ start: '09:00', end: '12:00' }, { start: '13:00', end: '17:00' }],
+    '3': [{ start: '09:00', end: '17:00' }],
+  },
+  holidays: [
+    { date: '12-25', name: 'Christmas' },
+    { date: '2024-06-03', name: 'Inventory', hours: [{ start: '10:00', end: '11:00' }] },
+  ],
+  closed: { type: 'profile', profile: 'after-hours' },
+})
+
+describe('evaluateBusinessHours', () => {
+  it('uses weekly intervals in the schedule time zone', () => {
+    // Wednesday 2024-06-05 10:00 PDT
+    expect(evaluateBusinessHours(schedule, new Date('2024-06-05T17:00:00Z'))).toMatchObject({ open: true, localTime: '10:00' })
+    // Wednesday 17:00 PDT (end is exclusive)
+    expect(evaluateBusinessHours(schedule, new Date('2024-06-06T00:00:00Z')).open).toBe(false)
+    // Tuesday has no hours
+    expect(evaluateBusinessHours(schedule, new Date('2024-06-04T17:00:00Z')).open).toBe(false)
+  })
+
+  it('closes for lunch between intervals', () => {
+    // Monday 2024-06-10 12:30 PDT
+    expect(evaluateBusinessHours(schedule, new Date('2024-06-10T19:30:00Z')).open).toBe(false)
+    expect(evaluateBusinessHours(schedule, new Date('2024-06-10T20:30:00Z')).open).toBe(true)
+  })
+
+  it('applies holidays, including annual and special-hours dates', () => {
+    // Wednesday 2024-12-25 10:00 PST
+    expect(evaluateBusinessHours(schedule, new Date('2024-12-25T18:00:00Z'))).toMatchObject({ open: false, holiday: 'Christmas' })
+    // Monday 2024-06-03: only 10:00-11:00
+    expect(evaluateBusinessHours(schedule, new Date('2024-06-03T16:30:00Z')).open).toBe(false)
+    expect(evaluateBusinessHours(schedule, new Date('2024-06-03T17:30:00Z'))).toMatchObject({ open: true, holiday: 'Inventory' })
+  })
+
+  it('treats a disabled schedule as always open', () => {
+    expect(evaluateBusinessHours({ ...schedule, enabled: false }, new Date('2024-06-04T17:00:00Z')).open).toBe(true)
+  })
+
+  it('rejects inverted intervals', () => {
+    expect(BusinessHoursSchema.safeParse({ weekly: { '1': [{ start: '17:00', end: '09:00' }] } }).success).toBe(false)
+  })
+})
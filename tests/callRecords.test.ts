@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { getCallRecord, listCallRecords, patchFromStatusCallback, upsertCallRecord } from '@/lib/callRecords'
+import { resetMemoryStore } from '@/lib/store'
+
+process.env.STORE_DRIVER = 'memory'
+
+const sid = 'CA' + 'a'.repeat(32)
+
+function callback(params: Record<string, string>) {
+  const parsed = patchFromStatusCallback({ CallSid: sid, ...params })!
+  return upsertCallRecord(parsed.sid, parsed.patch)
+}
+
+describe('call records', () => {
+  beforeEach(() => resetMemoryStore())
+
+  it('tracks lifecycle timestamps, duration and answeredBy from status callbacks', async () => {
+    await upsertCallRecord(sid, { status: 'queued', direction: 'outbound-api', to: '+15550001111', profile: 'sales' })
+    await callback({ CallStatus: 'ringing', Timestamp: 'Tue, 04 Jun 2024 12:00:00 +0000' })
+    await callback({ CallStatus: 'in-progress', Timestamp: 'Tue, 04 Jun 2024 12:00:05 +0000', AnsweredBy: 'human' })
+    await callback({ CallStatus: 'completed', Timestamp: 'Tue, 04 Jun 2024 12:01:05 +0000', CallDuration: '60' })
+    const rec = await getCallRecord(sid)
+    expect(rec).toMatchObject({ status: 'completed', durationSeconds: 60, answeredBy: 'human', profile: 'sales', to: '+15550001111' })
+    expect(rec?.timestamps).toMatchObject({
+      ringing: '2024-06-04T12:00:00.000Z',
+      'in-progress': '2024-06-04T12:00:05.000Z',
+      completed: '2024-06-04T12:01:05.000Z',
+    })
+  })
+
+  it('ignores out-of-order callbacks that would move a call backwards', async () => {
+    await callback({ CallStatus: 'completed', CallDuration: '12' })
+    await callback({ CallStatus: 'ringing' })
+    const rec = await getCallRecord(sid)
+    expect(rec?.status).toBe('completed')
+    expect(rec?.timestamps.ringing).toBeDefined()
+  })
+
+  it('collects completed recordings and transcript keys once', async () => {
+    await callback({ RecordingSid: 'RE1', RecordingStatus: 'in-progress' })
+    await callback({ RecordingSid: 'RE1', RecordingStatus: 'completed', RecordingStartTime: 'Tue, 04 Jun 2024 12:00:05 +0000' })
+    await callback({ RecordingSid: 'RE1', RecordingStatus: 'completed', RecordingStartTime: 'Tue, 04 Jun 2024 12:00:05 +0000' })
+    await upsertCallRecord(sid, { transcriptKey: `transcript:${sid}` })
+    const rec = await getCallRecord(sid)
+    expect(rec?.recordingSids).toEqual(['RE1'])
+    expect(rec?.recordingStartedAt).toBe('2024-06-04T12:00:05.000Z')
+    expect(rec?.transcriptKeys).toEqual([`transcript:${sid}`])
+  })
+
+  it('lists newest calls first', async () => {
+    await upsertCallRecord('CA1', { status: 'queued' })
+    await upsertCallRecord('CA2', { status: 'queued' })
+    await upsertCallRecord('CA1', { status: 'ringing' })
+    expect((await listCallRecords()).map((r) => r.sid)).toEqual(['CA2', 'CA1'])
+  })
+  it('keeps every field when patches for one call race', async () => {
+    await Promise.all([
+      upsertCallRecord(sid, { status: 'queued', direction: 'outbound-api', profile: 'sales' }),
+      callback({ CallStatus: 'ringing' }),
+      callback({ RecordingSid: 'RE1' }),
+      upsertCallRecord(sid, { transcriptKey: `transcript:${sid}` }),
+      upsertCallRecord(sid, { redactions: { email: 1 } }),
+    ])
+    const rec = await getCallRecord(sid)
+    expect(rec).toMatchObject({ status: 'ringing', direction: 'outbound-api', profile: 'sales', redactions: { email: 1 } })
+    expect(rec?.recordingSids).toEqual(['RE1'])
+    expect(rec?.transcriptKeys).toEqual([`transcript:${sid}`])
+    expect((await listCallRecords()).map((r) => r.sid)).toEqual([sid])
+  })
+})
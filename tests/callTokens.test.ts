@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { getJson, resetMemoryStore } from '@/lib/store'
+import { isCallToken, issueCallToken, redeemCallToken } from '@/lib/callTokens'
+import { buildCallSession } from '@/lib/dialer'
+import { saveProfile } from '@/lib/profiles'
+import { buildBridgeSessionUpdate, getRealtimeControlSettings } from '@/lib/realtimeControl'
+
+process.env.STORE_DRIVER = 'memory'
+
+beforeEach(() => {
+  resetMemoryStore()
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('call tokens', () => {
+  it('maps an opaque token to the secret and redeems it once', async () => {
+    const token = await issueCallToken('ek_secret_value')
+    expect(isCallToken(token)).toBe(true)
+    expect(token).not.toContain('ek_secret_value')
+    expect(await redeemCallToken(token)).toEqual({ secret: 'ek_secret_value' })
+    expect(await getJson(`calltoken:${token}`)).toBeNull()
+    expect(await redeemCallToken(token)).toBeNull()
+  })
+
+  it('carries the resolved instructions of the minted session', async () => {
+    const token = await issueCallToken('ek_secret_value', { instructions: 'Ask Jane about her gold plan.' })
+    expect(await redeemCallToken(token)).toEqual({ secret: 'ek_secret_value', instructions: 'Ask Jane about her gold plan.' })
+  })
+
+  it('gives the secret to only one of concurrent redeems', async () => {
+    const token = await issueCallToken('ek_secret_value')
+    const results = await Promise.all([redeemCallToken(token), redeemCallToken(token), redeemCallToken(token)])
+    expect(results.filter(Boolean)).toEqual([{ secret: 'ek_secret_value' }])
+  })
+
+  it('expires after its TTL and ignores malformed tokens', async () => {
+    const token = await issueCallToken('ek_secret_value', { ttlSeconds: 60 })
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61_000)
+    expect(await redeemCallToken(token)).toBeNull()
+    expect(await redeemCallToken('ek_secret_value')).toBeNull()
+    expect(await redeemCallToken(null)).toBeNull()
+  })
+
+  it('lets the bridge session.update keep per-contact instructions', async () => {
+    await saveProfile('sales', { voice: 'echo', instructions: 'Call {{Name}} about the {{Plan}} plan.' })
+    const payload = await buildCallSession({ session: { instructions: 'unused' } } as any, 'sales', { Name: 'Jane', Plan: 'gold' })
+    const token = await issueCallToken('ek_secret_value', { instructions: payload.session.instructions })
+
+    // What the bridge does on session.created
+    const session = await redeemCallToken(token)
+    const update = buildBridgeSessionUpdate(await getRealtimeControlSettings('sales'), { instructions: session?.instructions })
+    expect(update.session).toMatchObject({
+      voice: 'echo',
+      instructions: 'Call Jane about the gold plan.',
+      input_audio_format: 'g711_ulaw',
+      output_audio_format: 'g711_ulaw',
+    })
+    // Without a call token the profile's own instructions apply
+    expect(buildBridgeSessionUpdate(await getRealtimeControlSettings('sales')).session.instructions).toBe('Call {{Name}} about the {{Plan}} plan.')
+  })
+})
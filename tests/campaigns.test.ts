@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import {
+  CampaignCreateSchema,
+  contactsFromCsv,
+  createCampaign,
+  getCampaign,
+  runCampaignTick,
+  saveCampaign,
+  setCampaignStatus,
+  tickCampaign,
+  type Campaign,
+  type CampaignDeps,
+} from '@/lib/campaigns'
+import { fillTemplate } from '@/lib/dialer'
+import { resetMemoryStore } from '@/lib/store'
+
+process.env.STORE_DRIVER = 'memory'
+
+const csv = 'Name,Phone,Plan\n"Doe, Jane",+1 (415) 555-0100,gold\nBob,+14155550101,silver\nBad,555-0102,none\nDup,+14155550100,x\nCara,+14155550103,"say ""hi"""\n'
+
+function makeCampaign(overrides: Partial<Campaign> = {}): Campaign {
+  const input = CampaignCreateSchema.parse({ name: 'Test', csv, concurrency: 2, pacingSeconds: 0, retry: { maxAttempts: 2, delayMinutes: 1 } })
+  return { ...createCampaign(input, contactsFromCsv(csv).contacts), status: 'running', ...overrides }
+}
+
+// Stub Twilio: calls stay in progress until a final status is set for their sid
+function stubDeps() {
+  const statuses: Record<string, string> = {}
+  const dialed: string[] = []
+  const deps: CampaignDeps = {
+    dial: async (_c, contact) => {
+      dialed.push(contact.phone)
+      return { callSid: `CA${dialed.length}` }
+    },
+    fetchStatus: async (sid) => ({ status: statuses[sid] || 'in-progress' }),
+  }
+  return { deps, statuses, dialed }
+}
+
+describe('contactsFromCsv', () => {
+  it('normalizes phones, keeps other columns as vars and reports bad rows', () => {
+    const { contacts, errors } = contactsFromCsv(csv)
+    expect(contacts.map((c) => c.phone)).toEqual(['+14155550100', '+14155550101', '+14155550103'])
+    expect(contacts[0].vars).toEqual({ Name: 'Doe, Jane', Plan: 'gold' })
+    expect(contacts[2].vars.Plan).toBe('say "hi"')
+    expect(errors.map((e) => e.line)).toEqual([4, 5])
+  })
+
+  it('requires a phone column', () => {
+    expect(contactsFromCsv('name\nJane\n').errors[0].error).toMatch(/Missing phone column/)
+  })
+})
+
+describe('tickCampaign', () => {
+  it('respects the concurrency cap and completes when every contact is final', async () => {
+    const { deps, statuses, dialed } = stubDeps()
+    const c = makeCampaign()
+    await tickCampaign(c, deps, 1000)
+    expect(dialed).toEqual(['+14155550100', '+14155550101'])
+    await tickCampaign(c, deps, 2000)
+    expect(dialed).toHaveLength(2)
+
+    statuses.CA1 = 'completed'
+    await tickCampaign(c, deps, 3000)
+    expect(c.contacts[0]).toMatchObject({ status: 'completed', disposition: 'completed' })
+    expect(dialed).toHaveLength(3)
+
+    statuses.CA2 = 'completed'
+    statuses.CA3 = 'failed'
+    await tickCampaign(c, deps, 4000)
+    expect(c.status).toBe('completed')
+    expect(c.contacts[2].disposition).toBe('failed')
+  })
+
+  it('retries busy and no-answer after the delay, up to maxAttempts', async () => {
+    const { deps, statuses, dialed } = stubDeps()
+    const c = makeCampaign({ concurrency: 1 })
+    await tickCampaign(c, deps, 0)
+    statuses.CA1 = 'busy'
+    await tickCampaign(c, deps, 1000)
+    expect(c.contacts[0]).toMatchObject({ status: 'pending', nextAttemptAt: 61_000 })
+    // The freed slot goes to the next contact while the first waits for its retry
+    expect(dialed).toEqual(['+14155550100', '+14155550101'])
+    statuses.CA2 = 'completed'
+    await tickCampaign(c, deps, 2000)
+    expect(dialed[2]).toBe('+14155550103')
+    statuses.CA3 = 'completed'
+    await tickCampaign(c, deps, 61_000)
+    expect(dialed[3]).toBe('+14155550100')
+    statuses.CA4 = 'no-answer'
+    await tickCampaign(c, deps, 62_000)
+    expect(c.contacts[0]).toMatchObject({ status: 'no-answer', disposition: 'no-answer' })
+    expect(c.contacts[0].attempts.map((a) => a.status)).toEqual(['busy', 'no-answer'])
+  })
+
+  it('paces dials and does not dial while paused', async () => {
+    const { deps, dialed } = stubDeps()
+    const c = makeCampaign({ pacingSeconds: 30, status: 'paused' })
+    await tickCampaign(c, deps, 0)
+    expect(dialed).toHaveLength(0)
+    c.status = 'running'
+    await tickCampaign(c, deps, 0)
+    await tickCampaign(c, deps, 10_000)
+    expect(dialed).toHaveLength(1)
+    await tickCampaign(c, deps, 30_000)
+    expect(dialed).toHaveLength(2)
+  })
+
+  it('places every paced dial that came due since the last tick', async () => {
+    const { deps, dialed } = stubDeps()
+    const c = makeCampaign({ pacingSeconds: 10, concurrency: 3 })
+    await tickCampaign(c, deps, 0)
+    expect(dialed).toHaveLength(1)
+    await tickCampaign(c, deps, 25_000)
+    expect(dialed).toHaveLength(3)
+    // The 5s left over carries into the next interval
+    expect(c.lastDialAt).toBe(20_000)
+  })
+
+  it('caps the paced dials owed after an idle spell', async () => {
+    const { deps, dialed } = stubDeps()
+    const c = makeCampaign({ pacingSeconds: 30, concurrency: 3, lastDialAt: 0 })
+    await tickCampaign(c, deps, 600_000)
+    expect(dialed).toHaveLength(2)
+  })
+
+  it('postpones a contact without using an attempt when a spend limit refuses the dial', async () => {
+    const { deps, dialed } = stubDeps()
+    const dial = deps.dial
+    deps.dial = async () => {
+      throw Object.assign(new Error('Daily session cap (1) reached'), { status: 429, retryAfter: 60 })
+    }
+    const c = makeCampaign()
+    await tickCampaign(c, deps, 1000)
+    expect(c.contacts[0]).toMatchObject({ status: 'pending', attempts: [], nextAttemptAt: 61_000 })
+    deps.dial = dial
+    await tickCampaign(c, deps, 61_000)
+    expect(dialed[0]).toBe('+14155550100')
+  })
+})
+
+describe('runCampaignTick', () => {
+  beforeEach(() => {
+    resetMemoryStore()
+  })
+
+  it('skips a tick while another one holds the campaign', async () => {
+    const { deps, dialed } = stubDeps()
+    const c = await saveCampaign(makeCampaign({ concurrency: 1 }))
+    let overlapping: Campaign | null | undefined
+    const dial = deps.dial
+    deps.dial = async (campaign, contact) => {
+      overlapping = await runCampaignTick(c.id, deps)
+      return dial(campaign, contact)
+    }
+    await runCampaignTick(c.id, deps)
+    expect(overlapping).toBeNull()
+    expect(dialed).toEqual(['+14155550100'])
+    // The lock is released afterwards
+    expect(await runCampaignTick(c.id, stubDeps().deps)).not.toBeNull()
+  })
+
+  it('keeps a pause made during the tick', async () => {
+    const { deps } = stubDeps()
+    const c = await saveCampaign(makeCampaign({ concurrency: 1 }))
+    const dial = deps.dial
+    deps.dial = async (campaign, contact) => {
+      await setCampaignStatus(c.id, 'pause')
+      return dial(campaign, contact)
+    }
+    await runCampaignTick(c.id, deps)
+    const saved = await getCampaign(c.id)
+    expect(saved?.status).toBe('paused')
+    expect(saved?.contacts[0].status).toBe('dialing')
+  })
+})
+
+describe('fillTemplate', () => {
+  it('replaces known placeholders and keeps unknown ones', () => {
+    expect(fillTemplate('Hi {{ Name }}, plan {{Plan}} {{missing}}', { Name: 'Jane', Plan: 'gold' })).toBe('Hi Jane, plan gold {{missing}}')
+  })
+})
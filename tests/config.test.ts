@@ -0,0 +1,18 @@
+import { describe, expect, it } from '@jest/globals'
+import { configErrors, parseTwimlMode } from '@/lib/config'
+
+describe('TwiML mode config', () => {
+  it('parses stream and simple only', () => {
+    expect(parseTwimlMode('Stream')).toBe('stream')
+    expect(parseTwimlMode('simple')).toBe('simple')
+    expect(parseTwimlMode('sip')).toBeNull()
+    expect(parseTwimlMode(null)).toBeNull()
+  })
+
+  it('reports a sip or unknown TWIML_DEFAULT_MODE at startup', () => {
+    expect(configErrors({})).toEqual([])
+    expect(configErrors({ TWIML_DEFAULT_MODE: 'stream' })).toEqual([])
+    expect(configErrors({ TWIML_DEFAULT_MODE: 'SIP' })[0]).toMatch(/no longer supported/)
+    expect(configErrors({ TWIML_DEFAULT_MODE: 'websocket' })[0]).toMatch(/not a TwiML mode/)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals'
+import { amdWaitMs, callDirection, greetingResponse, resolveGreeting, shouldGreet, waitForAnsweredBy } from '@/lib/greeting'
+import { normalizeControlSettings } from '@/lib/realtimeControl'
+
+const config = {
+  inbound: { type: 'text' as const, text: 'Thanks for calling Acme, how can I help?' },
+  outbound: { type: 'instruction' as const, text: 'Introduce yourself as Acme and ask for the account holder.' },
+}
+
+describe('greeting', () => {
+  it('picks the greeting for the call direction', () => {
+    expect(callDirection('outbound-api')).toBe('outbound')
+    expect(callDirection('outbound-dial')).toBe('outbound')
+    expect(callDirection('inbound')).toBe('inbound')
+    expect(callDirection(undefined)).toBe('inbound')
+    expect(resolveGreeting(config, 'inbound')).toEqual(config.inbound)
+    expect(resolveGreeting(config, 'outbound')).toEqual(config.outbound)
+    expect(resolveGreeting({ inbound: config.inbound }, 'outbound')).toBeNull()
+    expect(resolveGreeting(undefined, 'inbound')).toBeNull()
+  })
+
+  it('speaks literal text verbatim and passes instructions through', () => {
+    const literal = greetingResponse(config.inbound)
+    expect(literal.type).toBe('response.create')
+    expect(literal.response.instructions).toContain('word for word')
+    expect(literal.response.instructions).toContain(config.inbound.text)
+    expect(greetingResponse(config.outbound)).toEqual({ type: 'response.create', response: { instructions: config.outbound.text } })
+  })
+
+  it('skips fax machines only', () => {
+    expect(shouldGreet('human')).toBe(true)
+    expect(shouldGreet('machine_end_beep')).toBe(true)
+    expect(shouldGreet(undefined)).toBe(true)
+    expect(shouldGreet('fax')).toBe(false)
+  })
+
+  it('waits for the async AMD result and gives up after the ceiling', async () => {
+    // Fake clock: sleeping advances time instantly
+    let t = 0
+    const clock = { now: () => t, sleep: async (ms: number) => { t += ms } }
+    let polls = 0
+    expect(await waitForAnsweredBy({ ...clock, lookup: async () => (++polls >= 3 ? 'human' : undefined) })).toBe('human')
+    expect(t).toBe(1000)
+
+    t = 0
+    expect(await waitForAnsweredBy({ ...clock, lookup: async () => undefined })).toBeNull()
+    expect(t).toBe(amdWaitMs())
+
+    t = 0
+    expect(await waitForAnsweredBy({ ...clock, lookup: async () => { throw new Error('store down') }, stopped: () => t >= 1000 })).toBeNull()
+    expect(t).toBe(1000)
+  })
+
+  it('waits for the machine detection timeout plus a margin', () => {
+    const before = process.env.TWILIO_MACHINE_DETECTION_TIMEOUT
+    try {
+      delete process.env.TWILIO_MACHINE_DETECTION_TIMEOUT
+      expect(amdWaitMs()).toBe(33000)
+      process.env.TWILIO_MACHINE_DETECTION_TIMEOUT = '45'
+      expect(amdWaitMs()).toBe(48000)
+      process.env.TWILIO_MACHINE_DETECTION_TIMEOUT = '120'
+      expect(amdWaitMs()).toBe(62000)
+    } finally {
+      if (before === undefined) delete process.env.TWILIO_MACHINE_DETECTION_TIMEOUT
+      else process.env.TWILIO_MACHINE_DETECTION_TIMEOUT = before
+    }
+  })
+
+  it('is validated with the profile settings', () => {
+    expect(normalizeControlSettings({ greeting: config })).toMatchObject({ ok: true })
+    expect(normalizeControlSettings({ greeting: { inbound: { type: 'say', text: 'hi' } } as any })).toMatchObject({ ok: false, error: 'Invalid greeting' })
+    expect(normalizeControlSettings({ greeting: { outbound: { type: 'text', text: '  ' } } })).toMatchObject({ ok: false })
+  })
+})
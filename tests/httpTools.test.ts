@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals'
+import { buildHttpToolRequest, mapResponse, toRealtimeTools } from '@/lib/httpTools'
+import { executeToolCall } from '@/lib/tools'
+import { HttpToolSchema } from '@/lib/validation'
+
+const tool = HttpToolSchema.parse({
+  type: 'http',
+  name: 'lookup_order',
+  description: 'Look up an order',
+  parameters: { type: 'object', properties: { order_id: { type: 'string' }, verbose: { type: 'boolean' } } },
+  http: {
+    method: 'GET',
+    url: 'https://api.example.com/orders/{{order_id}}',
+    headers: { 'X-Order': '{{order_id}}' },
+    auth: { type: 'bearer', secret_ref: 'TOOL_SECRET_ORDERS' },
+    response: { path: 'data.status' },
+  },
+})
+
+describe('httpTools', () => {
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    global.fetch = originalFetch
+    delete process.env.TOOL_SECRET_ORDERS
+  })
+
+  it('rejects secret refs outside the TOOL_SECRET_ namespace', () => {
+    const res = HttpToolSchema.safeParse({ ...tool, http: { ...tool.http, auth: { type: 'bearer', secret_ref: 'OPENAI_API_KEY' } } })
+    expect(res.success).toBe(false)
+  })
+
+  it('strips http config before tools are sent to OpenAI', () => {
+    expect(toRealtimeTools([tool])).toEqual([
+      { type: 'function', name: 'lookup_order', description: 'Look up an order', parameters: tool.parameters },
+    ])
+  })
+
+  it('fills templates and moves leftover args to the query string', () => {
+    process.env.TOOL_SECRET_ORDERS = 's3cret'
+    const req = buildHttpToolRequest(tool, { order_id: 'A 1', verbose: true })
+    expect(req.url).toBe('https://api.example.com/orders/A%201?verbose=true')
+    expect(req.headers['X-Order']).toBe('A 1')
+    expect(req.headers.Authorization).toBe('Bearer s3cret')
+    expect(req.body).toBeUndefined()
+  })
+
+  it('maps response fields', () => {
+    const body = { data: { status: 'shipped', eta: '2d' } }
+    expect(mapResponse(body, { path: 'data.status' })).toBe('shipped')
+    expect(mapResponse(body, { fields: { when: 'data.eta' } })).toEqual({ when: '2d' })
+  })
+
+  it('executes http tools found in the session tool list', async () => {
+    process.env.TOOL_SECRET_ORDERS = 's3cret'
+    const fetchMock = jest.fn(async () => ({ ok: true, status: 200, text: async () => '{"data":{"status":"shipped"}}' }))
+    global.fetch = fetchMock as any
+    const res = await executeToolCall(
+      { name: 'lookup_order', call_id: 'call_1', arguments: '{"order_id":"42"}' },
+      { callSid: 'CA1', streamSid: 'MZ1' },
+      { tools: [tool] }
+    )
+    expect(res.ok).toBe(true)
+    expect(res.output).toBe('shipped')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('surfaces non-2xx responses as tool errors', async () => {
+    process.env.TOOL_SECRET_ORDERS = 's3cret'
+    global.fetch = jest.fn(async () => ({ ok: false, status: 404, text: async () => 'not found' })) as any
+    const res = await executeToolCall(
+      { name: 'lookup_order', call_id: 'call_2', arguments: '{"order_id":"42"}' },
+      { callSid: 'CA1', streamSid: 'MZ1' },
+      { tools: [tool] }
+    )
+    expect(res.ok).toBe(false)
+    expect(res.error).toMatch(/HTTP 404/)
+  })
+})
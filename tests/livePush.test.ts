@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+// node environment: push signatures use Web Crypto, which jsdom lacks
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { NextRequest } from 'next/server'
+import { resetMemoryStore } from '@/lib/store'
+import { openLiveStore, resetMemoryLiveStore, signLivePush } from '@/lib/liveStore'
+import { POST } from '@/app/api/live/[sid]/push/route'
+
+process.env.STORE_DRIVER = 'memory'
+process.env.LIVE_STORE_DRIVER = 'memory'
+process.env.LIVE_PUSH_SECRET = 'live-push-secret-for-tests'
+
+const sid = 'CA_live_push_1'
+const body = JSON.stringify({ type: 'assistant', text: 'Hello' })
+
+function push(headers: Record<string, string> = {}, raw = body) {
+  const req = new NextRequest(`http://localhost/api/live/${sid}/push`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: raw,
+  })
+  return POST(req, { params: { sid } })
+}
+
+async function entries() {
+  const store = await openLiveStore()
+  return store.read(sid, { afterId: '0-0' })
+}
+
+beforeEach(() => {
+  resetMemoryStore()
+  resetMemoryLiveStore()
+})
+
+describe('live push', () => {
+  it('rejects unsigned and mis-signed pushes', async () => {
+    expect((await push()).status).toBe(401)
+    expect((await push(await signLivePush(body, 'some-other-secret'))).status).toBe(401)
+    // Signature over a different body
+    expect((await push(await signLivePush(body), JSON.stringify({ type: 'assistant', text: 'Injected' }))).status).toBe(401)
+    expect(await entries()).toEqual([])
+  })
+
+  it('appends pushes signed by the bridge', async () => {
+    const res = await push(await signLivePush(body))
+    expect(res.status).toBe(200)
+    expect((await entries()).map((e) => JSON.parse(e.data).text)).toEqual(['Hello'])
+  })
+})
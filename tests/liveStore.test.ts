@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import {
+  LiveSidSchema,
+  compareEntryIds,
+  formatSseEvent,
+  liveStoreDriver,
+  openLiveStore,
+  parseLastEventId,
+  resetMemoryLiveStore,
+  type LiveStore,
+  type LiveStoreDriverName,
+} from '@/lib/liveStore'
+
+// Contract suite for every live store driver. redis and kv run when their
+// credentials are configured (REDIS_URL, KV_REST_API_URL/KV_REST_API_TOKEN).
+const drivers: LiveStoreDriverName[] = ['memory']
+if (process.env.REDIS_URL) drivers.push('redis')
+if (process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN) drivers.push('kv')
+
+describe.each(drivers)('%s live store', (driver) => {
+  let store: LiveStore
+  // Fresh stream per test so shared backends do not leak entries between runs
+  let sid: string
+
+  beforeEach(async () => {
+    resetMemoryLiveStore()
+    store = await openLiveStore(driver)
+    sid = `TEST${Date.now()}${Math.random().toString(36).slice(2, 10)}`
+  })
+
+  afterEach(async () => {
+    await store.close()
+  })
+
+  it('reads appended entries in order with increasing ids', async () => {
+    const ids = [await store.append(sid, 'a'), await store.append(sid, 'b'), await store.append(sid, '{"text":"c"}')]
+    expect(compareEntryIds(ids[1], ids[0])).toBeGreaterThan(0)
+    expect(compareEntryIds(ids[2], ids[1])).toBeGreaterThan(0)
+    const entries = await store.read(sid, { afterId: '0-0' })
+    expect(entries).toEqual([
+      { id: ids[0], data: 'a' },
+      { id: ids[1], data: 'b' },
+      { id: ids[2], data: '{"text":"c"}' },
+    ])
+  })
+
+  it('resumes after a given id', async () => {
+    const first = await store.append(sid, 'a')
+    await store.append(sid, 'b')
+    const entries = await store.read(sid, { afterId: first })
+    expect(entries.map((e) => e.data)).toEqual(['b'])
+    expect(await store.read(sid, { afterId: entries[0].id })).toEqual([])
+  })
+
+  it('honours count', async () => {
+    for (const d of ['a', 'b', 'c']) await store.append(sid, d)
+    expect((await store.read(sid, { afterId: '0-0', count: 2 })).map((e) => e.data)).toEqual(['a', 'b'])
+  })
+
+  it('keeps streams separate per sid', async () => {
+    await store.append(sid, 'mine')
+    await store.append(`${sid}X`, 'other')
+    expect((await store.read(sid, { afterId: '0-0' })).map((e) => e.data)).toEqual(['mine'])
+  })
+
+  it('returns empty after the block timeout', async () => {
+    const started = Date.now()
+    expect(await store.read(sid, { afterId: '0-0', blockMs: 200 })).toEqual([])
+    expect(Date.now() - started).toBeGreaterThanOrEqual(150)
+  })
+
+  it('wakes a blocked read when an entry is appended', async () => {
+    // A blocked redis read holds its connection, so append through a second store
+    const writer = await openLiveStore(driver)
+    try {
+      const pending = store.read(sid, { afterId: '0-0', blockMs: 5000 })
+      setTimeout(() => { writer.append(sid, 'late') }, 50)
+      expect((await pending).map((e) => e.data)).toEqual(['late'])
+    } finally {
+      await writer.close()
+    }
+  })
+
+  it('ends a blocked read on abort', async () => {
+    const ac = new AbortController()
+    const started = Date.now()
+    setTimeout(() => ac.abort(), 50)
+    expect(await store.read(sid, { afterId: '0-0', blockMs: 5000, signal: ac.signal })).toEqual([])
+    expect(Date.now() - started).toBeLessThan(2000)
+  })
+})
+
+describe('live store helpers', () => {
+  const env = { ...process.env }
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('selects the driver from config, then available credentials', () => {
+    delete process.env.REDIS_URL
+    process.env.LIVE_STORE_DRIVER = 'memory'
+    expect(liveStoreDriver()).toBe('memory')
+    delete process.env.LIVE_STORE_DRIVER
+    process.env.REDIS_URL = 'redis://localhost:6379'
+    expect(liveStoreDriver()).toBe('redis')
+  })
+
+  it('resumes from a well-formed Last-Event-ID only', () => {
+    expect(parseLastEventId('1718000000000-3')).toBe('1718000000000-3')
+    expect(parseLastEventId(null)).toBe('0-0')
+    expect(parseLastEventId('$')).toBe('0-0')
+    expect(parseLastEventId('12 OR 1')).toBe('0-0')
+  })
+
+  it('formats events with an id and one data line per payload line', () => {
+    expect(formatSseEvent('1-0', 'line', '{"text":"hi"}')).toBe('id: 1-0\nevent: line\ndata: {"text":"hi"}\n\n')
+    expect(formatSseEvent('2-1', 'line', 'a\nb')).toBe('id: 2-1\nevent: line\ndata: a\ndata: b\n\n')
+  })
+
+  it('rejects SIDs that are not safe key segments', () => {
+    expect(LiveSidSchema.safeParse('CA0123456789abcdef0123456789abcdef').success).toBe(true)
+    expect(LiveSidSchema.safeParse('short').success).toBe(false)
+    expect(LiveSidSchema.safeParse('CA0123456789:*').success).toBe(false)
+  })
+})
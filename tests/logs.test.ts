@@ -0,0 +1,28 @@
+import { describe, expect, it } from '@jest/globals'
+import { publishLog, readLogs } from '@/lib/logs'
+
+describe('logs', () => {
+  it('filters by call, source and event prefix', async () => {
+    const since = Date.now()
+    await publishLog({ source: 'twilio', event: 'start', callSid: 'CA_logs_1', streamSid: 'MZ_logs_1' })
+    await publishLog({ source: 'openai', event: 'response.done', callSid: 'CA_logs_1', data: { ok: true } })
+    await publishLog({ source: 'openai', event: 'response.done', callSid: 'CA_logs_2' })
+
+    expect(await readLogs({ since, callSid: 'CA_logs_1' })).toHaveLength(2)
+    expect(await readLogs({ since, callSid: 'MZ_logs_1' })).toHaveLength(1)
+    expect(await readLogs({ since, source: 'openai' })).toHaveLength(2)
+    expect((await readLogs({ since, event: 'response.', callSid: 'CA_logs_1' }))[0].data).toEqual({ ok: true })
+  })
+
+  it('returns the oldest entries first when limited, so replay can page forward', async () => {
+    const since = Date.now()
+    for (let i = 0; i < 3; i++) await publishLog({ source: 'bridge', event: `page.${i}`, callSid: 'CA_logs_page' })
+    const page = await readLogs({ since, callSid: 'CA_logs_page', limit: 2 })
+    expect(page.map((e) => e.event)).toEqual(['page.0', 'page.1'])
+  })
+
+  it('truncates oversized payloads', async () => {
+    const e = await publishLog({ source: 'bridge', event: 'big', data: { blob: 'x'.repeat(10000) } })
+    expect(e.data.truncated).toBe(true)
+  })
+})
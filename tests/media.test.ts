@@ -0,0 +1,17 @@
+import { describe, expect, it } from '@jest/globals'
+import { clearCallMedia, loadCallMedia, storeCallMedia, toInputImageItem } from '@/lib/media'
+
+describe('media', () => {
+  it('stores images per call and drops non-images', async () => {
+    const count = await storeCallMedia('CA_media_1', [
+      { type: 'image', mime_type: 'image/png', data_base64: 'iVBORw0KGgo=', name: 'a.png' },
+      { type: 'image', mime_type: 'application/pdf', data_base64: 'JVBERi0=' },
+    ])
+    expect(count).toBe(1)
+    const media = await loadCallMedia('CA_media_1')
+    expect(media).toHaveLength(1)
+    expect(toInputImageItem(media[0]).content[0]).toEqual({ type: 'input_image', image_url: 'data:image/png;base64,iVBORw0KGgo=' })
+    await clearCallMedia('CA_media_1')
+    expect(await loadCallMedia('CA_media_1')).toEqual([])
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+// node environment: signing uses Web Crypto, which jsdom lacks
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { resetMemoryStore } from '@/lib/store'
+import { verifyHmacSignature } from '@/lib/webhooks'
+import { applyCallPatch } from '@/lib/callRecords'
+import {
+  backoffMs,
+  callLifecycleEvents,
+  createSubscription,
+  deleteSubscription,
+  emitWebhookEvent,
+  listDeliveries,
+  processDueDeliveries,
+  redeliver,
+  type WebhookDeliveryDeps,
+} from '@/lib/outboundWebhooks'
+
+process.env.STORE_DRIVER = 'memory'
+
+type Sent = { url: string; headers: Record<string, string>; body: string }
+
+// Replies with the queued statuses in order (200 once they run out); an Error rejects
+function stubSender(replies: Array<number | Error> = []) {
+  const sent: Sent[] = []
+  const deps: WebhookDeliveryDeps = {
+    async send(url, init) {
+      sent.push({ url, ...init })
+      const r = replies.shift() ?? 200
+      if (r instanceof Error) throw r
+      return { status: r }
+    },
+  }
+  return { deps, sent }
+}
+
+const T0 = Date.parse('2024-06-04T12:00:00Z')
+
+describe('outbound webhooks', () => {
+  beforeEach(() => {
+    resetMemoryStore()
+    delete process.env.WEBHOOK_MAX_ATTEMPTS
+    delete process.env.WEBHOOK_RETRY_BASE_SECONDS
+  })
+
+  it('delivers signed events that verifyHmacSignature accepts, only to matching subscribers', async () => {
+    const crm = await createSubscription({ url: 'https://crm.example.com/hooks', events: ['call.ended'], secret: 'crm-secret-0123456789' })
+    await createSubscription({ url: 'https://other.example.com/hooks', events: ['tool.invoked'] })
+    await createSubscription({ url: 'https://off.example.com/hooks', enabled: false })
+    const { deps, sent } = stubSender()
+
+    const [d] = await emitWebhookEvent('call.ended', { callSid: 'CA1' }, deps, T0)
+    expect(sent).toHaveLength(1)
+    expect(sent[0].url).toBe(crm.url)
+    expect(d).toMatchObject({ status: 'delivered', attempts: 1, lastStatus: 200 })
+    expect(JSON.parse(sent[0].body)).toMatchObject({ type: 'call.ended', data: { callSid: 'CA1' } })
+    const h = sent[0].headers
+    expect(h['X-Webhook-Event']).toBe('call.ended')
+    // verifyHmacSignature enforces its tolerance against the real clock
+    expect(verifyHmacSignature({ rawBody: sent[0].body, signature: h['X-Webhook-Signature'], secret: crm.secret, timestamp: h['X-Webhook-Timestamp'], toleranceSeconds: Number.MAX_SAFE_INTEGER })).toBe(true)
+    expect(verifyHmacSignature({ rawBody: sent[0].body + ' ', signature: h['X-Webhook-Signature'], secret: crm.secret, timestamp: h['X-Webhook-Timestamp'], toleranceSeconds: Number.MAX_SAFE_INTEGER })).toBe(false)
+  })
+
+  it('retries with exponential backoff, then dead-letters', async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3'
+    await createSubscription({ url: 'https://crm.example.com/hooks' })
+    const { deps, sent } = stubSender([500, new Error('ECONNRESET'), 503])
+
+    const [d] = await emitWebhookEvent('summary.ready', { callSid: 'CA1' }, deps, T0)
+    expect(d).toMatchObject({ status: 'pending', attempts: 1, lastError: 'HTTP 500', nextAttemptAt: T0 + 30_000 })
+
+    // Not due yet
+    expect(await processDueDeliveries(deps, T0 + 29_000)).toHaveLength(0)
+    const [second] = await processDueDeliveries(deps, T0 + 30_000)
+    expect(second).toMatchObject({ status: 'pending', attempts: 2, lastError: 'ECONNRESET', nextAttemptAt: T0 + 30_000 + backoffMs(2) })
+    expect(backoffMs(2)).toBe(60_000)
+
+    const [third] = await processDueDeliveries(deps, T0 + 90_000)
+    expect(third).toMatchObject({ status: 'dead', attempts: 3, lastStatus: 503 })
+    expect(sent).toHaveLength(3)
+    expect((await listDeliveries({ status: 'dead' })).map((x) => x.id)).toEqual([d.id])
+  })
+
+  it('redelivers dead letters by hand and removes them from the dead-letter list', async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '1'
+    await createSubscription({ url: 'https://crm.example.com/hooks' })
+    const { deps, sent } = stubSender([500, 200])
+    const [d] = await emitWebhookEvent('transcript.final', { callSid: 'CA1', turns: [] }, deps, T0)
+    expect(d.status).toBe('dead')
+
+    const result = await redeliver(d.id, deps, T0 + 1000)
+    expect('delivery' in result && result.delivery).toMatchObject({ status: 'delivered', attempts: 1 })
+    expect(sent[1].body).toBe(sent[0].body)
+    expect(await listDeliveries({ status: 'dead' })).toEqual([])
+    expect((await listDeliveries())[0].history).toHaveLength(2)
+  })
+
+  it('dead-letters retries for deleted subscriptions', async () => {
+    const sub = await createSubscription({ url: 'https://crm.example.com/hooks' })
+    const { deps } = stubSender([500])
+    await emitWebhookEvent('call.started', { callSid: 'CA1' }, deps, T0)
+    await deleteSubscription(sub.id)
+    const [d] = await processDueDeliveries(deps, T0 + 60_000)
+    expect(d).toMatchObject({ status: 'dead', lastError: 'Subscription deleted' })
+  })
+
+  it('derives call.started and call.ended from record transitions once', () => {
+    const queued = applyCallPatch(null, 'CA1', { status: 'queued' })
+    const answered = applyCallPatch(queued, 'CA1', { status: 'in-progress' })
+    const ended = applyCallPatch(answered, 'CA1', { status: 'completed' })
+    expect(callLifecycleEvents(queued, answered)).toEqual(['call.started'])
+    expect(callLifecycleEvents(answered, ended)).toEqual(['call.ended'])
+    expect(callLifecycleEvents(ended, applyCallPatch(ended, 'CA1', { status: 'completed' }))).toEqual([])
+    expect(callLifecycleEvents(null, applyCallPatch(null, 'CA1', { status: 'no-answer' }))).toEqual(['call.ended'])
+  })
+})
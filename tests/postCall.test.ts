@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { resetMemoryStore } from '@/lib/store'
+import { getCallRecord } from '@/lib/callRecords'
+import { saveTranscript, createTranscriptState } from '@/lib/transcript'
+import { buildAnalysisRequest, enqueuePostCall, processPostCallQueue, resolvePostCallConfig, runPostCallAnalysis, type ModelClient, type ModelRequest } from '@/lib/postCall'
+
+process.env.STORE_DRIVER = 'memory'
+
+const sid = 'CA' + 'c'.repeat(32)
+
+// Stub model: records the request and replies with a fixed payload (or throws)
+function stubModel(reply: unknown | Error) {
+  const requests: ModelRequest[] = []
+  const model: ModelClient = {
+    async complete(req) {
+      requests.push(req)
+      if (reply instanceof Error) throw reply
+      return reply
+    },
+  }
+  return { model, requests }
+}
+
+const config = resolvePostCallConfig({
+  dispositions: ['appointment_booked', 'callback_requested', 'other'],
+  extraction_schema: {
+    type: 'object',
+    properties: { appointment_time: { type: ['string', 'null'] }, callback_number: { type: ['string', 'null'] } },
+  },
+})!
+
+async function storeCall() {
+  const state = createTranscriptState(0)
+  state.turns.push(
+    { item_id: 'a1', role: 'assistant', text: 'Hi, want to book a cleaning?', startMs: 0, final: true },
+    { item_id: 'u1', role: 'user', text: 'Yes, Tuesday at 3pm please.', startMs: 2000, final: true },
+  )
+  await saveTranscript(sid, state)
+}
+
+describe('post-call analysis', () => {
+  beforeEach(() => resetMemoryStore())
+
+  it('is off unless the profile configures it or POST_CALL_ANALYSIS is set', () => {
+    expect(resolvePostCallConfig(undefined)).toBeNull()
+    expect(resolvePostCallConfig({ enabled: false, model: 'x' })).toBeNull()
+    expect(resolvePostCallConfig({})?.dispositions).toContain('resolved')
+  })
+
+  it('sends the transcript with the profile schema and stores the result on the call record', async () => {
+    await storeCall()
+    const { model, requests } = stubModel({
+      summary: ' Caller booked a cleaning. ',
+      disposition: 'appointment_booked',
+      data: { appointment_time: 'Tuesday 3pm', extra: 'ignored' },
+    })
+    const now = () => new Date('2024-06-04T12:00:00Z')
+    const analysis = await runPostCallAnalysis(sid, config, { model, now })
+
+    expect(requests[0].user).toBe('Agent: Hi, want to book a cleaning?\nCaller: Yes, Tuesday at 3pm please.')
+    expect(requests[0].schema.properties.disposition.enum).toEqual(['appointment_booked', 'callback_requested', 'other'])
+    expect(requests[0].schema.properties.data).toBe(config.extractionSchema)
+    expect(analysis).toEqual({
+      status: 'completed',
+      summary: 'Caller booked a cleaning.',
+      disposition: 'appointment_booked',
+      data: { appointment_time: 'Tuesday 3pm', callback_number: null },
+      model: 'gpt-4o-mini',
+      createdAt: '2024-06-04T12:00:00.000Z',
+    })
+    expect((await getCallRecord(sid))?.analysis).toEqual(analysis)
+  })
+
+  it('maps unknown dispositions to other', async () => {
+    await storeCall()
+    const { model } = stubModel({ summary: 'ok', disposition: 'made_up', data: {} })
+    expect((await runPostCallAnalysis(sid, config, { model })).disposition).toBe('other')
+  })
+
+  it('records failures and skips calls without a transcript', async () => {
+    const { model, requests } = stubModel(new Error('rate limited'))
+    expect((await runPostCallAnalysis(sid, config, { model })).status).toBe('skipped')
+    expect(requests).toHaveLength(0)
+
+    await storeCall()
+    const failed = await runPostCallAnalysis(sid, config, { model })
+    expect(failed).toMatchObject({ status: 'failed', error: 'rate limited' })
+    expect((await getCallRecord(sid))?.analysis?.status).toBe('failed')
+  })
+
+  it('analyzes queued calls once', async () => {
+    await storeCall()
+    await enqueuePostCall({ callSid: sid, config })
+    const { model, requests } = stubModel({ summary: 'Caller booked a cleaning.', disposition: 'appointment_booked', data: {} })
+    const [first, second] = await Promise.all([processPostCallQueue({ model }), processPostCallQueue({ model })])
+    expect([...first, ...second].map((r) => r.callSid)).toEqual([sid])
+    expect(requests).toHaveLength(1)
+    expect((await getCallRecord(sid))?.analysis?.disposition).toBe('appointment_booked')
+    expect(await processPostCallQueue({ model })).toEqual([])
+  })
+
+  it('adds profile instructions to the system prompt', () => {
+    const req = buildAnalysisRequest([], { ...config, instructions: 'Note any competitor mentioned.' })
+    expect(req.system).toMatch(/Note any competitor mentioned\.$/)
+  })
+})
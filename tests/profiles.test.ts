@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import {
+  activateProfile,
+  deleteProfile,
+  diffSettings,
+  getActiveProfileName,
+  getProfile,
+  getProfileSettings,
+  listProfiles,
+  rollbackProfile,
+  saveProfile,
+} from '@/lib/profiles'
+import { resetMemoryStore } from '@/lib/store'
+
+process.env.STORE_DRIVER = 'memory'
+
+describe('profiles', () => {
+  beforeEach(() => resetMemoryStore())
+
+  it('versions every save and activates the first profile', async () => {
+    await saveProfile('sales', { voice: 'alloy' })
+    await saveProfile('sales', { voice: 'echo' }, { note: 'warmer' })
+    const p = await getProfile('sales')
+    expect(p?.currentVersion).toBe(2)
+    expect(p?.versions.map((v) => v.version)).toEqual([1, 2])
+    expect(await getActiveProfileName()).toBe('sales')
+    expect(await getProfileSettings()).toEqual({ voice: 'echo' })
+  })
+
+  it('rolls back by appending a copy of an older version', async () => {
+    await saveProfile('support', { voice: 'alloy', temperature: 0.5 })
+    await saveProfile('support', { voice: 'shimmer', temperature: 0.5 })
+    const p = await rollbackProfile('support', 1)
+    expect(p?.currentVersion).toBe(3)
+    expect(p?.versions[2].note).toBe('Rollback to v1')
+    expect(await getProfileSettings('support')).toEqual({ voice: 'alloy', temperature: 0.5 })
+  })
+
+  it('switches and clears the active profile', async () => {
+    await saveProfile('a', {})
+    await saveProfile('b', {})
+    expect(await activateProfile('b')).toBe(true)
+    expect((await listProfiles()).find((p) => p.active)?.name).toBe('b')
+    await deleteProfile('b')
+    expect(await getActiveProfileName()).toBeNull()
+    expect((await listProfiles()).map((p) => p.name)).toEqual(['a'])
+  })
+
+  it('diffs nested settings', () => {
+    const changes = diffSettings(
+      { voice: 'alloy', turn_detection: { type: 'server_vad', threshold: 0.5 } },
+      { voice: 'alloy', turn_detection: { type: 'server_vad', threshold: 0.7 }, temperature: 1 }
+    )
+    expect(changes).toEqual([
+      { path: 'temperature', before: undefined, after: 1 },
+      { path: 'turn_detection.threshold', before: 0.5, after: 0.7 },
+    ])
+  })
+})
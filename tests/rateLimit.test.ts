@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { checkRateLimits, clientIp, getUsage, recordCallMinutes, reserveSession, resetMemoryRateLimits } from '@/lib/rateLimit'
+
+process.env.RATE_LIMIT_DRIVER = 'memory'
+
+const noon = Date.parse('2026-05-01T12:00:00Z')
+
+beforeEach(() => {
+  resetMemoryRateLimits()
+  process.env.RATE_LIMIT_IP_PER_MINUTE = '2'
+  process.env.RATE_LIMIT_NUMBER_PER_HOUR = '1'
+  delete process.env.DAILY_SESSION_CAP
+  delete process.env.DAILY_CALL_MINUTES_CAP
+})
+
+describe('checkRateLimits', () => {
+  it('allows a burst up to capacity, then refills over the window', async () => {
+    await checkRateLimits({ ip: '1.2.3.4' }, noon)
+    await checkRateLimits({ ip: '1.2.3.4' }, noon)
+    await expect(checkRateLimits({ ip: '1.2.3.4' }, noon)).rejects.toMatchObject({ status: 429, limit: 'ip', retryAfter: 30 })
+    // Other IPs have their own bucket
+    await checkRateLimits({ ip: '5.6.7.8' }, noon)
+    // One token back after 30s (2 per minute)
+    await checkRateLimits({ ip: '1.2.3.4' }, noon + 30_000)
+  })
+
+  it('limits each destination number', async () => {
+    await checkRateLimits({ number: '+14155550100' }, noon)
+    await expect(checkRateLimits({ number: '+14155550100' }, noon + 60_000)).rejects.toMatchObject({ limit: 'number', retryAfter: 3540 })
+  })
+
+  it('can be turned off with 0', async () => {
+    process.env.RATE_LIMIT_NUMBER_PER_HOUR = '0'
+    for (let i = 0; i < 5; i++) await checkRateLimits({ number: '+14155550100' }, noon)
+  })
+})
+
+describe('daily caps', () => {
+  it('refuses sessions past the cap until the next UTC day and does not count refusals', async () => {
+    process.env.DAILY_SESSION_CAP = '2'
+    await reserveSession(noon)
+    await reserveSession(noon)
+    await expect(reserveSession(noon)).rejects.toMatchObject({ status: 429, limit: 'sessions', retryAfter: 12 * 3600 })
+    expect((await getUsage(noon)).sessions).toEqual({ used: 2, cap: 2 })
+    await reserveSession(noon + 12 * 3600_000)
+  })
+
+  it('stops minting once completed call minutes reach the cap', async () => {
+    process.env.DAILY_CALL_MINUTES_CAP = '10'
+    await recordCallMinutes(61, noon)
+    expect((await getUsage(noon)).minutes).toEqual({ used: 2, cap: 10 })
+    await recordCallMinutes(480, noon)
+    await expect(reserveSession(noon)).rejects.toMatchObject({ limit: 'minutes' })
+  })
+})
+
+describe('usage', () => {
+  it('flags per-process counters and unenforceable caps on the memory driver', async () => {
+    expect(await getUsage(noon)).toMatchObject({ driver: 'memory', warning: expect.stringContaining('REDIS_URL') })
+    expect((await getUsage(noon)).warning).not.toContain('DAILY_SESSION_CAP')
+    process.env.DAILY_SESSION_CAP = '100'
+    expect((await getUsage(noon)).warning).toContain('not enforced across instances')
+  })
+})
+
+describe('clientIp', () => {
+  const req = (headers: Record<string, string>) =>
+    ({ headers: { get: (name: string) => headers[name.toLowerCase()] ?? null } }) as unknown as Request
+
+  it('ignores X-Forwarded-For hops the client sent', () => {
+    expect(clientIp(req({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7')
+    expect(clientIp(req({ 'x-forwarded-for': '10.9.9.9, 203.0.113.7' }))).toBe('203.0.113.7')
+    expect(clientIp(req({ 'x-forwarded-for': '10.9.9.9, 203.0.113.7', 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2')
+    expect(clientIp(req({}))).toBeNull()
+  })
+
+  it('keeps the bucket key when a spoofed prefix is added', async () => {
+    const ip = clientIp(req({ 'x-forwarded-for': '203.0.113.7' }))
+    await checkRateLimits({ ip }, noon)
+    await checkRateLimits({ ip: clientIp(req({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' })) }, noon)
+    await expect(checkRateLimits({ ip: clientIp(req({ 'x-forwarded-for': '2.2.2.2, 203.0.113.7' })) }, noon)).rejects.toMatchObject({ limit: 'ip' })
+  })
+
+  it('skips the hops added by extra trusted proxies', () => {
+    process.env.TRUSTED_PROXY_HOPS = '2'
+    try {
+      expect(clientIp(req({ 'x-forwarded-for': '10.9.9.9, 203.0.113.7, 172.16.0.1' }))).toBe('203.0.113.7')
+    } finally {
+      delete process.env.TRUSTED_PROXY_HOPS
+    }
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+// node environment: the hash action uses Web Crypto, which jsdom lacks
+import { afterEach, describe, expect, it } from '@jest/globals'
+import { findPii, luhnValid, redactDeep, redactDelta, redactText, resolveRedactionPolicy } from '@/lib/redaction'
+
+const env = { ...process.env }
+
+describe('PII redaction', () => {
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('detects cards only when they pass the Luhn check', () => {
+    expect(luhnValid('4111111111111111')).toBe(true)
+    expect(luhnValid('4111111111111112')).toBe(false)
+    expect(findPii('card 4111 1111 1111 1111 ok').map((m) => m.type)).toEqual(['card'])
+    expect(findPii('order 4111 1111 1111 1112')).toEqual([])
+  })
+
+  it('detects SSNs, emails and phone numbers', () => {
+    const text = 'SSN 123-45-6789, mail Jane.Doe@example.co.uk or call (415) 555-1234 / +44 20 7946 0958'
+    expect(findPii(text).map((m) => [m.type, m.value])).toEqual([
+      ['ssn', '123-45-6789'],
+      ['email', 'Jane.Doe@example.co.uk'],
+      ['phone', '(415) 555-1234'],
+    ])
+    expect(findPii('SSN 000-12-3456 is not valid')).toEqual([])
+  })
+
+  it('masks keeping the last four digits and counts by type', async () => {
+    const r = await redactText('Card 4111-1111-1111-1111, email jane@example.com, ssn 123 45 6789', resolveRedactionPolicy())
+    expect(r.text).toBe('Card ••••-••••-••••-1111, email j•••@example.com, ssn ••• •• 6789')
+    expect(r.counts).toEqual({ card: 1, email: 1, ssn: 1 })
+  })
+
+  it('hashes to stable tokens regardless of formatting, and drops per type', async () => {
+    const policy = resolveRedactionPolicy({ action: 'hash', actions: { email: 'drop' } })
+    const a = await redactText('4111 1111 1111 1111', policy)
+    const b = await redactText('4111111111111111', policy)
+    expect(a.text).toMatch(/^\[card:[0-9a-f]{8}\]$/)
+    expect(a.text).toBe(b.text)
+    expect((await redactText('mail jane@example.com', policy)).text).toBe('mail [email redacted]')
+  })
+
+  it('is idempotent, so text can pass through more than one stage', async () => {
+    for (const action of ['mask', 'hash', 'drop'] as const) {
+      const policy = resolveRedactionPolicy({ action })
+      const once = await redactText('4111 1111 1111 1111 / 415-555-1234 / a@b.io / 123-45-6789', policy)
+      const twice = await redactText(once.text, policy)
+      expect(twice).toEqual({ text: once.text, counts: {} })
+    }
+  })
+
+  it('applies profile policies over env defaults', async () => {
+    process.env.REDACTION_DETECTORS = 'card,ssn'
+    expect((await redactText('call 415-555-1234', resolveRedactionPolicy())).counts).toEqual({})
+    expect((await redactText('call 415-555-1234', resolveRedactionPolicy({ detectors: ['phone'] }))).counts).toEqual({ phone: 1 })
+    process.env.REDACTION_ENABLED = 'false'
+    expect((await redactText('4111111111111111', resolveRedactionPolicy())).text).toBe('4111111111111111')
+    expect((await redactText('4111111111111111', resolveRedactionPolicy({ enabled: true }))).counts).toEqual({ card: 1 })
+  })
+
+  it('redacts nested log payloads and strips digits from live deltas', async () => {
+    const policy = resolveRedactionPolicy()
+    const r = await redactDeep({ transcript: 'at jane@example.com', item: { args: ['415-555-1234'] }, n: 3 }, policy)
+    expect(r.value).toEqual({ transcript: 'at j•••@example.com', item: { args: ['•••-•••-1234'] }, n: 3 })
+    expect(r.counts).toEqual({ email: 1, phone: 1 })
+    expect(await redactDelta('4111 11', policy)).toBe('•••• ••')
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals'
+import { matchRoute, RoutingTableSchema, type RoutingTable } from '@/lib/routing'
+
+const table = (rules: any[], timezone?: string): RoutingTable => RoutingTableSchema.parse({ timezone, rules })
+
+// 2024-06-05 is a Wednesday
+const at = (iso: string) => new Date(iso)
+
+describe('matchRoute', () => {
+  it('returns the first enabled rule matching the called number', () => {
+    const t = table([
+      { id: 'off', enabled: false, match: { to: ['+15550001111'] }, action: { profile: 'disabled' } },
+      { id: 'sales', match: { to: ['+15550001111'] }, action: { profile: 'sales' } },
+      { id: 'any', action: { profile: 'default' } },
+    ])
+    expect(matchRoute(t, { to: '+15550001111', now: at('2024-06-05T12:00:00Z') })?.id).toBe('sales')
+    expect(matchRoute(t, { to: '+15550002222', now: at('2024-06-05T12:00:00Z') })?.id).toBe('any')
+  })
+
+  it('matches caller prefixes with or without a leading plus', () => {
+    const t = table([{ id: 'uk', match: { callerPrefix: ['44', '+353'] }, action: { mode: 'stream' } }])
+    expect(matchRoute(t, { from: '+447700900123', now: new Date() })?.id).toBe('uk')
+    expect(matchRoute(t, { from: '+353861234567', now: new Date() })?.id).toBe('uk')
+    expect(matchRoute(t, { from: '+14155550100', now: new Date() })).toBeNull()
+    expect(matchRoute(t, { now: new Date() })).toBeNull()
+  })
+
+  it('evaluates days and time of day in the rule time zone', () => {
+    const t = table([
+      {
+        id: 'ny-hours',
+        match: { days: [1, 2, 3, 4, 5], time: { start: '09:00', end: '17:00' }, timezone: 'America/New_York' },
+        action: { profile: 'office' },
+      },
+    ])
+    // 14:00 UTC = 10:00 EDT on Wednesday
+    expect(matchRoute(t, { now: at('2024-06-05T14:00:00Z') })?.id).toBe('ny-hours')
+    // 22:00 UTC = 18:00 EDT
+    expect(matchRoute(t, { now: at('2024-06-05T22:00:00Z') })).toBeNull()
+    // Saturday
+    expect(matchRoute(t, { now: at('2024-06-08T14:00:00Z') })).toBeNull()
+  })
+
+  it('attributes overnight ranges to the day they started', () => {
+    const t = table([
+      { id: 'fri-night', match: { days: [5], time: { start: '22:00', end: '06:00' } }, action: { fallback: { type: 'voicemail' } } },
+    ], 'UTC')
+    expect(matchRoute(t, { now: at('2024-06-07T23:00:00Z') })?.id).toBe('fri-night')
+    expect(matchRoute(t, { now: at('2024-06-08T03:00:00Z') })?.id).toBe('fri-night')
+    expect(matchRoute(t, { now: at('2024-06-08T23:00:00Z') })).toBeNull()
+    expect(matchRoute(t, { now: at('2024-06-07T03:00:00Z') })).toBeNull()
+  })
+
+  it('rejects duplicate ids and unknown time zones', () => {
+    expect(RoutingTableSchema.safeParse({ rules: [{ id: 'a', action: {} }, { id: 'a', action: {} }] }).success).toBe(false)
+    expect(RoutingTableSchema.safeParse({ timezone: 'Mars/Olympus', rules: [] }).success).toBe(false)
+  })
+
+  it('rejects the removed sip mode', () => {
+    const res = RoutingTableSchema.safeParse({ rules: [{ id: 'a', action: { mode: 'sip' } }] })
+    expect(res.success).toBe(false)
+    expect(JSON.stringify(res.error?.issues)).toMatch(/SIP mode was removed/)
+  })
+})
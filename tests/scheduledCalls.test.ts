@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import {
+  cancelScheduledCall,
+  createScheduledCall,
+  dispatchDueCalls,
+  getScheduledCall,
+  rescheduleCall,
+  ScheduledCallCreateSchema,
+} from '@/lib/scheduledCalls'
+import { resetMemoryStore } from '@/lib/store'
+import { zonedTimeToUtc } from '@/lib/timezone'
+
+process.env.STORE_DRIVER = 'memory'
+
+const now = new Date('2024-06-01T12:00:00Z')
+
+function input(at: string, timezone?: string) {
+  return ScheduledCallCreateSchema.parse({
+    at,
+    timezone,
+    call: {
+      toNumber: '+15551231234',
+      openaiApiKey: 'sk-client',
+      ephemeral: { expires_after: { anchor: 'created_at', seconds: 600 }, session: { instructions: 'hello' } },
+    },
+  })
+}
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times across DST', () => {
+    expect(zonedTimeToUtc('2024-01-15T09:00', 'America/New_York').toISOString()).toBe('2024-01-15T14:00:00.000Z')
+    expect(zonedTimeToUtc('2024-07-15T09:00', 'America/New_York').toISOString()).toBe('2024-07-15T13:00:00.000Z')
+    expect(zonedTimeToUtc('2024-07-15T09:00:30', 'Asia/Kolkata').toISOString()).toBe('2024-07-15T03:30:30.000Z')
+    // Skipped hour moves forward; repeated hour takes the first occurrence
+    expect(zonedTimeToUtc('2024-03-10T02:30', 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z')
+    expect(zonedTimeToUtc('2024-11-03T01:30', 'America/New_York').toISOString()).toBe('2024-11-03T05:30:00.000Z')
+  })
+})
+
+describe('scheduled calls', () => {
+  beforeEach(() => resetMemoryStore())
+
+  it('stores jobs in the callee time zone without client credentials', async () => {
+    const { job } = await createScheduledCall(input('2024-06-02T09:30', 'Europe/Berlin'), now)
+    expect(job?.runAt).toBe(Date.parse('2024-06-02T07:30:00Z'))
+    expect(job?.call).not.toHaveProperty('openaiApiKey')
+    expect((await createScheduledCall(input('2024-05-01T09:00Z'), now)).error).toMatch(/past/)
+  })
+
+  it('dispatches only due jobs and marks stale ones missed', async () => {
+    const due = (await createScheduledCall(input('2024-06-01T12:05:00Z'), now)).job!
+    const later = (await createScheduledCall(input('2024-06-01T15:00:00Z'), now)).job!
+    const stale = (await createScheduledCall(input('2024-06-01T12:00:00Z'), now)).job!
+    const dialed: string[] = []
+    const deps = { dial: async (j: any) => { dialed.push(j.id); return { callSid: 'CA1' } } }
+
+    // At 13:05 the 12:00 job is past the 60 minute lateness limit
+    const results = await dispatchDueCalls(deps, Date.parse('2024-06-01T13:05:00Z'))
+    expect(dialed).toEqual([due.id])
+    expect(results.map((r) => r.status).sort()).toEqual(['dialed', 'missed'])
+    expect((await getScheduledCall(stale.id))?.status).toBe('missed')
+    expect((await getScheduledCall(later.id))?.status).toBe('scheduled')
+    expect((await getScheduledCall(due.id))?.callSid).toBe('CA1')
+  })
+
+  it('records dial failures', async () => {
+    const { job } = await createScheduledCall(input('2024-06-01T12:01:00Z'), now)
+    await dispatchDueCalls({ dial: async () => { throw new Error('Twilio down') } }, Date.parse('2024-06-01T12:02:00Z'))
+    expect(await getScheduledCall(job!.id)).toMatchObject({ status: 'failed', error: 'Twilio down' })
+  })
+
+  it('dials a job once when dispatch runs overlap', async () => {
+    const { job } = await createScheduledCall(input('2024-06-01T12:01:00Z'), now)
+    let calls = 0
+    const deps = { dial: async () => { calls++; return { callSid: 'CA1' } } }
+    const at = Date.parse('2024-06-01T12:02:00Z')
+    await Promise.all([dispatchDueCalls(deps, at), dispatchDueCalls(deps, at)])
+    expect(calls).toBe(1)
+    expect((await getScheduledCall(job!.id))?.status).toBe('dialed')
+  })
+
+  it('postpones jobs refused by rate limits instead of failing them', async () => {
+    const { job } = await createScheduledCall(input('2024-06-01T12:01:00Z'), now)
+    const at = Date.parse('2024-06-01T12:02:00Z')
+    const limited = Object.assign(new Error('Daily session cap reached'), { status: 429, retryAfter: 120 })
+    await dispatchDueCalls({ dial: async () => { throw limited } }, at)
+    expect(await getScheduledCall(job!.id)).toMatchObject({ status: 'scheduled', runAt: at + 120_000 })
+    expect(await getScheduledCall(job!.id)).not.toHaveProperty('error')
+
+    const results = await dispatchDueCalls({ dial: async () => ({ callSid: 'CA2' }) }, at + 120_000)
+    expect(results.map((r) => r.status)).toEqual(['dialed'])
+  })
+
+  it('cancels and reschedules only pending jobs', async () => {
+    const { job } = await createScheduledCall(input('2024-06-03T08:00', 'America/Chicago'), now)
+    const moved = await rescheduleCall(job!.id, { at: '2024-06-04T08:00' }, now)
+    expect(moved.job?.runAt).toBe(Date.parse('2024-06-04T13:00:00Z'))
+    expect((await cancelScheduledCall(job!.id)).job?.status).toBe('canceled')
+    expect((await cancelScheduledCall(job!.id)).status).toBe(409)
+    expect((await rescheduleCall(job!.id, { at: '2024-06-05T08:00' }, now)).status).toBe(409)
+  })
+})
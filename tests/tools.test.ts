@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it } from '@jest/globals'
+import { executeToolCall, registerToolHandler, unregisterToolHandler } from '@/lib/tools'
+
+const ctx = { callSid: 'CA123', streamSid: 'MZ123' }
+
+describe('tools', () => {
+  afterEach(() => {
+    unregisterToolHandler('echo')
+    unregisterToolHandler('slow')
+  })
+
+  it('runs a registered handler with parsed arguments', async () => {
+    registerToolHandler('echo', (args) => ({ said: args.text }))
+    const res = await executeToolCall({ name: 'echo', call_id: 'call_1', arguments: '{"text":"hi"}' }, ctx)
+    expect(res.ok).toBe(true)
+    expect(JSON.parse(res.output)).toEqual({ said: 'hi' })
+  })
+
+  it('reports unknown tools as an error output', async () => {
+    const res = await executeToolCall({ name: 'missing', call_id: 'call_2' }, ctx)
+    expect(res.ok).toBe(false)
+    expect(JSON.parse(res.output).error).toMatch(/No handler/)
+  })
+
+  it('times out slow handlers', async () => {
+    registerToolHandler('slow', () => new Promise((resolve) => setTimeout(resolve, 200)))
+    const res = await executeToolCall({ name: 'slow', call_id: 'call_3' }, ctx, { timeoutMs: 20 })
+    expect(res.ok).toBe(false)
+    expect(res.error).toMatch(/timed out/)
+  })
+
+  it('rejects malformed arguments', async () => {
+    registerToolHandler('echo', () => 'ok')
+    const res = await executeToolCall({ name: 'echo', call_id: 'call_4', arguments: '{not json' }, ctx)
+    expect(res.ok).toBe(false)
+  })
+})
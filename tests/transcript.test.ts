@@ -0,0 +1,60 @@
+import { describe, expect, it } from '@jest/globals'
+import { applyTranscriptEvent, createTranscriptState, finalizeTranscript, orderedTurns } from '@/lib/transcript'
+
+// Replays [ms since start, event] pairs; returns the state and the turns finalized along the way
+function replay(events: Array<[number, any]>) {
+  const state = createTranscriptState(0)
+  const finalized: string[] = []
+  for (const [t, msg] of events) {
+    const u = applyTranscriptEvent(state, msg, t)
+    if (u?.finalized) finalized.push(u.turn.item_id)
+  }
+  return { state, finalized }
+}
+
+describe('transcript assembly', () => {
+  it('builds caller and agent turns from deltas, .done and input transcription', () => {
+    const { state, finalized } = replay([
+      [100, { type: 'input_audio_buffer.speech_started', item_id: 'u1', audio_start_ms: 80 }],
+      [900, { type: 'input_audio_buffer.speech_stopped', item_id: 'u1', audio_end_ms: 880 }],
+      [1000, { type: 'response.output_item.added', item: { id: 'a1', type: 'message', role: 'assistant' } }],
+      [1100, { type: 'response.audio_transcript.delta', item_id: 'a1', delta: 'Hello, ' }],
+      [1200, { type: 'response.audio_transcript.delta', item_id: 'a1', delta: 'how can I help?' }],
+      [1300, { type: 'conversation.item.input_audio_transcription.completed', item_id: 'u1', transcript: ' Hi there ' }],
+      [2500, { type: 'response.audio_transcript.done', item_id: 'a1', transcript: 'Hello, how can I help?' }],
+      [2600, { type: 'response.done', response: { status: 'completed', output: [{ id: 'a1' }] } }],
+    ])
+    expect(finalized).toEqual(['u1', 'a1'])
+    expect(orderedTurns(state.turns)).toEqual([
+      { item_id: 'u1', role: 'user', text: 'Hi there', startMs: 80, endMs: 880, final: true },
+      { item_id: 'a1', role: 'assistant', text: 'Hello, how can I help?', startMs: 1000, endMs: 2500, final: true },
+    ])
+  })
+
+  it('flags interrupted and truncated assistant turns', () => {
+    const { state, finalized } = replay([
+      [0, { type: 'response.output_item.added', item: { id: 'a1', type: 'message', role: 'assistant' } }],
+      [100, { type: 'response.audio_transcript.delta', item_id: 'a1', delta: 'Let me explain the whole' }],
+      [900, { type: 'input_audio_buffer.speech_started', item_id: 'u2', audio_start_ms: 880 }],
+      [950, { type: 'conversation.item.truncated', item_id: 'a1', audio_end_ms: 640 }],
+      [960, { type: 'response.done', response: { status: 'cancelled', output: [{ id: 'a1' }] } }],
+      [970, { type: 'response.audio_transcript.delta', item_id: 'a1', delta: ' late' }],
+    ])
+    expect(finalized).toEqual(['a1'])
+    expect(state.turns[0]).toMatchObject({ text: 'Let me explain the whole', interrupted: true, truncated: true, truncatedAtMs: 640, endMs: 960 })
+  })
+
+  it('finalizes open turns at hangup and drops empty caller turns', () => {
+    const { state } = replay([
+      [0, { type: 'input_audio_buffer.speech_started', item_id: 'noise', audio_start_ms: 0 }],
+      [10, { type: 'conversation.item.input_audio_transcription.completed', item_id: 'noise', transcript: '' }],
+      [20, { type: 'response.output_item.added', item: { id: 'a1', type: 'message', role: 'assistant' } }],
+      [30, { type: 'response.text.delta', item_id: 'a1', delta: 'Bye' }],
+    ])
+    const open = finalizeTranscript(state, 500)
+    expect(open.map((t) => t.item_id)).toEqual(['a1'])
+    expect(orderedTurns(state.turns)).toEqual([
+      { item_id: 'a1', role: 'assistant', text: 'Bye', startMs: 20, endMs: 500, final: true, interrupted: true },
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals'
+import { formatTimestamp, recordingOffsetMs, renderTranscript } from '@/lib/transcriptExport'
+import type { StoredTranscript } from '@/lib/transcript'
+import type { CallRecord } from '@/lib/callRecords'
+
+const sid = 'CA' + 'b'.repeat(32)
+const streamStart = Date.parse('2024-06-04T12:00:02.000Z')
+
+const transcript: StoredTranscript = {
+  startedAt: streamStart,
+  turns: [
+    { item_id: 'a1', role: 'assistant', text: 'Hi, this is Ava.', startMs: 500, endMs: 2000, final: true },
+    { item_id: 'u1', role: 'user', text: 'Who is <this>?', startMs: 2500, endMs: 3700, final: true },
+    { item_id: 'u2', role: 'user', text: '', startMs: 4000, endMs: 4100, final: true },
+    { item_id: 'a2', role: 'assistant', text: 'Calling about\n\nyour order', startMs: 65000, final: true, interrupted: true },
+  ],
+}
+
+// Recording started 2s before the stream connected
+const record = { sid, status: 'completed', timestamps: {}, recordingSids: ['RE1'], recordingStartedAt: '2024-06-04T12:00:00.000Z', transcriptKeys: [], createdAt: '', updatedAt: '' } as CallRecord
+
+describe('transcript export', () => {
+  it('aligns to the recording start, falling back to answer time, else no shift', () => {
+    expect(recordingOffsetMs(transcript, record)).toBe(2000)
+    expect(recordingOffsetMs(transcript, { ...record, recordingStartedAt: undefined, timestamps: { 'in-progress': '2024-06-04T12:00:01.000Z' } })).toBe(1000)
+    expect(recordingOffsetMs({ turns: transcript.turns }, record)).toBe(0)
+    expect(recordingOffsetMs(transcript, null)).toBe(0)
+  })
+
+  it('formats caption timestamps', () => {
+    expect(formatTimestamp(3_723_045, ',')).toBe('01:02:03,045')
+    expect(formatTimestamp(500, '.')).toBe('00:00:00.500')
+  })
+
+  it('renders SRT with recording-aligned cues and no blank lines inside cues', () => {
+    const out = renderTranscript('srt', sid, transcript, record)
+    expect(out.filename).toBe(`${sid}.srt`)
+    expect(out.body).toBe(
+      '1\n00:00:02,500 --> 00:00:04,000\nAgent: Hi, this is Ava.\n\n' +
+      '2\n00:00:04,500 --> 00:00:05,700\nCaller: Who is <this>?\n\n' +
+      '3\n00:01:07,000 --> 00:01:08,000\nAgent: Calling about\nyour order\n'
+    )
+  })
+
+  it('renders WebVTT with voice tags and escaped text', () => {
+    const out = renderTranscript('vtt', sid, transcript, record)
+    expect(out.contentType).toMatch(/^text\/vtt/)
+    expect(out.body.startsWith('WEBVTT\n\n00:00:02.500 --> 00:00:04.000\n<v Agent>Hi, this is Ava.\n')).toBe(true)
+    expect(out.body).toContain('<v Caller>Who is &lt;this&gt;?')
+  })
+
+  it('renders plain text and structured JSON', () => {
+    const txt = renderTranscript('txt', sid, transcript, record).body
+    expect(txt.split('\n')[0]).toBe('[00:00:02] Agent: Hi, this is Ava.')
+    expect(txt).toContain('[00:01:07] Agent: Calling about\n\nyour order [interrupted]')
+    const json = JSON.parse(renderTranscript('json', sid, transcript, record).body)
+    expect(json).toMatchObject({ callSid: sid, recordingOffsetMs: 2000 })
+    expect(json.turns).toHaveLength(3)
+    expect(json.turns[1]).toEqual({ role: 'user', speaker: 'Caller', text: 'Who is <this>?', startMs: 4500, endMs: 5700 })
+  })
+})
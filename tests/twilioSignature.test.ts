@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+// node environment: signatures are HMAC-SHA1 over Web Crypto, which jsdom lacks
+import { afterEach, describe, expect, it, jest } from '@jest/globals'
+import { computeTwilioSignature, readTwilioParams, signatureUrls, verifyTwilioRequest } from '@/lib/twilioSignature'
+
+let mockProd = false
+jest.mock('@/lib/config', () => ({ get isProd() { return mockProd } }))
+
+// Example from Twilio's security docs
+const TOKEN = '12345'
+const DOCS_URL = 'https://mycompany.com/myapp.php?foo=1&bar=2'
+const DOCS_PARAMS = { CallSid: 'CA1234567890ABCDE', Caller: '+12349013030', Digits: '1234', From: '+12349013030', To: '+18005551212' }
+
+function form(url: string, params: Record<string, string>, signature?: string) {
+  return new Request(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded', ...(signature && { 'x-twilio-signature': signature }) },
+    body: new URLSearchParams(params).toString(),
+  })
+}
+
+afterEach(() => {
+  mockProd = false
+  delete process.env.PUBLIC_BASE_URL
+})
+
+describe('twilio signatures', () => {
+  it('matches known-good vectors', async () => {
+    expect(await computeTwilioSignature(TOKEN, DOCS_URL, DOCS_PARAMS)).toBe('0/KCTR6DLpKmkAf8muzZqo1nDgQ=')
+    expect(await computeTwilioSignature(TOKEN, DOCS_URL)).toBe('zYQTYrRWXE7LtzbG4PfP7/bkkGo=')
+    expect(await computeTwilioSignature(TOKEN, 'wss://example.com/api/stream/twilio?secret=abc')).toBe('hDF3GpzSFvGeFHyMu09j6dUhXNk=')
+  })
+
+  it('verifies POST bodies and GET query strings', async () => {
+    const post = form(DOCS_URL, DOCS_PARAMS, '0/KCTR6DLpKmkAf8muzZqo1nDgQ=')
+    const params = await readTwilioParams(post)
+    expect(params).toEqual(DOCS_PARAMS)
+    expect(await verifyTwilioRequest(post, params, { authToken: TOKEN })).toEqual({ ok: true })
+    expect(await verifyTwilioRequest(post, { ...params, Digits: '9' }, { authToken: TOKEN })).toMatchObject({ ok: false })
+
+    const get = new Request(DOCS_URL, { headers: { 'x-twilio-signature': 'zYQTYrRWXE7LtzbG4PfP7/bkkGo=' } })
+    expect(await verifyTwilioRequest(get, await readTwilioParams(get), { authToken: TOKEN })).toEqual({ ok: true })
+  })
+
+  it('checks the public URL behind a proxy, with and without the default port', async () => {
+    process.env.PUBLIC_BASE_URL = 'https://mycompany.com/'
+    expect(signatureUrls('http://10.0.0.5:3000/myapp.php?foo=1&bar=2')).toEqual([
+      DOCS_URL,
+      'https://mycompany.com:443/myapp.php?foo=1&bar=2',
+      'http://10.0.0.5/myapp.php?foo=1&bar=2',
+      'http://10.0.0.5:3000/myapp.php?foo=1&bar=2',
+    ])
+    const proxied = form('http://10.0.0.5:3000/myapp.php?foo=1&bar=2', DOCS_PARAMS, '0/KCTR6DLpKmkAf8muzZqo1nDgQ=')
+    expect(await verifyTwilioRequest(proxied, DOCS_PARAMS, { authToken: TOKEN })).toEqual({ ok: true })
+  })
+
+  it('verifies WebSocket upgrades against the wss:// URL', async () => {
+    const upgrade = new Request('https://example.com/api/stream/twilio?secret=abc', {
+      headers: { upgrade: 'websocket', 'x-twilio-signature': 'hDF3GpzSFvGeFHyMu09j6dUhXNk=' },
+    })
+    expect(await verifyTwilioRequest(upgrade, {}, { websocket: true, authToken: TOKEN })).toEqual({ ok: true })
+    expect(await verifyTwilioRequest(upgrade, {}, { authToken: TOKEN })).toMatchObject({ ok: false })
+  })
+
+  it('rejects unsigned requests only in production', async () => {
+    const unsigned = new Request(DOCS_URL)
+    expect(await verifyTwilioRequest(unsigned, {}, { authToken: TOKEN })).toEqual({ ok: true })
+    mockProd = true
+    expect(await verifyTwilioRequest(unsigned, {}, { authToken: TOKEN })).toEqual({ ok: false, reason: 'Missing X-Twilio-Signature' })
+    expect(await verifyTwilioRequest(new Request(DOCS_URL, { headers: { 'x-twilio-signature': 'x' } }), {}, { authToken: '' })).toMatchObject({ ok: false })
+  })
+})
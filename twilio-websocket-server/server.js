@@ -89,6 +89,33 @@ function log(level, message, data = {}) {
   }
 }
 
+// Exchange a call token for { secret, instructions? } at the app (APP_BASE_URL),
+// authenticated with its REALTIME_CONTROL_ADMIN_SECRET
+async function redeemCallToken(token) {
+  const base = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  const admin = process.env.REALTIME_CONTROL_ADMIN_SECRET;
+  if (!base || !admin) {
+    log('error', 'Call token received but APP_BASE_URL or REALTIME_CONTROL_ADMIN_SECRET is not set');
+    return null;
+  }
+  try {
+    const res = await fetch(`${base}/api/call-tokens/redeem`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${admin}` },
+      body: JSON.stringify({ token })
+    });
+    if (!res.ok) {
+      log('warn', 'Call token redemption failed', { status: res.status });
+      return null;
+    }
+    const data = await res.json();
+    return data.secret ? data : null;
+  } catch (e) {
+    log('error', 'Call token redemption error', { error: e.message });
+    return null;
+  }
+}
+
 // Create WebSocket server
 const wss = new WebSocket.Server({ server });
 
@@ -130,6 +157,19 @@ wss.on('connection', async (twilioWS, request) => {
     return;
   }
   
+  // The app sends a call token (ct_...) instead of the secret; exchange it once.
+  // Its instructions have per-contact {{vars}} filled in, so they win over the profile's.
+  let tokenInstructions = null;
+  if (providedSecret.startsWith('ct_')) {
+    const session = await redeemCallToken(providedSecret);
+    if (!session) {
+      twilioWS.close(1008, 'Invalid call token');
+      return;
+    }
+    providedSecret = session.secret;
+    tokenInstructions = session.instructions || null;
+  }
+
   const maskedSecret = providedSecret.length > 8
     ? `${providedSecret.substring(0, 4)}…${providedSecret.substring(providedSecret.length - 4)}`
     : '***';
@@ -181,6 +221,7 @@ wss.on('connection', async (twilioWS, request) => {
         // Apply user overrides first (from TwiML <Parameter name="session" value=...>)
         const u = state.userOverrides || {};
         if (typeof u.instructions === 'string' && u.instructions.trim()) sessionConfig.instructions = u.instructions;
+        if (tokenInstructions) sessionConfig.instructions = tokenInstructions;
         if (u.input_audio_transcription && typeof u.input_audio_transcription === 'object') sessionConfig.input_audio_transcription = u.input_audio_transcription;
         if (Array.isArray(u.tools)) sessionConfig.tools = u.tools;
         if (typeof u.tool_choice === 'string') sessionConfig.tool_choice = u.tool_choice;